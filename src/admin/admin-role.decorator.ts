@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+import { AdminRole } from '../entities/AdminTokenRecord';
+
+export const ADMIN_ROLE_KEY = 'adminRole';
+
+// Minimum role for a handler or controller guarded by AdminGuard ('full' when absent)
+export const RequireAdminRole = (role: AdminRole) =>
+  SetMetadata(ADMIN_ROLE_KEY, role);
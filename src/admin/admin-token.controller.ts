@@ -0,0 +1,46 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Post,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { AdminTokenService } from './admin-token.service';
+import { AdminGuard } from './admin.guard';
+import type { CreateAdminTokenDto } from '../dtos/CreateAdminTokenDto';
+import { AuditGuard, AuditResultInterceptor } from '../audit/audit.guard';
+import { Audit } from '../audit/audit.decorator';
+import { adminTokenTarget } from '../audit/audit-targets';
+
+// Managing admin tokens always requires a full admin
+@Controller('admin/tokens')
+@UseGuards(AuditGuard, AdminGuard)
+@UseInterceptors(AuditResultInterceptor)
+export class AdminTokenController {
+  constructor(private readonly service: AdminTokenService) {}
+
+  @Get()
+  @Audit('admin_token.list', adminTokenTarget, { notClientScoped: true })
+  async findAll() {
+    return this.service.findAll();
+  }
+
+  @Post()
+  @Audit('admin_token.create', adminTokenTarget, { notClientScoped: true })
+  async create(@Body() dto: CreateAdminTokenDto) {
+    return this.service.create(dto);
+  }
+
+  @Delete(':id')
+  @Audit('admin_token.delete', adminTokenTarget, { notClientScoped: true })
+  async remove(@Param('id', ParseIntPipe) id: number) {
+    if (!(await this.service.remove(id)))
+      throw new NotFoundException('Admin token not found');
+    return { success: true };
+  }
+}
@@ -0,0 +1,55 @@
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AdminTokenService } from './admin-token.service';
+
+describe('AdminTokenService', () => {
+  let dir: string;
+  // Two instances stand in for two workers sharing admin-tokens.json
+  const open = () =>
+    new AdminTokenService(
+      new ConfigService({ STORAGE_ROOT: path.join(dir, 'storage') }),
+    );
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'admin-tokens-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps every token created concurrently, with distinct ids', async () => {
+    const workers = [open(), open()];
+    const issued = await Promise.all(
+      Array.from({ length: 6 }, (_, index) =>
+        workers[index % 2].create({ name: `t${index}`, role: 'read' }),
+      ),
+    );
+    expect(new Set(issued.map((token) => token.id)).size).toBe(6);
+    expect(await workers[0].findAll()).toHaveLength(6);
+    for (const { token, id } of issued) {
+      expect((await workers[1].authenticate(token))?.id).toBe(id);
+    }
+    expect(await fs.readdir(dir)).toEqual(['admin-tokens.json']);
+  });
+
+  it('never reuses the id of a revoked token', async () => {
+    const service = open();
+    await service.create({ name: 'a', role: 'read' });
+    const second = await service.create({ name: 'b', role: 'full' });
+    expect(await service.remove(second.id)).toBe(true);
+    expect((await service.create({ name: 'c', role: 'read' })).id).toBe(3);
+  });
+
+  it('reads the list written by older versions', async () => {
+    await fs.writeFile(
+      path.join(dir, 'admin-tokens.json'),
+      JSON.stringify([{ id: 4, name: 'old', role: 'full', prefix: 'adm_x' }]),
+    );
+    const service = open();
+    expect((await service.create({ name: 'new', role: 'read' })).id).toBe(5);
+    expect((await service.findAll()).map((token) => token.id)).toEqual([4, 5]);
+  });
+});
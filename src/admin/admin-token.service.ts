@@ -0,0 +1,160 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AdminRole, AdminTokenRecord } from '../entities/AdminTokenRecord';
+import type { CreateAdminTokenDto } from '../dtos/CreateAdminTokenDto';
+import { withFileLock, writeFileAtomic } from '../common/utils/file-lock';
+
+export const ADMIN_ROLES: readonly AdminRole[] = ['read', 'full'];
+
+export interface AdminIdentity {
+  // 'bootstrap' for the ADMIN_TOKEN from the environment
+  id: number | 'bootstrap';
+  name: string;
+  role: AdminRole;
+}
+
+// Returned once, at creation: the plain token cannot be recovered later
+export type IssuedAdminToken = Omit<AdminTokenRecord, 'tokenHash'> & {
+  token: string;
+};
+
+// Contents of admin-tokens.json; older versions stored the bare list
+interface AdminTokenStore {
+  // Ids are never reused, so a revoked token's id cannot name a newer one in the audit log
+  nextId: number;
+  tokens: AdminTokenRecord[];
+}
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+@Injectable()
+export class AdminTokenService implements OnModuleInit {
+  private readonly logger = new Logger(AdminTokenService.name);
+  private readonly storeFile: string;
+  private readonly bootstrapHash?: Buffer;
+
+  constructor(private readonly configService: ConfigService) {
+    const storageRoot =
+      this.configService.get<string>('STORAGE_ROOT') || 'storage';
+    this.storeFile = path.resolve(
+      process.cwd(),
+      storageRoot,
+      '..',
+      'admin-tokens.json',
+    );
+    const bootstrap = this.configService.get<string>('ADMIN_TOKEN');
+    if (bootstrap) this.bootstrapHash = sha256(bootstrap);
+  }
+
+  async onModuleInit() {
+    if (!this.bootstrapHash && !(await this.readAll()).length) {
+      this.logger.warn(
+        'No ADMIN_TOKEN set and no admin tokens issued: the admin API is locked. Run `npm run admin:token -- <name>` to issue one.',
+      );
+    }
+  }
+
+  private async readStore(): Promise<AdminTokenStore> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await fs.readFile(this.storeFile, 'utf8'));
+    } catch {
+      return { nextId: 1, tokens: [] };
+    }
+    if (Array.isArray(parsed)) {
+      const tokens = parsed as AdminTokenRecord[];
+      return {
+        nextId: Math.max(0, ...tokens.map((x) => x.id)) + 1,
+        tokens,
+      };
+    }
+    const store = parsed as Partial<AdminTokenStore>;
+    return {
+      nextId: store.nextId ?? 1,
+      tokens: Array.isArray(store.tokens) ? store.tokens : [],
+    };
+  }
+
+  private async readAll(): Promise<AdminTokenRecord[]> {
+    return (await this.readStore()).tokens;
+  }
+
+  // Read-modify-write under a lock shared by every worker and the admin:token CLI
+  private async update<T>(change: (store: AdminTokenStore) => T): Promise<T> {
+    return withFileLock(`${this.storeFile}.lock`, async () => {
+      const store = await this.readStore();
+      const result = change(store);
+      await writeFileAtomic(this.storeFile, JSON.stringify(store, null, 2), {
+        mode: 0o600,
+      });
+      return result;
+    });
+  }
+
+  private toPublic(
+    record: AdminTokenRecord,
+  ): Omit<AdminTokenRecord, 'tokenHash'> {
+    const { id, name, role, prefix, createdAt } = record;
+    return { id, name, role, prefix, createdAt };
+  }
+
+  async findAll(): Promise<Omit<AdminTokenRecord, 'tokenHash'>[]> {
+    return (await this.readAll()).map((record) => this.toPublic(record));
+  }
+
+  async create(dto: CreateAdminTokenDto): Promise<IssuedAdminToken> {
+    if (!dto || typeof dto.name !== 'string' || !dto.name.trim()) {
+      throw new BadRequestException('name is required');
+    }
+    if (!ADMIN_ROLES.includes(dto.role)) {
+      throw new BadRequestException(
+        `role must be one of ${ADMIN_ROLES.join(', ')}`,
+      );
+    }
+    const token = `adm_${randomBytes(32).toString('base64url')}`;
+    const record = await this.update((store) => {
+      const created: AdminTokenRecord = {
+        id: store.nextId++,
+        name: dto.name.trim(),
+        role: dto.role,
+        prefix: token.substring(0, 10),
+        tokenHash: sha256(token).toString('hex'),
+        createdAt: new Date().toISOString(),
+      };
+      store.tokens.push(created);
+      return created;
+    });
+    return { ...this.toPublic(record), token };
+  }
+
+  async remove(id: number): Promise<boolean> {
+    return this.update((store) => {
+      const count = store.tokens.length;
+      store.tokens = store.tokens.filter((x) => x.id !== id);
+      return store.tokens.length !== count;
+    });
+  }
+
+  /** Resolves a presented token to an admin, or undefined when it is unknown. */
+  async authenticate(token: string): Promise<AdminIdentity | undefined> {
+    const hash = sha256(token);
+    if (this.bootstrapHash && timingSafeEqual(hash, this.bootstrapHash)) {
+      return { id: 'bootstrap', name: 'bootstrap', role: 'full' };
+    }
+    // Tokens are 256-bit random values, so looking up their hash leaks nothing useful
+    const list = await this.readAll();
+    const record = list.find((x) => x.tokenHash === hash.toString('hex'));
+    if (!record) return undefined;
+    return { id: record.id, name: record.name, role: record.role };
+  }
+}
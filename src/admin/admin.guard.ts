@@ -0,0 +1,50 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import { AdminRole } from '../entities/AdminTokenRecord';
+import { ADMIN_ROLE_KEY } from './admin-role.decorator';
+import { AdminIdentity, AdminTokenService } from './admin-token.service';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    admin?: AdminIdentity;
+  }
+}
+
+// Accepts `Authorization: Bearer <token>` or `x-admin-token: <token>`
+@Injectable()
+export class AdminGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly adminTokenService: AdminTokenService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const req = context.switchToHttp().getRequest<Request>();
+    const authorization = req.get('authorization');
+    const token =
+      authorization?.match(/^Bearer\s+(\S+)$/i)?.[1] ??
+      req.get('x-admin-token');
+    if (!token) throw new UnauthorizedException('Admin token required');
+
+    const admin = await this.adminTokenService.authenticate(token);
+    if (!admin) throw new UnauthorizedException('Invalid admin token');
+
+    const required =
+      this.reflector.getAllAndOverride<AdminRole | undefined>(ADMIN_ROLE_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? 'full';
+    if (required === 'full' && admin.role !== 'full') {
+      throw new ForbiddenException('This action requires a full admin token');
+    }
+    req.admin = admin;
+    return true;
+  }
+}
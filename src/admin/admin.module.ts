@@ -0,0 +1,14 @@
+import { forwardRef, Module } from '@nestjs/common';
+import { AdminTokenService } from './admin-token.service';
+import { AdminTokenController } from './admin-token.controller';
+import { AdminGuard } from './admin.guard';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  // AuditModule's own controller is guarded by AdminGuard
+  imports: [forwardRef(() => AuditModule)],
+  providers: [AdminTokenService, AdminGuard],
+  controllers: [AdminTokenController],
+  exports: [AdminTokenService, AdminGuard],
+})
+export class AdminModule {}
@@ -1,4 +1,9 @@
-import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import {
+  MiddlewareConsumer,
+  Module,
+  NestModule,
+  RequestMethod,
+} from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { z } from 'zod';
 import { AppController } from './app.controller';
@@ -6,6 +11,9 @@ import { AppService } from './app.service';
 import { ClientResolverMiddleware } from './common/middleware/client-resolver.middleware';
 import { StorageModule } from './storage/storage.module';
 import { ClientKeyModule } from './keys/client-key.module';
+import { RateLimitMiddleware } from './common/middleware/rate-limit.middleware';
+import { UsageModule } from './usage/usage.module';
+import { parseMasterKey } from './common/utils/content-encryption';
 
 @Module({
   imports: [
@@ -13,36 +21,198 @@ import { ClientKeyModule } from './keys/client-key.module';
       isGlobal: true,
       envFilePath: ['.env', '.env.local'],
       validate: (config: Record<string, unknown>) => {
-        const schema = z.object({
-          NODE_ENV: z.enum(['development', 'test', 'production']).default('development'),
-          // PORT: z.coerce.number().int().positive().default(3005),
-          STORAGE_ROOT: z.string().min(1).default('storage'),
-          CLIENT_HEADER_KEY: z.string().min(1).default('x-client-key'),
-        });
+        const schema = z
+          .object({
+            NODE_ENV: z
+              .enum(['development', 'test', 'production'])
+              .default('development'),
+            // PORT: z.coerce.number().int().positive().default(3005),
+            STORAGE_ROOT: z.string().min(1).default('storage'),
+            METADATA_ROOT: z.string().min(1).default('storage-meta'),
+            CLIENT_HEADER_KEY: z.string().min(1).default('x-client-key'),
+            // SQLite database of client keys; defaults to client-keys.db next to STORAGE_ROOT
+            CLIENT_KEYS_DB: z.string().min(1).optional(),
+            UPLOAD_SESSION_TTL: z.coerce
+              .number()
+              .int()
+              .positive()
+              .default(86400),
+            UPLOAD_MAX_SIZE: z.coerce.number().int().positive().optional(),
+            ADMIN_TOKEN: z.string().min(32).optional(),
+            URL_SIGNING_SECRET: z.string().min(32).optional(),
+            // Wraps the per-client data keys of encryption at rest: 32 bytes, hex or base64
+            ENCRYPTION_MASTER_KEY: z
+              .string()
+              .refine((value) => parseMasterKey(value) !== null, {
+                message:
+                  'ENCRYPTION_MASTER_KEY must be 32 bytes, hex or base64 encoded',
+              })
+              .optional(),
+            SHARE_LINK_MAX_TTL: z.coerce
+              .number()
+              .int()
+              .positive()
+              .default(604800),
+            UPLOAD_TOKEN_MAX_TTL: z.coerce
+              .number()
+              .int()
+              .positive()
+              .default(86400),
+            IMAGE_MAX_DIMENSION: z.coerce
+              .number()
+              .int()
+              .positive()
+              .default(4096),
+            // Thumbnails: longest side in pixels, renders at a time, seconds per pdftoppm / ffmpeg run
+            PREVIEW_SIZE: z.coerce
+              .number()
+              .int()
+              .positive()
+              .max(2048)
+              .default(320),
+            PREVIEW_CONCURRENCY: z.coerce.number().int().positive().default(1),
+            PREVIEW_TIMEOUT: z.coerce.number().positive().default(60),
+            // PDFs and videos larger than this (bytes) get no preview
+            PREVIEW_MAX_SOURCE_SIZE: z.coerce
+              .number()
+              .int()
+              .positive()
+              .default(1073741824),
+            // Empty disables PDF / video previews
+            PDFTOPPM_PATH: z.string().default('pdftoppm'),
+            FFMPEG_PATH: z.string().default('ffmpeg'),
+            // Media metadata read at upload: tools and seconds per run
+            PDFINFO_PATH: z.string().min(1).default('pdfinfo'),
+            FFPROBE_PATH: z.string().min(1).default('ffprobe'),
+            METADATA_TIMEOUT: z.coerce.number().positive().default(30),
+            WEBHOOK_TIMEOUT: z.coerce.number().positive().default(10),
+            WEBHOOK_MAX_ATTEMPTS: z.coerce.number().int().positive().default(6),
+            WEBHOOK_RETRY_DELAY: z.coerce.number().positive().default(30),
+            WEBHOOK_DELIVERY_RETENTION: z.coerce
+              .number()
+              .int()
+              .positive()
+              .default(604800),
+            // Seconds deleted files stay in the trash before they are purged
+            TRASH_RETENTION: z.coerce
+              .number()
+              .int()
+              .positive()
+              .default(2592000),
+            // Seconds audit events are kept; unset keeps them forever
+            AUDIT_RETENTION: z.coerce.number().int().positive().optional(),
+            // Requests per minute of clients whose policy sets no maxRequestsPerMinute; unset is unlimited
+            RATE_LIMIT_PER_MINUTE: z.coerce
+              .number()
+              .int()
+              .positive()
+              .optional(),
+            // Comma-separated, run in order; empty disables upload scanning
+            UPLOAD_SCANNERS: z
+              .string()
+              .default('magic')
+              .refine(
+                (value) =>
+                  value
+                    .split(',')
+                    .map((name) => name.trim())
+                    .filter(Boolean)
+                    .every((name) => ['magic', 'clamd'].includes(name)),
+                { message: 'UPLOAD_SCANNERS accepts magic and clamd' },
+              ),
+            CLAMD_SOCKET: z.string().min(1).optional(),
+            CLAMD_HOST: z.string().min(1).optional(),
+            CLAMD_PORT: z.coerce.number().int().positive().default(3310),
+            CLAMD_TIMEOUT: z.coerce.number().positive().default(60),
+            STORAGE_DRIVER: z.enum(['filesystem', 's3']).default('filesystem'),
+            S3_BUCKET: z.string().min(1).optional(),
+            S3_REGION: z.string().min(1).default('us-east-1'),
+            S3_ENDPOINT: z.url().optional(),
+            S3_ACCESS_KEY_ID: z.string().min(1).optional(),
+            S3_SECRET_ACCESS_KEY: z.string().min(1).optional(),
+            S3_FORCE_PATH_STYLE: z.enum(['true', 'false']).default('false'),
+            S3_PREFIX: z.string().optional(),
+          })
+          .refine((env) => env.STORAGE_DRIVER !== 's3' || !!env.S3_BUCKET, {
+            message: 'S3_BUCKET is required when STORAGE_DRIVER=s3',
+            path: ['S3_BUCKET'],
+          })
+          .refine(
+            (env) =>
+              !/\bclamd\b/.test(env.UPLOAD_SCANNERS) ||
+              !!(env.CLAMD_SOCKET || env.CLAMD_HOST),
+            {
+              message:
+                'CLAMD_SOCKET or CLAMD_HOST is required when UPLOAD_SCANNERS includes clamd',
+              path: ['CLAMD_HOST'],
+            },
+          );
         const result = schema.safeParse(config);
         if (!result.success) {
-          throw new Error(`Invalid environment variables: ${result.error.message}`);
+          throw new Error(
+            `Invalid environment variables: ${result.error.message}`,
+          );
         }
         return {
           ...config,
           NODE_ENV: result.data.NODE_ENV,
           // PORT: result.data.PORT.toString(),
           STORAGE_ROOT: result.data.STORAGE_ROOT,
+          METADATA_ROOT: result.data.METADATA_ROOT,
           CLIENT_HEADER_KEY: result.data.CLIENT_HEADER_KEY,
+          UPLOAD_SESSION_TTL: result.data.UPLOAD_SESSION_TTL.toString(),
+          UPLOAD_MAX_SIZE: result.data.UPLOAD_MAX_SIZE?.toString(),
+          SHARE_LINK_MAX_TTL: result.data.SHARE_LINK_MAX_TTL.toString(),
+          UPLOAD_TOKEN_MAX_TTL: result.data.UPLOAD_TOKEN_MAX_TTL.toString(),
+          IMAGE_MAX_DIMENSION: result.data.IMAGE_MAX_DIMENSION.toString(),
+          PREVIEW_SIZE: result.data.PREVIEW_SIZE.toString(),
+          PREVIEW_CONCURRENCY: result.data.PREVIEW_CONCURRENCY.toString(),
+          PREVIEW_TIMEOUT: result.data.PREVIEW_TIMEOUT.toString(),
+          PREVIEW_MAX_SOURCE_SIZE:
+            result.data.PREVIEW_MAX_SOURCE_SIZE.toString(),
+          PDFTOPPM_PATH: result.data.PDFTOPPM_PATH,
+          FFMPEG_PATH: result.data.FFMPEG_PATH,
+          PDFINFO_PATH: result.data.PDFINFO_PATH,
+          FFPROBE_PATH: result.data.FFPROBE_PATH,
+          METADATA_TIMEOUT: result.data.METADATA_TIMEOUT.toString(),
+          WEBHOOK_TIMEOUT: result.data.WEBHOOK_TIMEOUT.toString(),
+          WEBHOOK_MAX_ATTEMPTS: result.data.WEBHOOK_MAX_ATTEMPTS.toString(),
+          WEBHOOK_RETRY_DELAY: result.data.WEBHOOK_RETRY_DELAY.toString(),
+          WEBHOOK_DELIVERY_RETENTION:
+            result.data.WEBHOOK_DELIVERY_RETENTION.toString(),
+          TRASH_RETENTION: result.data.TRASH_RETENTION.toString(),
+          AUDIT_RETENTION: result.data.AUDIT_RETENTION?.toString(),
+          RATE_LIMIT_PER_MINUTE: result.data.RATE_LIMIT_PER_MINUTE?.toString(),
+          UPLOAD_SCANNERS: result.data.UPLOAD_SCANNERS,
+          CLAMD_PORT: result.data.CLAMD_PORT.toString(),
+          CLAMD_TIMEOUT: result.data.CLAMD_TIMEOUT.toString(),
+          STORAGE_DRIVER: result.data.STORAGE_DRIVER,
+          S3_REGION: result.data.S3_REGION,
+          S3_FORCE_PATH_STYLE: result.data.S3_FORCE_PATH_STYLE,
         } as Record<string, string>;
       },
     }),
     StorageModule,
     ClientKeyModule,
+    UsageModule,
   ],
   controllers: [AppController],
   providers: [AppService],
 })
 export class AppModule implements NestModule {
   configure(consumer: MiddlewareConsumer) {
-    consumer.apply(ClientResolverMiddleware)
-    .exclude('admin/client-keys/(.*)')
-    .exclude(`${process.env.STORAGE_ROOT}/(.*)`)
-    .forRoutes('*');
+    // Rate limits and metering apply to the client resolved just before
+    consumer
+      .apply(ClientResolverMiddleware, RateLimitMiddleware)
+      // Admin routes authenticate with AdminGuard instead
+      .exclude('admin/(.*)')
+      // tus clients (and CORS preflights) discover server capabilities without credentials
+      .exclude({ path: 'storage/uploads', method: RequestMethod.OPTIONS })
+      .exclude(`${process.env.STORAGE_ROOT}/(.*)`)
+      .exclude('storage-data/(.*)')
+      .exclude('storage/shared/(.*)')
+      // Authenticated by their upload token (UploadTokenGuard)
+      .exclude('storage/direct-upload/(.*)')
+      .forRoutes('*');
   }
 }
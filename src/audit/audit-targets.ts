@@ -0,0 +1,111 @@
+import type { Request } from 'express';
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === 'string' && value) return value;
+  // Express 5 wildcard params arrive as their segments
+  if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+    return value.join('/');
+  }
+  return undefined;
+}
+
+function pathList(value: unknown): string | undefined {
+  if (!Array.isArray(value)) return asString(value);
+  const paths = value.filter((item) => typeof item === 'string');
+  return paths.length ? paths.join(', ') : undefined;
+}
+
+/**
+ * Target of a storage action: the stored file for uploads, otherwise the path,
+ * paths, move (`from -> to`), folder or filter given in the request.
+ */
+export function storageTarget(req: Request, result: unknown): string | null {
+  if (result && typeof result === 'object') {
+    const { path, results } = result as { path?: unknown; results?: unknown };
+    if (typeof path === 'string') return path;
+    if (Array.isArray(results)) {
+      const uploaded = results
+        .map((item: { file?: { path?: unknown } }) => item?.file?.path)
+        .filter((item): item is string => typeof item === 'string');
+      return uploaded.length ? uploaded.join(', ') : null;
+    }
+  }
+  const params = req.params ?? {};
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  const query = req.query ?? {};
+  const from = asString(body.from);
+  if (from) return `${from} -> ${asString(body.to) ?? ''}`;
+  if (body.filter && typeof body.filter === 'object') {
+    return `filter:${new URLSearchParams(body.filter as Record<string, string>).toString()}`;
+  }
+  return (
+    asString(params.path) ??
+    asString(body.path) ??
+    pathList(body.paths) ??
+    asString(body.folder) ??
+    pathList(query.path) ??
+    asString(query.folder) ??
+    asString(query.prefix) ??
+    null
+  );
+}
+
+function resultId(result: unknown): string | undefined {
+  const id = (result as { id?: unknown } | undefined)?.id;
+  return typeof id === 'number' || typeof id === 'string'
+    ? String(id)
+    : undefined;
+}
+
+/** `client:<id>`, or `client:<id>/credential:<id>` for credential actions. */
+export function clientKeyTarget(req: Request, result: unknown): string | null {
+  const id = asString(req.params?.id) ?? resultId(result);
+  if (id === undefined) return null;
+  const credentialId = asString(req.params?.credentialId);
+  return credentialId === undefined
+    ? `client:${id}`
+    : `client:${id}/credential:${credentialId}`;
+}
+
+// The credential is only known from the response
+export function newCredentialTarget(
+  req: Request,
+  result: unknown,
+): string | null {
+  const credentialId = resultId(result);
+  return credentialId === undefined
+    ? clientKeyTarget(req, undefined)
+    : `client:${asString(req.params?.id)}/credential:${credentialId}`;
+}
+
+/** The stored file once a resumable upload completes, otherwise `upload:<session id>`. */
+export function uploadSessionTarget(
+  req: Request,
+  result: unknown,
+): string | null {
+  const session = result as
+    | { id?: unknown; filePath?: unknown; file?: { path?: unknown } | null }
+    | undefined;
+  const filePath = asString(session?.filePath) ?? asString(session?.file?.path);
+  if (filePath) return filePath;
+  const id = asString(req.params?.id) ?? resultId(result);
+  return id === undefined ? null : `upload:${id}`;
+}
+
+/** `client:<id>/webhook:<id>`, or `client:<id>` for actions on all of its webhooks. */
+export function webhookTarget(req: Request, result: unknown): string | null {
+  const client = clientKeyTarget(req, undefined);
+  const webhookId =
+    asString(req.params?.webhookId) ??
+    asString(req.params?.deliveryId) ??
+    (req.method === 'POST' ? resultId(result) : undefined);
+  if (webhookId === undefined) return client;
+  const kind = req.params?.deliveryId ? 'delivery' : 'webhook';
+  return `${client}/${kind}:${webhookId}`;
+}
+
+/** `admin_token:<id>` */
+export function adminTokenTarget(req: Request, result: unknown): string | null {
+  const id = asString(req.params?.id) ?? resultId(result);
+  return id === undefined ? null : `admin_token:${id}`;
+}
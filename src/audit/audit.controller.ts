@@ -0,0 +1,61 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Query,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { AuditService } from './audit.service';
+import { AdminGuard } from '../admin/admin.guard';
+import { RequireAdminRole } from '../admin/admin-role.decorator';
+import {
+  AUDIT_CSV_COLUMNS,
+  parseAuditQuery,
+  toAuditCsvRow,
+} from '../common/utils/audit-query';
+import { contentDisposition } from '../common/utils/http';
+
+@Controller('admin/audit')
+@UseGuards(AdminGuard)
+@RequireAdminRole('read')
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  // Newest first, at most `limit` events
+  @Get()
+  async find(@Query() query: Record<string, unknown>) {
+    return this.auditService.query(parseAuditQuery(query));
+  }
+
+  // Every matching event, oldest first, streamed
+  @Get('export')
+  async export(@Query() query: Record<string, unknown>, @Res() res: Response) {
+    const { format = 'jsonl', ...filters } = query;
+    if (format !== 'jsonl' && format !== 'csv') {
+      throw new BadRequestException('format must be jsonl or csv');
+    }
+    // limit does not apply to exports
+    const events = this.auditService.events(parseAuditQuery(filters));
+    async function* lines() {
+      if (format === 'csv') yield AUDIT_CSV_COLUMNS.join(',') + '\r\n';
+      for await (const event of events) {
+        yield format === 'csv'
+          ? toAuditCsvRow(event)
+          : JSON.stringify(event) + '\n';
+      }
+    }
+    res.setHeader(
+      'Content-Type',
+      format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson',
+    );
+    res.setHeader(
+      'Content-Disposition',
+      contentDisposition('attachment', `audit.${format}`),
+    );
+    await pipeline(Readable.from(lines()), res);
+  }
+}
@@ -0,0 +1,32 @@
+import { SetMetadata } from '@nestjs/common';
+import type { Request } from 'express';
+
+export const AUDIT_ACTION_KEY = 'auditAction';
+
+/** Describes what an action applied to, from the request and the handler's result (if any). */
+export type AuditTargetResolver = (
+  req: Request,
+  result: unknown,
+) => string | null | undefined;
+
+export interface AuditOptions {
+  // The route's `:id` (or the result's id) is not a client id, e.g. for admin tokens
+  notClientScoped?: boolean;
+}
+
+export interface AuditMetadata extends AuditOptions {
+  action: string;
+  target?: AuditTargetResolver;
+}
+
+// Records every call of the handler with AuditGuard (see AuditService)
+export const Audit = (
+  action: string,
+  target?: AuditTargetResolver,
+  options: AuditOptions = {},
+) =>
+  SetMetadata(AUDIT_ACTION_KEY, {
+    action,
+    target,
+    ...options,
+  } satisfies AuditMetadata);
@@ -0,0 +1,166 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import type { NextFunction, Request, Response } from 'express';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { ClientCredential } from '../entities/ClientCredential';
+import { ClientKeyRecord } from '../entities/ClientKeyRecord';
+import { ScopeGuard } from '../keys/scope.guard';
+import { FileDeliveryService } from '../storage/file-delivery.service';
+import { ShareLinkController } from '../storage/share-link.controller';
+import { ShareLinkService } from '../storage/share-link.service';
+import { StorageService } from '../storage/storage.service';
+import { TrashController } from '../storage/trash.controller';
+import { TrashService } from '../storage/trash.service';
+import { UploadSessionController } from '../storage/upload-session.controller';
+import { UploadSessionService } from '../storage/upload-session.service';
+import { UsageService } from '../usage/usage.service';
+import { AuditGuard, AuditResultInterceptor } from './audit.guard';
+import { AuditService, NewAuditEvent } from './audit.service';
+
+const credential = {
+  id: 7,
+  name: 'backend',
+  scopes: ['read', 'write', 'delete', 'list'],
+} as ClientCredential;
+const client = {
+  id: 3,
+  namespace: 'ns',
+  name: 'tenant',
+  credentials: [credential],
+  isActive: true,
+} as ClientKeyRecord;
+
+describe('AuditGuard on storage routes', () => {
+  let app: INestApplication<App>;
+  const events: NewAuditEvent[] = [];
+
+  // Events are recorded once the response has finished
+  const recorded = async (count: number) => {
+    for (let attempt = 0; attempt < 50 && events.length < count; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    return events;
+  };
+
+  beforeEach(async () => {
+    events.length = 0;
+    const moduleRef = await Test.createTestingModule({
+      controllers: [
+        TrashController,
+        ShareLinkController,
+        UploadSessionController,
+      ],
+      providers: [
+        AuditGuard,
+        AuditResultInterceptor,
+        ScopeGuard,
+        {
+          provide: AuditService,
+          useValue: { record: (event: NewAuditEvent) => events.push(event) },
+        },
+        {
+          provide: TrashService,
+          useValue: {
+            purge: () =>
+              Promise.resolve({ id: 't1', record: { path: 'docs/a.pdf' } }),
+          },
+        },
+        {
+          provide: ShareLinkService,
+          useValue: {
+            resolve: () =>
+              Promise.resolve({
+                clientKey: 'ns',
+                client,
+                credential,
+                record: { path: 'docs/a.pdf' },
+                download: false,
+              }),
+          },
+        },
+        {
+          provide: FileDeliveryService,
+          useValue: {
+            send: (_req: Request, res: Response) => {
+              res.end('content');
+              return Promise.resolve();
+            },
+          },
+        },
+        { provide: UsageService, useValue: { admitPublic: () => undefined } },
+        {
+          provide: UploadSessionService,
+          useValue: {
+            append: () =>
+              Promise.resolve({
+                offset: 4,
+                session: { id: 'u1', filePath: 'videos/b.mp4' },
+              }),
+          },
+        },
+        { provide: StorageService, useValue: {} },
+      ],
+    }).compile();
+    app = moduleRef.createNestApplication();
+    // Stands in for ClientResolverMiddleware
+    app.use((req: Request, _res: Response, next: NextFunction) => {
+      if (req.get('x-client-key')) {
+        req.clientKey = client.namespace;
+        req.clientRecord = client;
+        req.clientCredential = credential;
+      }
+      next();
+    });
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('records purges from the trash with the purged path', async () => {
+    await request(app.getHttpServer())
+      .delete('/storage/trash/t1')
+      .set('x-client-key', 'key')
+      .expect(200);
+    const [event] = await recorded(1);
+    expect(event).toMatchObject({
+      action: 'trash.purge',
+      target: 'docs/a.pdf',
+      clientId: 3,
+      actor: { type: 'client', clientId: 3, credentialId: 7 },
+      result: 'success',
+    });
+  });
+
+  it('records shared downloads against the client that shared the file', async () => {
+    await request(app.getHttpServer()).get('/storage/shared/token').expect(200);
+    const [event] = await recorded(1);
+    expect(event).toMatchObject({
+      action: 'file.shared_download',
+      target: 'docs/a.pdf',
+      clientId: 3,
+      actor: { type: 'client', credentialId: 7 },
+      result: 'success',
+    });
+  });
+
+  it('records tus chunks, with the stored path once the upload completes', async () => {
+    await request(app.getHttpServer())
+      .patch('/storage/uploads/u1')
+      .set('x-client-key', 'key')
+      .set('tus-resumable', '1.0.0')
+      .set('upload-offset', '0')
+      .set('content-type', 'application/offset+octet-stream')
+      .send(Buffer.from('data'))
+      .expect(204);
+    const [event] = await recorded(1);
+    expect(event).toMatchObject({
+      action: 'file.upload_chunk',
+      target: 'videos/b.mp4',
+      clientId: 3,
+      statusCode: 204,
+    });
+  });
+});
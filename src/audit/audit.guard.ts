@@ -0,0 +1,116 @@
+import {
+  CallHandler,
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request, Response } from 'express';
+import { Observable, tap } from 'rxjs';
+import { AuditActor } from '../entities/AuditEvent';
+import { AUDIT_ACTION_KEY, AuditMetadata } from './audit.decorator';
+import { AuditService } from './audit.service';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    // What the handler returned, for AuditTargetResolver
+    auditResult?: unknown;
+  }
+}
+
+function actorOf(req: Request): AuditActor {
+  if (req.admin) {
+    return { type: 'admin', adminId: req.admin.id, name: req.admin.name };
+  }
+  if (req.clientRecord) {
+    return {
+      type: 'client',
+      clientId: req.clientRecord.id,
+      credentialId: req.clientCredential?.id ?? null,
+      name: req.clientCredential?.name ?? req.clientRecord.name,
+    };
+  }
+  return { type: 'anonymous' };
+}
+
+/**
+ * Records handlers marked with @Audit once their response is finished, so the
+ * log has the status actually sent, streamed downloads included. It must be the
+ * first guard of the controller, e.g. `@UseGuards(AuditGuard, ScopeGuard)`:
+ * requests the next guards deny (ScopeGuard, AdminGuard) are recorded as
+ * failures too.
+ */
+@Injectable()
+export class AuditGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly auditService: AuditService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const metadata = this.reflector.get<AuditMetadata | undefined>(
+      AUDIT_ACTION_KEY,
+      context.getHandler(),
+    );
+    if (!metadata) return true;
+    const req = context.switchToHttp().getRequest<Request>();
+    const res = context.switchToHttp().getResponse<Response>();
+    const startedAt = Date.now();
+    // Read now: the socket may be gone when the response completes
+    const ip = req.ip ?? null;
+    const userAgent = req.get('user-agent') ?? null;
+    let recorded = false;
+    const record = () => {
+      if (recorded) return;
+      recorded = true;
+      // The client may close the connection before 'finish' once it has the whole response
+      const statusCode = res.writableEnded ? res.statusCode : null;
+      let target: string | null = null;
+      try {
+        target = metadata.target?.(req, req.auditResult) ?? null;
+      } catch {
+        // A malformed request the handler rejected anyway
+      }
+      // Admin routes name the client in the path, or return it when creating one
+      const clientIdParam = metadata.notClientScoped
+        ? NaN
+        : Number(
+            req.params?.id ??
+              (req.auditResult as { id?: unknown } | undefined)?.id,
+          );
+      void this.auditService.record({
+        actor: actorOf(req),
+        clientId:
+          req.clientRecord?.id ??
+          (Number.isSafeInteger(clientIdParam) ? clientIdParam : null),
+        action: metadata.action,
+        target,
+        ip,
+        userAgent,
+        result: statusCode !== null && statusCode < 400 ? 'success' : 'failure',
+        statusCode,
+        durationMs: Date.now() - startedAt,
+      });
+    };
+    res.once('finish', record);
+    res.once('close', record);
+    return true;
+  }
+}
+
+/**
+ * Keeps the handler's result on the request for AuditGuard. Handlers that
+ * stream their response (@Res) set `req.auditResult` themselves.
+ */
+@Injectable()
+export class AuditResultInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const req = context.switchToHttp().getRequest<Request>();
+    return next.handle().pipe(
+      tap((result: unknown) => {
+        if (result !== undefined) req.auditResult = result;
+      }),
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { forwardRef, Module } from '@nestjs/common';
+import { AuditService } from './audit.service';
+import { AuditController } from './audit.controller';
+import { AuditGuard, AuditResultInterceptor } from './audit.guard';
+import { AdminModule } from '../admin/admin.module';
+
+@Module({
+  imports: [forwardRef(() => AdminModule)],
+  providers: [AuditService, AuditGuard, AuditResultInterceptor],
+  controllers: [AuditController],
+  exports: [AuditService, AuditGuard, AuditResultInterceptor],
+})
+export class AuditModule {}
@@ -0,0 +1,65 @@
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditService, NewAuditEvent } from './audit.service';
+
+function event(action: string, clientId: number | null): NewAuditEvent {
+  return {
+    actor: { type: 'admin', adminId: 'bootstrap', name: 'bootstrap' },
+    clientId,
+    action,
+    target: clientId === null ? null : `client:${clientId}`,
+    ip: '127.0.0.1',
+    userAgent: null,
+    result: 'success',
+    statusCode: 200,
+    durationMs: 1,
+  };
+}
+
+describe('AuditService', () => {
+  let root: string;
+  const createService = (retention?: string) =>
+    new AuditService(
+      new ConfigService({ METADATA_ROOT: root, AUDIT_RETENTION: retention }),
+    );
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'audit-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('appends events and queries them newest first', async () => {
+    const audit = createService();
+    await audit.record(event('key.create', 1));
+    await audit.record(event('key.revoke', 1));
+    await audit.record(event('key.revoke', 2));
+
+    const reloaded = createService();
+    const revoked = await reloaded.query({ actions: ['key.*'], limit: 2 });
+    expect(revoked.map((e) => [e.action, e.clientId])).toEqual([
+      ['key.revoke', 2],
+      ['key.revoke', 1],
+    ]);
+    const forClient = await reloaded.query({ clientId: 1, limit: 10 });
+    expect(forClient.map((e) => e.action)).toEqual([
+      'key.revoke',
+      'key.create',
+    ]);
+  });
+
+  it('drops whole days past the retention', async () => {
+    const audit = createService('86400');
+    await audit.record(event('key.list', null));
+    const dir = path.join(root, 'audit');
+    await fs.writeFile(path.join(dir, '2000-01-01.jsonl'), '');
+
+    expect(await audit.collectGarbage()).toBe(1);
+    expect(await fs.readdir(dir)).toHaveLength(1);
+    expect(await audit.query({ limit: 10 })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AuditEvent } from '../entities/AuditEvent';
+import { AuditQuery, matchesAuditQuery } from '../common/utils/audit-query';
+
+const GC_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LOG_FILE = /^(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+export type NewAuditEvent = Omit<AuditEvent, 'id' | 'timestamp'>;
+
+/**
+ * Append-only log of audited requests, one JSON-lines file per UTC day under
+ * `<METADATA_ROOT>/audit/`. Events are never rewritten; whole days older than
+ * AUDIT_RETENTION seconds are dropped when it is set.
+ */
+@Injectable()
+export class AuditService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AuditService.name);
+  private readonly auditDir: string;
+  private readonly retentionMs?: number;
+  private queue: Promise<unknown> = Promise.resolve();
+  private gcTimer?: NodeJS.Timeout;
+
+  constructor(private readonly configService: ConfigService) {
+    const metadataRoot =
+      this.configService.get<string>('METADATA_ROOT') || 'storage-meta';
+    this.auditDir = path.resolve(process.cwd(), metadataRoot, 'audit');
+    const retention = this.configService.get<string>('AUDIT_RETENTION');
+    if (retention) this.retentionMs = Number(retention) * 1000;
+  }
+
+  onModuleInit() {
+    if (this.retentionMs === undefined) return;
+    this.gcTimer = setInterval(() => {
+      this.collectGarbage().catch((err: Error) =>
+        this.logger.error(`Audit log cleanup failed: ${err.message}`),
+      );
+    }, GC_INTERVAL_MS);
+    this.gcTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.gcTimer) clearInterval(this.gcTimer);
+  }
+
+  private logFile(day: string): string {
+    return path.join(this.auditDir, `${day}.jsonl`);
+  }
+
+  /**
+   * Appends an event. Never throws: a request must not fail because it could
+   * not be audited, but the failure is logged.
+   */
+  async record(event: NewAuditEvent): Promise<AuditEvent> {
+    const entry: AuditEvent = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      ...event,
+    };
+    // Appends are serialised so lines never interleave within this process
+    const write = this.queue.then(async () => {
+      await fs.mkdir(this.auditDir, { recursive: true });
+      await fs.appendFile(
+        this.logFile(entry.timestamp.slice(0, 10)),
+        JSON.stringify(entry) + '\n',
+        'utf8',
+      );
+    });
+    this.queue = write.catch(() => undefined);
+    try {
+      await write;
+    } catch (err) {
+      this.logger.error(
+        `Could not write audit event ${entry.action}: ${(err as Error).message}`,
+      );
+    }
+    return entry;
+  }
+
+  // Days with a log file, oldest first
+  private async listDays(): Promise<string[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.auditDir);
+    } catch {
+      return [];
+    }
+    return entries
+      .map((entry) => LOG_FILE.exec(entry)?.[1])
+      .filter((day): day is string => !!day)
+      .sort();
+  }
+
+  /** Matching events in time order (oldest first by default), read one day at a time. */
+  async *events(
+    query: Omit<AuditQuery, 'limit'>,
+    order: 'asc' | 'desc' = 'asc',
+  ): AsyncGenerator<AuditEvent> {
+    const from = query.from?.toISOString().slice(0, 10);
+    const to = query.to?.toISOString().slice(0, 10);
+    const days = (await this.listDays()).filter(
+      (day) => (!from || day >= from) && (!to || day <= to),
+    );
+    if (order === 'desc') days.reverse();
+    for (const day of days) {
+      let raw: string;
+      try {
+        raw = await fs.readFile(this.logFile(day), 'utf8');
+      } catch {
+        // Dropped by the retention job meanwhile
+        continue;
+      }
+      const events: AuditEvent[] = [];
+      for (const line of raw.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          const event = JSON.parse(line) as AuditEvent;
+          if (matchesAuditQuery(event, query)) events.push(event);
+        } catch {
+          // Skip a torn line left by a crashed process
+        }
+      }
+      if (order === 'desc') events.reverse();
+      yield* events;
+    }
+  }
+
+  /** The most recent `limit` matching events, newest first. */
+  async query(query: AuditQuery): Promise<AuditEvent[]> {
+    const events: AuditEvent[] = [];
+    for await (const event of this.events(query, 'desc')) {
+      events.push(event);
+      if (events.length >= query.limit) break;
+    }
+    return events;
+  }
+
+  /** Drops the days entirely older than AUDIT_RETENTION. */
+  async collectGarbage(now = Date.now()): Promise<number> {
+    if (this.retentionMs === undefined) return 0;
+    // A day is kept until its last event expires
+    const cutoff = new Date(now - this.retentionMs - DAY_MS)
+      .toISOString()
+      .slice(0, 10);
+    let removed = 0;
+    for (const day of await this.listDays()) {
+      if (day >= cutoff) break;
+      await fs.rm(this.logFile(day), { force: true });
+      removed++;
+    }
+    if (removed) this.logger.log(`Removed ${removed} day(s) of audit log`);
+    return removed;
+  }
+}
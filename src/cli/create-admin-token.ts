@@ -0,0 +1,30 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../app.module';
+import { AdminTokenService } from '../admin/admin-token.service';
+import { AdminRole } from '../entities/AdminTokenRecord';
+
+// Usage: npm run admin:token -- <name> [read|full]
+// Issues an admin API token (full by default) and prints it once.
+async function run() {
+  const [name, role = 'full'] = process.argv.slice(2);
+  if (!name) {
+    console.error('Usage: npm run admin:token -- <name> [read|full]');
+    process.exit(1);
+  }
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error'],
+  });
+  try {
+    const issued = await app
+      .get(AdminTokenService)
+      .create({ name, role: role as AdminRole });
+    console.log(`${issued.name} (${issued.role}): ${issued.token}`);
+  } finally {
+    await app.close();
+  }
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
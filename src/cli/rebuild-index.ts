@@ -0,0 +1,31 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../app.module';
+import { StorageService } from '../storage/storage.service';
+
+// Usage: npm run index:rebuild [-- <clientKey> ...]
+// Re-scans storage and rewrites the metadata index of the given clients (all clients by default).
+async function run() {
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn'],
+  });
+  try {
+    const storageService = app.get(StorageService);
+    const requested = process.argv.slice(2);
+    const clientKeys = requested.length
+      ? requested
+      : await storageService.listClientKeys();
+    for (const clientKey of clientKeys) {
+      const result = await storageService.rebuildIndex(clientKey);
+      console.log(
+        `${result.clientKey}: ${result.indexed} indexed (${result.added} added, ${result.removed} removed, ${result.failed} unreadable)`,
+      );
+    }
+  } finally {
+    await app.close();
+  }
+}
+
+run().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
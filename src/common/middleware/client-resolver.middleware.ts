@@ -1,43 +1,80 @@
-import { Injectable, NestMiddleware, BadRequestException, UnauthorizedException } from '@nestjs/common';
+import {
+  Injectable,
+  NestMiddleware,
+  BadRequestException,
+  UnauthorizedException,
+  HttpException,
+  ForbiddenException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Request, Response, NextFunction } from 'express';
 import { ClientKeyService } from '../../keys/client-key.service';
+import { ClientKeyRecord } from '../../entities/ClientKeyRecord';
+import { ClientCredential } from '../../entities/ClientCredential';
 
 declare module 'express-serve-static-core' {
   interface Request {
+    // Namespace (directory) of the client's files
     clientKey?: string;
+    clientRecord?: ClientKeyRecord;
+    // The credential the request authenticated with; its scopes are checked by ScopeGuard
+    clientCredential?: ClientCredential;
   }
 }
 
 @Injectable()
 export class ClientResolverMiddleware implements NestMiddleware {
-  constructor(private readonly configService: ConfigService, private readonly clientKeyService: ClientKeyService) {}
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly clientKeyService: ClientKeyService,
+  ) {}
 
   async use(req: Request, res: Response, next: NextFunction) {
-    const headerKey = this.configService.get<string>('CLIENT_HEADER_KEY') || 'x-client-key';
-    const clientKey = (req.headers[headerKey] as string) || (req.query.client as string);
+    const headerKey =
+      this.configService.get<string>('CLIENT_HEADER_KEY') || 'x-client-key';
+    const clientKey =
+      (req.headers[headerKey] as string) || (req.query.client as string);
     const requestUrl = req.baseUrl;
-    if(requestUrl.includes('admin/client-keys') || requestUrl.includes(`${process.env.STORAGE_ROOT}/(.*)`)) {
+    if (
+      requestUrl.startsWith('/admin/') ||
+      requestUrl.includes(`${process.env.STORAGE_ROOT}/(.*)`)
+    ) {
       next();
       return;
     }
     if (!clientKey) {
-      throw new BadRequestException(`Missing client identifier. Provide header '${headerKey}' or query 'client'.`);
+      throw new BadRequestException(
+        `Missing client identifier. Provide header '${headerKey}' or query 'client'.`,
+      );
     }
     try {
-      const isValid = await this.clientKeyService.validateKey(clientKey.toString());
-      if (!isValid) {
-        throw new UnauthorizedException('Invalid or revoked client key');
+      const resolved = await this.clientKeyService.resolveKey(
+        clientKey.toString(),
+      );
+      if (!resolved) {
+        throw new UnauthorizedException(
+          'Invalid, expired or revoked client key',
+        );
       }
-      req.clientKey = clientKey.toString();
+      const { client, credential } = resolved;
+      if (credential.allowedOrigins) {
+        const origin = req.get('origin');
+        if (!origin || !credential.allowedOrigins.includes(origin)) {
+          throw new ForbiddenException(
+            'This client key may not be used from this origin',
+          );
+        }
+      }
+      // Files live under the client's namespace, not under the key itself
+      req.clientKey = client.namespace;
+      req.clientRecord = client;
+      req.clientCredential = credential;
       next();
     } catch (err) {
-      if (err instanceof UnauthorizedException) {
+      if (err instanceof HttpException) {
         throw err;
       }
       throw new UnauthorizedException('Client key validation failed');
     }
   }
 }
-
-
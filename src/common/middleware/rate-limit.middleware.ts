@@ -0,0 +1,16 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { UsageService } from '../../usage/usage.service';
+
+// Runs after ClientResolverMiddleware: limits and meters the resolved client
+@Injectable()
+export class RateLimitMiddleware implements NestMiddleware {
+  constructor(private readonly usageService: UsageService) {}
+
+  async use(req: Request, res: Response, next: NextFunction) {
+    if (req.clientRecord) {
+      await this.usageService.admit(req, res, req.clientRecord);
+    }
+    next();
+  }
+}
@@ -0,0 +1,54 @@
+import { AuditEvent } from '../../entities/AuditEvent';
+import {
+  matchesAuditQuery,
+  parseAuditQuery,
+  toAuditCsvRow,
+} from './audit-query';
+
+const event: AuditEvent = {
+  id: 'e1',
+  timestamp: '2024-05-01T10:00:00.000Z',
+  actor: { type: 'client', clientId: 3, credentialId: 1, name: 'ci' },
+  clientId: 3,
+  action: 'file.upload',
+  target: 'docs/a,b.txt',
+  ip: '127.0.0.1',
+  userAgent: '=cmd',
+  result: 'success',
+  statusCode: 201,
+  durationMs: 4,
+};
+
+describe('parseAuditQuery', () => {
+  it('parses filters and matches events', () => {
+    const query = parseAuditQuery({
+      clientId: '3',
+      action: 'key.revoke,file.*',
+      from: '2024-05-01',
+      to: '2024-05-02',
+    });
+    expect(query).toMatchObject({ clientId: 3, limit: 100 });
+    expect(matchesAuditQuery(event, query)).toBe(true);
+    expect(matchesAuditQuery({ ...event, action: 'filex' }, query)).toBe(false);
+    expect(
+      matchesAuditQuery(event, parseAuditQuery({ from: '2024-05-02' })),
+    ).toBe(false);
+  });
+
+  it('rejects invalid values', () => {
+    expect(() => parseAuditQuery({ clientId: 'x' })).toThrow('clientId');
+    expect(() => parseAuditQuery({ action: 'File Upload' })).toThrow('action');
+    expect(() => parseAuditQuery({ limit: '5000' })).toThrow('limit');
+    expect(() =>
+      parseAuditQuery({ from: '2024-02-01', to: '2024-01-01' }),
+    ).toThrow('from');
+  });
+});
+
+describe('toAuditCsvRow', () => {
+  it('quotes separators and neutralises formulas', () => {
+    expect(toAuditCsvRow(event)).toBe(
+      'e1,2024-05-01T10:00:00.000Z,file.upload,success,201,client,3,ci,1,3,"docs/a,b.txt",127.0.0.1,\'=cmd,4\r\n',
+    );
+  });
+});
@@ -0,0 +1,153 @@
+import { BadRequestException } from '@nestjs/common';
+import { AuditEvent } from '../../entities/AuditEvent';
+
+export const DEFAULT_AUDIT_LIMIT = 100;
+export const MAX_AUDIT_LIMIT = 1000;
+
+export interface AuditQuery {
+  clientId?: number;
+  // Exact actions, or prefixes such as "file.*"
+  actions?: string[];
+  result?: AuditEvent['result'];
+  // Inclusive time range
+  from?: Date;
+  to?: Date;
+  limit: number;
+}
+
+function parseDate(value: unknown, name: string): Date | undefined {
+  if (value === undefined || value === '') return undefined;
+  const date = typeof value === 'string' ? new Date(value) : undefined;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new BadRequestException(`${name} must be an ISO 8601 date`);
+  }
+  return date;
+}
+
+/** Parses the query string of GET /admin/audit. */
+export function parseAuditQuery(query: Record<string, unknown>): AuditQuery {
+  const parsed: AuditQuery = { limit: DEFAULT_AUDIT_LIMIT };
+  if (query.clientId !== undefined && query.clientId !== '') {
+    const clientId = Number(query.clientId);
+    if (!Number.isSafeInteger(clientId) || clientId < 1) {
+      throw new BadRequestException('clientId must be a positive integer');
+    }
+    parsed.clientId = clientId;
+  }
+  if (query.action !== undefined && query.action !== '') {
+    // Repeated (?action=a&action=b) or comma-separated
+    const values = Array.isArray(query.action) ? query.action : [query.action];
+    const actions = values
+      .flatMap((value) => (typeof value === 'string' ? value.split(',') : []))
+      .map((value) => value.trim())
+      .filter(Boolean);
+    if (
+      !actions.length ||
+      actions.some((action) => !/^[a-z_]+(\.[a-z_]+)*(\.\*)?$/.test(action))
+    ) {
+      throw new BadRequestException(
+        'action must list actions such as file.upload or file.*',
+      );
+    }
+    parsed.actions = actions;
+  }
+  if (query.result !== undefined && query.result !== '') {
+    if (query.result !== 'success' && query.result !== 'failure') {
+      throw new BadRequestException('result must be success or failure');
+    }
+    parsed.result = query.result;
+  }
+  parsed.from = parseDate(query.from, 'from');
+  parsed.to = parseDate(query.to, 'to');
+  if (parsed.from && parsed.to && parsed.from > parsed.to) {
+    throw new BadRequestException('from must not be after to');
+  }
+  if (query.limit !== undefined && query.limit !== '') {
+    const limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_LIMIT) {
+      throw new BadRequestException(
+        `limit must be an integer between 1 and ${MAX_AUDIT_LIMIT}`,
+      );
+    }
+    parsed.limit = limit;
+  }
+  return parsed;
+}
+
+export function matchesAuditQuery(
+  event: AuditEvent,
+  query: Omit<AuditQuery, 'limit'>,
+): boolean {
+  if (query.clientId !== undefined && event.clientId !== query.clientId) {
+    return false;
+  }
+  if (
+    query.actions &&
+    !query.actions.some((action) =>
+      action.endsWith('.*')
+        ? event.action.startsWith(action.slice(0, -1))
+        : event.action === action,
+    )
+  ) {
+    return false;
+  }
+  if (query.result && event.result !== query.result) return false;
+  const time = new Date(event.timestamp).getTime();
+  if (query.from && time < query.from.getTime()) return false;
+  if (query.to && time > query.to.getTime()) return false;
+  return true;
+}
+
+export const AUDIT_CSV_COLUMNS = [
+  'id',
+  'timestamp',
+  'action',
+  'result',
+  'statusCode',
+  'actorType',
+  'actorId',
+  'actorName',
+  'credentialId',
+  'clientId',
+  'target',
+  'ip',
+  'userAgent',
+  'durationMs',
+];
+
+function csvField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  // Keep spreadsheet applications from evaluating user-controlled values
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One CSV line (with its line break) in the order of AUDIT_CSV_COLUMNS. */
+export function toAuditCsvRow(event: AuditEvent): string {
+  const { actor } = event;
+  return (
+    [
+      event.id,
+      event.timestamp,
+      event.action,
+      event.result,
+      event.statusCode,
+      actor.type,
+      actor.type === 'client'
+        ? actor.clientId
+        : actor.type === 'admin'
+          ? actor.adminId
+          : null,
+      actor.type === 'anonymous' ? null : actor.name,
+      actor.type === 'client' ? actor.credentialId : null,
+      event.clientId,
+      event.target,
+      event.ip,
+      event.userAgent,
+      event.durationMs,
+    ]
+      .map(csvField)
+      .join(',') + '\r\n'
+  );
+}
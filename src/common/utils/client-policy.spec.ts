@@ -0,0 +1,119 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { enforceClientPolicy, validateClientPolicy } from './client-policy';
+
+const upload = {
+  originalName: 'photo.PNG',
+  mimeType: 'image/png',
+  detectedMimeType: 'image/png',
+  size: 100,
+  createById: 'user-1',
+};
+const empty = { totalBytes: 0, fileCount: 0 };
+
+describe('validateClientPolicy', () => {
+  it('normalizes lists and fills unset limits with null', () => {
+    expect(
+      validateClientPolicy({
+        maxFileSize: 1024,
+        allowedMimeTypes: ['Image/*', 'application/pdf'],
+        allowedExtensions: ['.PNG', 'png', 'pdf'],
+      }),
+    ).toEqual({
+      maxTotalBytes: null,
+      maxFileSize: 1024,
+      maxFileCount: null,
+      allowedMimeTypes: ['image/*', 'application/pdf'],
+      allowedExtensions: ['png', 'pdf'],
+      createByIdPattern: null,
+      infectedFiles: null,
+      maxVersions: null,
+      maxVersionAge: null,
+      maxRequestsPerMinute: null,
+      maxUploadBytesPerDay: null,
+      maxDownloadBytesPerDay: null,
+      stripGps: null,
+    });
+    expect(validateClientPolicy(null)).toBeNull();
+  });
+
+  it('rejects invalid values and unknown fields', () => {
+    for (const policy of [
+      { maxFileSize: -1 },
+      { maxTotalBytes: '10' },
+      { allowedMimeTypes: 'image/png' },
+      { allowedMimeTypes: ['png'] },
+      { createByIdPattern: '(' },
+      { infectedFiles: 'allow' },
+      { stripGps: 'yes' },
+      { maxVersions: 1.5 },
+      { maxRequestsPerMinute: -5 },
+      { maxSize: 10 },
+      [],
+    ]) {
+      expect(() => validateClientPolicy(policy)).toThrow(BadRequestException);
+    }
+  });
+});
+
+describe('enforceClientPolicy', () => {
+  it('allows anything without a policy', () => {
+    expect(() => enforceClientPolicy(null, upload, empty)).not.toThrow();
+  });
+
+  it('rejects disallowed types and extensions with 415', () => {
+    expect(() =>
+      enforceClientPolicy({ allowedExtensions: ['jpg'] }, upload, empty),
+    ).toThrow(UnsupportedMediaTypeException);
+    expect(() =>
+      enforceClientPolicy({ allowedMimeTypes: ['image/*'] }, upload, empty),
+    ).not.toThrow();
+    // The sniffed type counts too, not only the declared one
+    expect(() =>
+      enforceClientPolicy(
+        { allowedMimeTypes: ['image/*'] },
+        { ...upload, detectedMimeType: 'application/x-msdownload' },
+        empty,
+      ),
+    ).toThrow(UnsupportedMediaTypeException);
+  });
+
+  it('rejects size, count and quota overruns with 413', () => {
+    expect(() =>
+      enforceClientPolicy({ maxFileSize: 99 }, upload, empty),
+    ).toThrow(PayloadTooLargeException);
+    expect(() =>
+      enforceClientPolicy({ maxFileCount: 2 }, upload, {
+        totalBytes: 0,
+        fileCount: 2,
+      }),
+    ).toThrow(PayloadTooLargeException);
+    expect(() =>
+      enforceClientPolicy({ maxTotalBytes: 1000 }, upload, {
+        totalBytes: 900,
+        fileCount: 1,
+      }),
+    ).not.toThrow();
+    expect(() =>
+      enforceClientPolicy({ maxTotalBytes: 1000 }, upload, {
+        totalBytes: 901,
+        fileCount: 1,
+      }),
+    ).toThrow(PayloadTooLargeException);
+  });
+
+  it('matches the whole createById against the pattern', () => {
+    const policy = { createByIdPattern: 'user-\\d+' };
+    expect(() => enforceClientPolicy(policy, upload, empty)).not.toThrow();
+    expect(() =>
+      enforceClientPolicy(policy, { ...upload, createById: 'user-1x' }, empty),
+    ).toThrow(ForbiddenException);
+    expect(() =>
+      enforceClientPolicy(policy, { ...upload, createById: undefined }, empty),
+    ).toThrow(ForbiddenException);
+  });
+});
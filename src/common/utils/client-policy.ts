@@ -0,0 +1,234 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import * as path from 'path';
+import { ClientPolicy } from '../../entities/ClientPolicy';
+
+export interface UploadCandidate {
+  originalName: string;
+  mimeType: string;
+  // Type sniffed from the content, when known
+  detectedMimeType?: string | null;
+  size: number;
+  createById?: string;
+}
+
+export interface ClientUsage {
+  totalBytes: number;
+  fileCount: number;
+}
+
+export const MIME_PATTERN =
+  /^[a-z0-9][a-z0-9!#$&^_.+-]*\/(\*|[a-z0-9][a-z0-9!#$&^_.+-]*)$/;
+const EXTENSION_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+function validateLimit(value: unknown, name: string): number | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'number' || !Number.isSafeInteger(value) || value < 0) {
+    throw new BadRequestException(
+      `policy.${name} must be a non-negative integer or null`,
+    );
+  }
+  return value;
+}
+
+function validateList(
+  value: unknown,
+  name: string,
+  normalize: (item: string) => string,
+  pattern: RegExp,
+): string[] | null {
+  if (value === undefined || value === null) return null;
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new BadRequestException(`policy.${name} must be an array of strings`);
+  }
+  const items = (value as string[]).map(normalize);
+  const invalid = items.find((item) => !pattern.test(item));
+  if (invalid !== undefined) {
+    throw new BadRequestException(`policy.${name} contains "${invalid}"`);
+  }
+  return [...new Set(items)];
+}
+
+/** Validates a policy from the admin API and returns it without unknown fields. */
+export function validateClientPolicy(input: unknown): ClientPolicy | null {
+  if (input === null) return null;
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new BadRequestException('policy must be an object or null');
+  }
+  const policy = input as Record<string, unknown>;
+  const known = [
+    'maxTotalBytes',
+    'maxFileSize',
+    'maxFileCount',
+    'allowedMimeTypes',
+    'allowedExtensions',
+    'createByIdPattern',
+    'infectedFiles',
+    'maxVersions',
+    'maxVersionAge',
+    'maxRequestsPerMinute',
+    'maxUploadBytesPerDay',
+    'maxDownloadBytesPerDay',
+    'stripGps',
+  ];
+  const unknown = Object.keys(policy).filter((key) => !known.includes(key));
+  if (unknown.length) {
+    throw new BadRequestException(
+      `Unknown policy fields: ${unknown.join(', ')}`,
+    );
+  }
+
+  let createByIdPattern: string | null = null;
+  if (
+    policy.createByIdPattern !== undefined &&
+    policy.createByIdPattern !== null
+  ) {
+    if (typeof policy.createByIdPattern !== 'string') {
+      throw new BadRequestException(
+        'policy.createByIdPattern must be a string',
+      );
+    }
+    try {
+      new RegExp(policy.createByIdPattern);
+    } catch {
+      throw new BadRequestException(
+        'policy.createByIdPattern is not a valid regular expression',
+      );
+    }
+    createByIdPattern = policy.createByIdPattern;
+  }
+
+  if (
+    policy.infectedFiles !== undefined &&
+    policy.infectedFiles !== null &&
+    policy.infectedFiles !== 'reject' &&
+    policy.infectedFiles !== 'quarantine'
+  ) {
+    throw new BadRequestException(
+      'policy.infectedFiles must be "reject", "quarantine" or null',
+    );
+  }
+
+  if (
+    policy.stripGps !== undefined &&
+    policy.stripGps !== null &&
+    typeof policy.stripGps !== 'boolean'
+  ) {
+    throw new BadRequestException('policy.stripGps must be a boolean or null');
+  }
+
+  return {
+    maxTotalBytes: validateLimit(policy.maxTotalBytes, 'maxTotalBytes'),
+    maxFileSize: validateLimit(policy.maxFileSize, 'maxFileSize'),
+    maxFileCount: validateLimit(policy.maxFileCount, 'maxFileCount'),
+    allowedMimeTypes: validateList(
+      policy.allowedMimeTypes,
+      'allowedMimeTypes',
+      (item) => item.trim().toLowerCase(),
+      MIME_PATTERN,
+    ),
+    allowedExtensions: validateList(
+      policy.allowedExtensions,
+      'allowedExtensions',
+      (item) => item.trim().toLowerCase().replace(/^\./, ''),
+      EXTENSION_PATTERN,
+    ),
+    createByIdPattern,
+    infectedFiles: policy.infectedFiles ?? null,
+    maxVersions: validateLimit(policy.maxVersions, 'maxVersions'),
+    maxVersionAge: validateLimit(policy.maxVersionAge, 'maxVersionAge'),
+    maxRequestsPerMinute: validateLimit(
+      policy.maxRequestsPerMinute,
+      'maxRequestsPerMinute',
+    ),
+    maxUploadBytesPerDay: validateLimit(
+      policy.maxUploadBytesPerDay,
+      'maxUploadBytesPerDay',
+    ),
+    maxDownloadBytesPerDay: validateLimit(
+      policy.maxDownloadBytesPerDay,
+      'maxDownloadBytesPerDay',
+    ),
+    stripGps: policy.stripGps ?? null,
+  };
+}
+
+/** Whether a content type matches one of `allowed` (`image/png`, `image/*`). */
+export function mimeTypeAllowed(mimeType: string, allowed: string[]): boolean {
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  return allowed.some((pattern) =>
+    pattern.endsWith('/*')
+      ? type.startsWith(pattern.slice(0, -1))
+      : type === pattern,
+  );
+}
+
+/**
+ * Throws when an upload breaks the policy: 413 for size, count and quota
+ * limits, 415 for types and extensions, 403 for a disallowed createById.
+ */
+export function enforceClientPolicy(
+  policy: ClientPolicy | null | undefined,
+  upload: UploadCandidate,
+  usage: ClientUsage,
+): void {
+  if (!policy) return;
+
+  if (policy.createByIdPattern) {
+    const pattern = new RegExp(`^(?:${policy.createByIdPattern})$`);
+    if (!upload.createById || !pattern.test(upload.createById)) {
+      throw new ForbiddenException(
+        'createById is missing or not allowed for this client',
+      );
+    }
+  }
+
+  if (policy.allowedExtensions) {
+    const extension = path.extname(upload.originalName).slice(1).toLowerCase();
+    if (!policy.allowedExtensions.includes(extension)) {
+      throw new UnsupportedMediaTypeException(
+        `File extension "${extension}" is not allowed; allowed: ${policy.allowedExtensions.join(', ')}`,
+      );
+    }
+  }
+
+  if (policy.allowedMimeTypes) {
+    const types = [upload.mimeType, upload.detectedMimeType].filter(
+      (type): type is string => !!type,
+    );
+    const rejected = types.find(
+      (type) => !mimeTypeAllowed(type, policy.allowedMimeTypes!),
+    );
+    if (rejected) {
+      throw new UnsupportedMediaTypeException(
+        `Content type "${rejected}" is not allowed; allowed: ${policy.allowedMimeTypes.join(', ')}`,
+      );
+    }
+  }
+
+  if (policy.maxFileSize != null && upload.size > policy.maxFileSize) {
+    throw new PayloadTooLargeException(
+      `File exceeds the maximum size of ${policy.maxFileSize} bytes`,
+    );
+  }
+  if (
+    policy.maxFileCount != null &&
+    usage.fileCount + 1 > policy.maxFileCount
+  ) {
+    throw new PayloadTooLargeException(
+      `File count quota of ${policy.maxFileCount} files reached`,
+    );
+  }
+  if (
+    policy.maxTotalBytes != null &&
+    usage.totalBytes + upload.size > policy.maxTotalBytes
+  ) {
+    throw new PayloadTooLargeException(
+      `Storage quota exceeded: ${usage.totalBytes} of ${policy.maxTotalBytes} bytes used`,
+    );
+  }
+}
@@ -0,0 +1,123 @@
+import { randomBytes } from 'crypto';
+import { Readable } from 'stream';
+import {
+  CHUNK_BYTES,
+  HEADER_BYTES,
+  createDecryptStream,
+  createEncryptStream,
+  encryptBuffer,
+  encryptedSize,
+  parseHeader,
+  parseMasterKey,
+  plaintextSize,
+  sealedRange,
+  unwrapDataKey,
+  wrapDataKey,
+} from './content-encryption';
+
+const key = randomBytes(32);
+const keyId = randomBytes(16).toString('hex');
+
+async function collect(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+function decrypt(
+  encrypted: Buffer,
+  size: number,
+  range?: { start: number; end: number },
+): Promise<Buffer> {
+  const sealed = sealedRange(size, range);
+  const body = encrypted.subarray(sealed.start, sealed.end + 1);
+  return collect(
+    Readable.from([body]).pipe(
+      createDecryptStream(key, parseHeader(encrypted)!, size, sealed),
+    ),
+  );
+}
+
+describe('content encryption', () => {
+  const plaintext = randomBytes(CHUNK_BYTES * 2 + 100);
+
+  it('produces the same layout streaming and from a buffer', async () => {
+    const streamed = await collect(
+      Readable.from([
+        plaintext.subarray(0, 1000),
+        plaintext.subarray(1000),
+      ]).pipe(createEncryptStream(key, keyId)),
+    );
+    const buffered = encryptBuffer(key, keyId, plaintext);
+    expect(streamed.length).toBe(encryptedSize(plaintext.length));
+    expect(buffered.length).toBe(streamed.length);
+    expect(parseHeader(streamed)?.keyId).toBe(keyId);
+    expect(plaintextSize(streamed.length)).toBe(plaintext.length);
+    expect(await decrypt(streamed, plaintext.length)).toEqual(plaintext);
+  });
+
+  it('handles empty and chunk-aligned contents', async () => {
+    for (const size of [0, 1, CHUNK_BYTES, CHUNK_BYTES + 1]) {
+      const content = randomBytes(size);
+      const encrypted = await collect(
+        Readable.from([content]).pipe(createEncryptStream(key, keyId)),
+      );
+      expect(encrypted.length).toBe(encryptedSize(size));
+      expect(plaintextSize(encrypted.length)).toBe(size);
+      expect(await decrypt(encrypted, size)).toEqual(content);
+    }
+  });
+
+  it('decrypts ranges from the chunks covering them only', async () => {
+    const encrypted = encryptBuffer(key, keyId, plaintext);
+    for (const range of [
+      { start: 0, end: 9 },
+      { start: CHUNK_BYTES - 5, end: CHUNK_BYTES + 5 },
+      { start: CHUNK_BYTES * 2 + 50, end: CHUNK_BYTES * 2 + 99 },
+    ]) {
+      expect(await decrypt(encrypted, plaintext.length, range)).toEqual(
+        plaintext.subarray(range.start, range.end + 1),
+      );
+    }
+  });
+
+  it('rejects tampered and truncated content', async () => {
+    const encrypted = encryptBuffer(key, keyId, plaintext);
+    const tampered = Buffer.from(encrypted);
+    tampered[HEADER_BYTES + 10] ^= 1;
+    await expect(decrypt(tampered, plaintext.length)).rejects.toThrow(
+      'failed authentication',
+    );
+    // Dropping the last chunk cannot pass for a shorter file
+    const truncated = encrypted.subarray(
+      0,
+      encryptedSize(CHUNK_BYTES * 2) - 16,
+    );
+    await expect(decrypt(truncated, plaintext.length)).rejects.toThrow();
+    await expect(
+      decrypt(encrypted.subarray(0, encryptedSize(CHUNK_BYTES)), CHUNK_BYTES),
+    ).rejects.toThrow('failed authentication');
+  });
+
+  it('ignores content without a header', () => {
+    expect(
+      parseHeader(Buffer.from('plain text that is long enough')),
+    ).toBeNull();
+    expect(plaintextSize(HEADER_BYTES)).toBeNull();
+  });
+
+  it('wraps data keys for one context only', () => {
+    const master = randomBytes(32);
+    const wrapped = wrapDataKey(master, key, 'client:1');
+    expect(unwrapDataKey(master, wrapped, 'client:1')).toEqual(key);
+    expect(() => unwrapDataKey(master, wrapped, 'client:2')).toThrow();
+    expect(() => unwrapDataKey(randomBytes(32), wrapped, 'client:1')).toThrow();
+  });
+
+  it('accepts 256-bit master keys in hex or base64', () => {
+    const master = randomBytes(32);
+    expect(parseMasterKey(master.toString('hex'))).toEqual(master);
+    expect(parseMasterKey(master.toString('base64'))).toEqual(master);
+    expect(parseMasterKey('too-short')).toBeNull();
+  });
+});
@@ -0,0 +1,317 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  type CipherGCMTypes,
+} from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+
+/*
+ * Encrypted objects: a header (magic, data key id, random nonce prefix) then
+ * the plaintext in 64 KiB chunks, each sealed with AES-256-GCM and followed by
+ * its tag. A chunk's IV is the nonce prefix plus its index and its AAD flags
+ * the last chunk, so chunks cannot be reordered, dropped or truncated. Fixed
+ * chunk sizes map any plaintext range to whole chunks for range reads.
+ */
+const ALGORITHM: CipherGCMTypes = 'aes-256-gcm';
+const MAGIC = Buffer.from('SCE1');
+export const DATA_KEY_ID_BYTES = 16;
+const NONCE_PREFIX_BYTES = 8;
+const TAG_BYTES = 16;
+export const HEADER_BYTES =
+  MAGIC.length + DATA_KEY_ID_BYTES + NONCE_PREFIX_BYTES;
+export const CHUNK_BYTES = 64 * 1024;
+const SEALED_CHUNK_BYTES = CHUNK_BYTES + TAG_BYTES;
+
+export interface EncryptionHeader {
+  // Hex id of the data key the object is encrypted with
+  keyId: string;
+  noncePrefix: Buffer;
+}
+
+// Inclusive plaintext byte offsets
+export interface PlaintextRange {
+  start: number;
+  end: number;
+}
+
+export interface SealedRange {
+  // Inclusive ciphertext offsets covering the chunks of the plaintext range
+  start: number;
+  end: number;
+  firstChunk: number;
+  lastChunk: number;
+  // Plaintext bytes to drop from the first chunk
+  skip: number;
+  length: number;
+}
+
+function chunkCount(plaintextSize: number): number {
+  // An empty plaintext still has one (empty) final chunk
+  return Math.max(1, Math.ceil(plaintextSize / CHUNK_BYTES));
+}
+
+export function encryptedSize(plaintextSize: number): number {
+  return HEADER_BYTES + plaintextSize + chunkCount(plaintextSize) * TAG_BYTES;
+}
+
+/** Plaintext size of a well-formed encrypted object; null when the size is impossible. */
+export function plaintextSize(encrypted: number): number | null {
+  const body = encrypted - HEADER_BYTES;
+  if (body < TAG_BYTES) return null;
+  const chunks = Math.ceil(body / SEALED_CHUNK_BYTES);
+  const size = body - chunks * TAG_BYTES;
+  return size >= 0 && encryptedSize(size) === encrypted ? size : null;
+}
+
+export function createHeader(keyId: string): Buffer {
+  return Buffer.concat([
+    MAGIC,
+    Buffer.from(keyId, 'hex'),
+    randomBytes(NONCE_PREFIX_BYTES),
+  ]);
+}
+
+/** Reads a header; null when the bytes do not start an encrypted object. */
+export function parseHeader(bytes: Buffer): EncryptionHeader | null {
+  if (
+    bytes.length < HEADER_BYTES ||
+    !bytes.subarray(0, MAGIC.length).equals(MAGIC)
+  ) {
+    return null;
+  }
+  const keyStart = MAGIC.length;
+  const nonceStart = keyStart + DATA_KEY_ID_BYTES;
+  return {
+    keyId: bytes.subarray(keyStart, nonceStart).toString('hex'),
+    noncePrefix: Buffer.from(bytes.subarray(nonceStart, HEADER_BYTES)),
+  };
+}
+
+/** Maps a plaintext range of an object holding `size` plaintext bytes to the chunks to read. */
+export function sealedRange(size: number, range?: PlaintextRange): SealedRange {
+  const start = range?.start ?? 0;
+  const end = range?.end ?? size - 1;
+  const firstChunk = Math.floor(start / CHUNK_BYTES);
+  const lastChunk = Math.max(
+    firstChunk,
+    Math.floor(Math.max(end, 0) / CHUNK_BYTES),
+  );
+  return {
+    start: HEADER_BYTES + firstChunk * SEALED_CHUNK_BYTES,
+    end: HEADER_BYTES + (lastChunk + 1) * SEALED_CHUNK_BYTES - 1,
+    firstChunk,
+    lastChunk,
+    skip: start - firstChunk * CHUNK_BYTES,
+    length: Math.max(0, end - start + 1),
+  };
+}
+
+function chunkIv(noncePrefix: Buffer, index: number): Buffer {
+  const iv = Buffer.alloc(12);
+  noncePrefix.copy(iv);
+  iv.writeUInt32BE(index, NONCE_PREFIX_BYTES);
+  return iv;
+}
+
+function chunkAad(final: boolean): Buffer {
+  return Buffer.from([final ? 1 : 0]);
+}
+
+function sealChunk(
+  key: Buffer,
+  noncePrefix: Buffer,
+  index: number,
+  plaintext: Buffer,
+  final: boolean,
+): Buffer {
+  const cipher = createCipheriv(ALGORITHM, key, chunkIv(noncePrefix, index));
+  cipher.setAAD(chunkAad(final));
+  return Buffer.concat([
+    cipher.update(plaintext),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+}
+
+function openChunk(
+  key: Buffer,
+  noncePrefix: Buffer,
+  index: number,
+  sealed: Buffer,
+  final: boolean,
+): Buffer {
+  if (sealed.length < TAG_BYTES)
+    throw new Error('Encrypted content is truncated');
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    key,
+    chunkIv(noncePrefix, index),
+  );
+  decipher.setAAD(chunkAad(final));
+  decipher.setAuthTag(sealed.subarray(sealed.length - TAG_BYTES));
+  try {
+    return Buffer.concat([
+      decipher.update(sealed.subarray(0, sealed.length - TAG_BYTES)),
+      decipher.final(),
+    ]);
+  } catch {
+    throw new Error('Encrypted content failed authentication');
+  }
+}
+
+/** Encrypts a plaintext stream into a complete object, header included. */
+export function createEncryptStream(key: Buffer, keyId: string): Transform {
+  const header = createHeader(keyId);
+  const { noncePrefix } = parseHeader(header)!;
+  let pending: Buffer = Buffer.alloc(0);
+  let index = 0;
+  let started = false;
+  const start = (stream: Transform) => {
+    if (!started) stream.push(header);
+    started = true;
+  };
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback: TransformCallback) {
+      start(this);
+      pending = pending.length ? Buffer.concat([pending, chunk]) : chunk;
+      // Keep at least one byte back: only flush knows which chunk is the last one
+      while (pending.length > CHUNK_BYTES) {
+        this.push(
+          sealChunk(
+            key,
+            noncePrefix,
+            index++,
+            pending.subarray(0, CHUNK_BYTES),
+            false,
+          ),
+        );
+        pending = pending.subarray(CHUNK_BYTES);
+      }
+      callback();
+    },
+    flush(callback: TransformCallback) {
+      start(this);
+      this.push(sealChunk(key, noncePrefix, index, pending, true));
+      callback();
+    },
+  });
+}
+
+export function encryptBuffer(
+  key: Buffer,
+  keyId: string,
+  plaintext: Buffer,
+): Buffer {
+  const header = createHeader(keyId);
+  const { noncePrefix } = parseHeader(header)!;
+  const count = chunkCount(plaintext.length);
+  const parts = [header];
+  for (let index = 0; index < count; index++) {
+    const chunk = plaintext.subarray(
+      index * CHUNK_BYTES,
+      (index + 1) * CHUNK_BYTES,
+    );
+    parts.push(sealChunk(key, noncePrefix, index, chunk, index === count - 1));
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Decrypts the ciphertext of `range` (as given by sealedRange, without the
+ * header) of an object holding `size` plaintext bytes, emitting only the
+ * requested plaintext.
+ */
+export function createDecryptStream(
+  key: Buffer,
+  header: EncryptionHeader,
+  size: number,
+  range: SealedRange,
+): Transform {
+  const lastIndex = chunkCount(size) - 1;
+  let pending: Buffer = Buffer.alloc(0);
+  let index = range.firstChunk;
+  let skip = range.skip;
+  let remaining = range.length;
+  const emit = (stream: Transform, sealed: Buffer) => {
+    if (index > range.lastChunk) return;
+    let plaintext = openChunk(
+      key,
+      header.noncePrefix,
+      index,
+      sealed,
+      index === lastIndex,
+    );
+    index++;
+    if (skip) {
+      plaintext = plaintext.subarray(skip);
+      skip = 0;
+    }
+    plaintext = plaintext.subarray(0, remaining);
+    remaining -= plaintext.length;
+    if (plaintext.length) stream.push(plaintext);
+  };
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback: TransformCallback) {
+      pending = pending.length ? Buffer.concat([pending, chunk]) : chunk;
+      try {
+        while (pending.length >= SEALED_CHUNK_BYTES) {
+          emit(this, pending.subarray(0, SEALED_CHUNK_BYTES));
+          pending = pending.subarray(SEALED_CHUNK_BYTES);
+        }
+        callback();
+      } catch (err) {
+        callback(err as Error);
+      }
+    },
+    flush(callback: TransformCallback) {
+      try {
+        if (pending.length) emit(this, pending);
+        if (remaining > 0) throw new Error('Encrypted content is truncated');
+        callback();
+      } catch (err) {
+        callback(err as Error);
+      }
+    },
+  });
+}
+
+/** Seals a data key under the master key; `context` binds it to its owner. */
+export function wrapDataKey(
+  masterKey: Buffer,
+  dataKey: Buffer,
+  context: string,
+): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, masterKey, iv);
+  cipher.setAAD(Buffer.from(context));
+  const sealed = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), sealed]).toString('base64');
+}
+
+export function unwrapDataKey(
+  masterKey: Buffer,
+  wrapped: string,
+  context: string,
+): Buffer {
+  const bytes = Buffer.from(wrapped, 'base64');
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    masterKey,
+    bytes.subarray(0, 12),
+  );
+  decipher.setAAD(Buffer.from(context));
+  decipher.setAuthTag(bytes.subarray(12, 12 + TAG_BYTES));
+  return Buffer.concat([
+    decipher.update(bytes.subarray(12 + TAG_BYTES)),
+    decipher.final(),
+  ]);
+}
+
+/** A 256-bit key given as 64 hex characters or base64; null when malformed. */
+export function parseMasterKey(value: string): Buffer | null {
+  const key = /^[0-9a-fA-F]{64}$/.test(value)
+    ? Buffer.from(value, 'hex')
+    : Buffer.from(value, 'base64');
+  return key.length === 32 ? key : null;
+}
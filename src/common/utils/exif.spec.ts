@@ -0,0 +1,63 @@
+import sharp from 'sharp';
+import { parseExif } from './exif';
+
+async function exifOf(image: sharp.Sharp): Promise<Buffer> {
+  const { exif } = await sharp(await image.toBuffer()).metadata();
+  return exif!;
+}
+
+describe('parseExif', () => {
+  const blank = () =>
+    sharp({
+      create: { width: 4, height: 2, channels: 3, background: '#000' },
+    }).jpeg();
+
+  it('reads the camera, capture time and GPS position', async () => {
+    const exif = await exifOf(
+      blank()
+        .withExif({
+          IFD0: {
+            Make: 'Canon',
+            Model: 'EOS R6',
+            DateTime: '2024:05:02 08:00:00',
+          },
+          IFD2: {
+            DateTimeOriginal: '2024:05:01 13:45:09',
+            LensModel: 'RF24-105mm',
+          },
+          IFD3: {
+            GPSLatitudeRef: 'S',
+            GPSLatitude: '33/1 51/1 3540/100',
+            GPSLongitudeRef: 'E',
+            GPSLongitude: '151/1 12/1 4020/100',
+            GPSAltitude: '58/1',
+          },
+        })
+        .withMetadata({ orientation: 6 }),
+    );
+    expect(parseExif(exif)).toEqual({
+      make: 'Canon',
+      model: 'EOS R6',
+      lens: 'RF24-105mm',
+      software: null,
+      orientation: 6,
+      takenAt: '2024-05-01T13:45:09',
+      gps: { latitude: -33.8598333, longitude: 151.2111667, altitude: 58 },
+    });
+  });
+
+  it('leaves out what the image does not have', async () => {
+    const exif = await exifOf(blank().withExif({ IFD0: { Make: 'Nikon' } }));
+    expect(parseExif(exif)).toMatchObject({
+      make: 'Nikon',
+      model: null,
+      takenAt: null,
+      gps: null,
+    });
+  });
+
+  it('rejects data that is not EXIF', () => {
+    expect(parseExif(Buffer.from('not a tiff structure'))).toBeNull();
+    expect(parseExif(Buffer.alloc(4))).toBeNull();
+  });
+});
@@ -0,0 +1,170 @@
+import { ExifData } from '../../entities/MediaMetadata';
+
+/*
+ * Reads the few EXIF fields we index from the raw TIFF structure sharp hands
+ * out (`metadata().exif`, optionally prefixed with "Exif\0\0"): IFD0 for the
+ * camera, the Exif sub-IFD for the lens and capture time, the GPS sub-IFD for
+ * the location.
+ */
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  7: 1, // UNDEFINED
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+};
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+
+type TagValue = string | number[];
+
+class TiffReader {
+  constructor(
+    private readonly bytes: Buffer,
+    private readonly little: boolean,
+  ) {}
+
+  u16(offset: number): number {
+    return this.little
+      ? this.bytes.readUInt16LE(offset)
+      : this.bytes.readUInt16BE(offset);
+  }
+
+  u32(offset: number): number {
+    return this.little
+      ? this.bytes.readUInt32LE(offset)
+      : this.bytes.readUInt32BE(offset);
+  }
+
+  i32(offset: number): number {
+    return this.little
+      ? this.bytes.readInt32LE(offset)
+      : this.bytes.readInt32BE(offset);
+  }
+
+  // Tags of the IFD at `offset`; malformed entries are skipped
+  ifd(offset: number): Map<number, TagValue> {
+    const tags = new Map<number, TagValue>();
+    if (offset + 2 > this.bytes.length) return tags;
+    const count = this.u16(offset);
+    for (let index = 0; index < count; index++) {
+      const entry = offset + 2 + index * 12;
+      if (entry + 12 > this.bytes.length) break;
+      const value = this.value(entry);
+      if (value !== undefined) tags.set(this.u16(entry), value);
+    }
+    return tags;
+  }
+
+  private value(entry: number): TagValue | undefined {
+    const type = this.u16(entry + 2);
+    const count = this.u32(entry + 4);
+    const size = TYPE_SIZES[type];
+    if (!size) return undefined;
+    // Values of up to 4 bytes are stored in the entry itself
+    const start = size * count <= 4 ? entry + 8 : this.u32(entry + 8);
+    if (start + size * count > this.bytes.length) return undefined;
+    if (type === 2) {
+      return this.bytes
+        .subarray(start, start + count)
+        .toString('latin1')
+        .replace(/\0[\s\S]*$/, '')
+        .trim();
+    }
+    const values: number[] = [];
+    for (let index = 0; index < count; index++) {
+      const at = start + index * size;
+      if (type === 3) values.push(this.u16(at));
+      else if (type === 4) values.push(this.u32(at));
+      else if (type === 9) values.push(this.i32(at));
+      else if (type === 5 || type === 10) {
+        const read = (offset: number) =>
+          type === 5 ? this.u32(offset) : this.i32(offset);
+        const denominator = read(at + 4);
+        values.push(denominator ? read(at) / denominator : 0);
+      } else values.push(this.bytes[at]);
+    }
+    return values;
+  }
+}
+
+function text(tags: Map<number, TagValue>, tag: number): string | undefined {
+  const value = tags.get(tag);
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function numbers(tags: Map<number, TagValue>, tag: number): number[] {
+  const value = tags.get(tag);
+  return Array.isArray(value) ? value : [];
+}
+
+// "2024:05:01 13:45:10" (local time of the camera, no zone) -> "2024-05-01T13:45:10"
+function exifDate(value: string | undefined): string | undefined {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}:\d{2}:\d{2})$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}` : undefined;
+}
+
+function coordinate(
+  parts: number[],
+  ref: string | undefined,
+  negative: string,
+): number | undefined {
+  if (parts.length !== 3 || !ref) return undefined;
+  const degrees = parts[0] + parts[1] / 60 + parts[2] / 3600;
+  return Number((ref === negative ? -degrees : degrees).toFixed(7));
+}
+
+/** The EXIF fields of an image; null when `exif` is not a readable TIFF structure. */
+export function parseExif(exif: Buffer): ExifData | null {
+  const bytes =
+    exif.subarray(0, 6).toString('latin1') === 'Exif\0\0'
+      ? exif.subarray(6)
+      : exif;
+  if (bytes.length < 8) return null;
+  const order = bytes.subarray(0, 2).toString('latin1');
+  if (order !== 'II' && order !== 'MM') return null;
+  const reader = new TiffReader(bytes, order === 'II');
+  if (reader.u16(2) !== 42) return null;
+
+  const ifd0 = reader.ifd(reader.u32(4));
+  const exifPointer = numbers(ifd0, EXIF_IFD_POINTER)[0];
+  const exifIfd = exifPointer
+    ? reader.ifd(exifPointer)
+    : new Map<number, TagValue>();
+  const gpsPointer = numbers(ifd0, GPS_IFD_POINTER)[0];
+  const gpsIfd = gpsPointer
+    ? reader.ifd(gpsPointer)
+    : new Map<number, TagValue>();
+
+  const latitude = coordinate(numbers(gpsIfd, 2), text(gpsIfd, 1), 'S');
+  const longitude = coordinate(numbers(gpsIfd, 4), text(gpsIfd, 3), 'W');
+  const altitude = numbers(gpsIfd, 6)[0];
+  const belowSeaLevel = numbers(gpsIfd, 5)[0] === 1;
+
+  return {
+    make: text(ifd0, 0x010f) ?? null,
+    model: text(ifd0, 0x0110) ?? null,
+    lens: text(exifIfd, 0xa434) ?? null,
+    software: text(ifd0, 0x0131) ?? null,
+    orientation: numbers(ifd0, 0x0112)[0] ?? null,
+    takenAt:
+      exifDate(text(exifIfd, 0x9003)) ?? exifDate(text(ifd0, 0x0132)) ?? null,
+    gps:
+      latitude === undefined || longitude === undefined
+        ? null
+        : {
+            latitude,
+            longitude,
+            altitude:
+              altitude === undefined
+                ? null
+                : belowSeaLevel
+                  ? -altitude
+                  : altitude,
+          },
+  };
+}
@@ -0,0 +1,53 @@
+import { execFile } from 'child_process';
+import { createWriteStream, promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+// The command is not installed (or not on PATH)
+export class ToolNotInstalledError extends Error {}
+
+/**
+ * Runs a command line tool (pdftoppm, ffmpeg...) and returns what it printed.
+ * Failures carry the last line of its error output.
+ */
+export async function runTool(
+  command: string,
+  args: string[],
+  timeoutMs: number,
+): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync(command, args, {
+      timeout: timeoutMs,
+      maxBuffer: 16 * 1024 * 1024,
+    });
+    return stdout;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new ToolNotInstalledError(`${command} is not installed`);
+    }
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new Error(
+      `${path.basename(command)} failed${stderr ? `: ${stderr.split('\n').pop()}` : ''}`,
+    );
+  }
+}
+
+/** Saves a stream to a temporary file for tools that need a seekable input; removed afterwards. */
+export async function withLocalCopy<T>(
+  source: Readable,
+  task: (file: string, dir: string) => Promise<T>,
+): Promise<T> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-tool-'));
+  try {
+    const file = path.join(dir, 'source');
+    await pipeline(source, createWriteStream(file));
+    return await task(file, dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  decodeListCursor,
+  encodeListCursor,
+  parseFileListQuery,
+} from './file-list-query';
+
+describe('parseFileListQuery', () => {
+  it('applies defaults', () => {
+    expect(parseFileListQuery({})).toMatchObject({
+      prefix: '',
+      recursive: true,
+      limit: 100,
+      sort: 'date',
+      order: 'desc',
+    });
+    expect(parseFileListQuery({ sort: 'name' }).order).toBe('asc');
+  });
+
+  it('parses filters', () => {
+    const query = parseFileListQuery({
+      prefix: '/photos/',
+      delimiter: '/',
+      mimeType: 'Image/*',
+      minSize: '10',
+      maxSize: '20',
+      uploadedFrom: '2024-01-01',
+      name: 'Report',
+    });
+    expect(query).toMatchObject({
+      prefix: 'photos',
+      recursive: false,
+      mimeType: 'image/*',
+      minSize: 10,
+      maxSize: 20,
+      name: 'report',
+    });
+    expect(query.uploadedFrom?.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+  });
+
+  it('rejects invalid values', () => {
+    expect(() => parseFileListQuery({ limit: '0' })).toThrow();
+    expect(() => parseFileListQuery({ limit: '5000' })).toThrow();
+    expect(() => parseFileListQuery({ sort: 'owner' })).toThrow();
+    expect(() => parseFileListQuery({ minSize: '-1' })).toThrow();
+    expect(() => parseFileListQuery({ minSize: '5', maxSize: '1' })).toThrow();
+    expect(() => parseFileListQuery({ uploadedTo: 'yesterday' })).toThrow();
+    expect(() => parseFileListQuery({ name: ['a', 'b'] })).toThrow();
+    expect(() => parseFileListQuery({ prefix: '../x' })).toThrow();
+  });
+
+  it('only accepts cursors issued for the same sort', () => {
+    const cursor = encodeListCursor({
+      sort: 'size',
+      order: 'asc',
+      value: 10,
+      path: 'a.txt',
+    });
+    expect(decodeListCursor(cursor)).toEqual({
+      sort: 'size',
+      order: 'asc',
+      value: 10,
+      path: 'a.txt',
+    });
+    expect(parseFileListQuery({ sort: 'size', cursor }).cursor?.path).toBe(
+      'a.txt',
+    );
+    expect(() => parseFileListQuery({ sort: 'name', cursor })).toThrow(
+      'cursor was issued for another sort order',
+    );
+    expect(() => parseFileListQuery({ cursor: 'garbage' })).toThrow(
+      'Invalid cursor',
+    );
+  });
+});
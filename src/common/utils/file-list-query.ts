@@ -0,0 +1,177 @@
+import { BadRequestException } from '@nestjs/common';
+import { normalizeStoragePath } from './storage-path';
+
+export type FileSortField = 'name' | 'size' | 'date';
+export type SortOrder = 'asc' | 'desc';
+
+export const FILE_SORT_FIELDS: readonly FileSortField[] = [
+  'name',
+  'size',
+  'date',
+];
+export const DEFAULT_LIST_LIMIT = 100;
+export const MAX_LIST_LIMIT = 1000;
+
+// Query parameters that switch GET /storage/list from the plain array to pages
+export const LIST_QUERY_PARAMS = [
+  'prefix',
+  'recursive',
+  'delimiter',
+  'limit',
+  'cursor',
+  'sort',
+  'order',
+  'mimeType',
+  'type',
+  'createById',
+  'uploadedFrom',
+  'uploadedTo',
+  'minSize',
+  'maxSize',
+  'name',
+];
+
+// Position after the last file of a page, in the page's sort order
+export interface FileListCursor {
+  sort: FileSortField;
+  order: SortOrder;
+  value: string | number;
+  path: string;
+}
+
+export interface FileListQuery {
+  // Folder to list, '' for the namespace root
+  prefix: string;
+  recursive: boolean;
+  limit: number;
+  cursor?: FileListCursor;
+  sort: FileSortField;
+  order: SortOrder;
+  // Exact type, or "image/*"
+  mimeType?: string;
+  // A category of the statistics, e.g. "Images" or "PDF"
+  type?: string;
+  createById?: string;
+  uploadedFrom?: Date;
+  uploadedTo?: Date;
+  minSize?: number;
+  maxSize?: number;
+  // Case-insensitive substring of the original file name
+  name?: string;
+  // Include each file's media metadata
+  metadata?: boolean;
+}
+
+function parseSize(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  if (!Number.isSafeInteger(number) || number < 0) {
+    throw new BadRequestException(`${name} must be a non-negative integer`);
+  }
+  return number;
+}
+
+function parseDate(value: unknown, name: string): Date | undefined {
+  if (value === undefined || value === '') return undefined;
+  const date = typeof value === 'string' ? new Date(value) : undefined;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new BadRequestException(`${name} must be an ISO 8601 date`);
+  }
+  return date;
+}
+
+function parseText(value: unknown, name: string): string | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') {
+    throw new BadRequestException(`${name} must be given once`);
+  }
+  return value;
+}
+
+export function encodeListCursor(cursor: FileListCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeListCursor(token: string): FileListCursor {
+  try {
+    const cursor = JSON.parse(
+      Buffer.from(token, 'base64url').toString('utf8'),
+    ) as FileListCursor;
+    if (
+      FILE_SORT_FIELDS.includes(cursor.sort) &&
+      (cursor.order === 'asc' || cursor.order === 'desc') &&
+      (typeof cursor.value === 'string' || typeof cursor.value === 'number') &&
+      typeof cursor.path === 'string'
+    ) {
+      return cursor;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new BadRequestException('Invalid cursor');
+}
+
+/** Validates the query string of a paginated GET /storage/list. */
+// Query string flags: ?metadata=true or ?metadata=1
+export function isTrue(value: unknown): boolean {
+  return value === 'true' || value === '1';
+}
+
+export function parseFileListQuery(
+  query: Record<string, unknown>,
+): FileListQuery {
+  const delimiter = parseText(query.delimiter, 'delimiter');
+  if (delimiter !== undefined && delimiter !== '/') {
+    throw new BadRequestException('Only "/" is supported as delimiter');
+  }
+  const recursive = parseText(query.recursive, 'recursive');
+  const limit = parseSize(query.limit, 'limit') ?? DEFAULT_LIST_LIMIT;
+  if (limit < 1 || limit > MAX_LIST_LIMIT) {
+    throw new BadRequestException(
+      `limit must be between 1 and ${MAX_LIST_LIMIT}`,
+    );
+  }
+  const sort = (parseText(query.sort, 'sort') ?? 'date') as FileSortField;
+  if (!FILE_SORT_FIELDS.includes(sort)) {
+    throw new BadRequestException(
+      `sort must be one of ${FILE_SORT_FIELDS.join(', ')}`,
+    );
+  }
+  // Newest first by default, otherwise ascending
+  const order = (parseText(query.order, 'order') ??
+    (sort === 'date' ? 'desc' : 'asc')) as SortOrder;
+  if (order !== 'asc' && order !== 'desc') {
+    throw new BadRequestException('order must be asc or desc');
+  }
+  const cursorToken = parseText(query.cursor, 'cursor');
+  const cursor = cursorToken ? decodeListCursor(cursorToken) : undefined;
+  if (cursor && (cursor.sort !== sort || cursor.order !== order)) {
+    throw new BadRequestException('cursor was issued for another sort order');
+  }
+  const minSize = parseSize(query.minSize, 'minSize');
+  const maxSize = parseSize(query.maxSize, 'maxSize');
+  if (minSize !== undefined && maxSize !== undefined && minSize > maxSize) {
+    throw new BadRequestException('minSize must not exceed maxSize');
+  }
+  return {
+    prefix: normalizeStoragePath(query.prefix ?? '', 'prefix', {
+      allowRoot: true,
+    }),
+    // Like S3: a delimiter groups sub-folders into commonPrefixes
+    recursive:
+      delimiter === undefined && !(recursive === 'false' || recursive === '0'),
+    limit,
+    cursor,
+    sort,
+    order,
+    mimeType: parseText(query.mimeType, 'mimeType')?.toLowerCase(),
+    type: parseText(query.type, 'type'),
+    createById: parseText(query.createById, 'createById'),
+    uploadedFrom: parseDate(query.uploadedFrom, 'uploadedFrom'),
+    uploadedTo: parseDate(query.uploadedTo, 'uploadedTo'),
+    minSize,
+    maxSize,
+    name: parseText(query.name, 'name')?.toLowerCase(),
+    metadata: isTrue(parseText(query.metadata, 'metadata')),
+  };
+}
@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { tryWithFileLock, withFileLock, writeFileAtomic } from './file-lock';
+
+describe('withFileLock', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-lock-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('runs tasks holding the same lock one at a time', async () => {
+    const lockFile = path.join(dir, 'a.lock');
+    let running = 0;
+    let overlapped = false;
+    await Promise.all(
+      Array.from({ length: 5 }, () =>
+        withFileLock(lockFile, async () => {
+          overlapped ||= running > 0;
+          running++;
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          running--;
+        }),
+      ),
+    );
+    expect(overlapped).toBe(false);
+    await expect(fs.access(lockFile)).rejects.toThrow();
+  });
+
+  it('takes over a lock left behind by a dead process', async () => {
+    const lockFile = path.join(dir, 'a.lock');
+    await fs.writeFile(lockFile, '999999');
+    const old = new Date(Date.now() - 60000);
+    await fs.utimes(lockFile, old, old);
+    await expect(
+      withFileLock(lockFile, () => Promise.resolve('done')),
+    ).resolves.toBe('done');
+  });
+
+  it('gives up after the timeout', async () => {
+    const lockFile = path.join(dir, 'a.lock');
+    await fs.writeFile(lockFile, '1');
+    await expect(
+      withFileLock(lockFile, () => Promise.resolve(), { timeoutMs: 50 }),
+    ).rejects.toThrow('Timed out');
+  });
+
+  it('skips the task when trying a lock that is held', async () => {
+    const lockFile = path.join(dir, 'a.lock');
+    const task = jest.fn(() => Promise.resolve('done'));
+    await withFileLock(lockFile, async () => {
+      await expect(tryWithFileLock(lockFile, task)).resolves.toBeUndefined();
+    });
+    expect(task).not.toHaveBeenCalled();
+    await expect(tryWithFileLock(lockFile, task)).resolves.toBe('done');
+  });
+});
+
+describe('writeFileAtomic', () => {
+  it('leaves no temporary files behind', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-lock-'));
+    const file = path.join(dir, 'data.json');
+    await Promise.all(
+      Array.from({ length: 5 }, (_, index) =>
+        writeFileAtomic(file, String(index)),
+      ),
+    );
+    expect(await fs.readdir(dir)).toEqual(['data.json']);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
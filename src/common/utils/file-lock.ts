@@ -0,0 +1,101 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export interface FileLockOptions {
+  // A lock whose holder stopped refreshing it for this long is taken over
+  staleMs?: number;
+  // Give up waiting after this long
+  timeoutMs?: number;
+}
+
+/** Writes a file through a uniquely named temporary file, so concurrent writers never share one. */
+export async function writeFileAtomic(
+  file: string,
+  content: string | Buffer,
+  options: { mode?: number } = {},
+): Promise<void> {
+  const tmp = `${file}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  try {
+    await fs.writeFile(tmp, content, { mode: options.mode });
+    await fs.rename(tmp, file);
+  } catch (err) {
+    await fs.rm(tmp, { force: true });
+    throw err;
+  }
+}
+
+// Takes the lock, or returns false once `timeoutMs` has passed
+async function acquire(
+  lockFile: string,
+  staleMs: number,
+  timeoutMs: number,
+): Promise<boolean> {
+  const startedAt = Date.now();
+  await fs.mkdir(path.dirname(lockFile), { recursive: true });
+  for (let delay = 5; ; delay = Math.min(delay * 2, 200)) {
+    try {
+      await fs.writeFile(lockFile, String(process.pid), { flag: 'wx' });
+      return true;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+    }
+    const stat = await fs.stat(lockFile).catch(() => null);
+    if (stat && Date.now() - stat.mtimeMs > staleMs) {
+      await fs.rm(lockFile, { force: true });
+      continue;
+    }
+    if (Date.now() - startedAt >= timeoutMs) return false;
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
+async function hold<T>(
+  lockFile: string,
+  staleMs: number,
+  task: () => Promise<T>,
+): Promise<T> {
+  const heartbeat = setInterval(() => {
+    const now = new Date();
+    fs.utimes(lockFile, now, now).catch(() => undefined);
+  }, staleMs / 3);
+  heartbeat.unref();
+  try {
+    return await task();
+  } finally {
+    clearInterval(heartbeat);
+    await fs.rm(lockFile, { force: true });
+  }
+}
+
+/**
+ * Runs `task` while holding `lockFile`, a lock shared by every process using
+ * the same directory (PM2 workers). The lock is an exclusively created file;
+ * its holder touches it while the task runs, so the lock of a process that
+ * died is recognised by its age and taken over.
+ */
+export async function withFileLock<T>(
+  lockFile: string,
+  task: () => Promise<T>,
+  options: FileLockOptions = {},
+): Promise<T> {
+  const staleMs = options.staleMs ?? 30000;
+  if (!(await acquire(lockFile, staleMs, options.timeoutMs ?? 60000))) {
+    throw new Error(`Timed out waiting for lock ${lockFile}`);
+  }
+  return hold(lockFile, staleMs, task);
+}
+
+/**
+ * Runs `task` holding `lockFile` like `withFileLock`, unless another process
+ * holds it already: then nothing runs and the result is undefined.
+ */
+export async function tryWithFileLock<T>(
+  lockFile: string,
+  task: () => Promise<T>,
+  options: Pick<FileLockOptions, 'staleMs'> = {},
+): Promise<T | undefined> {
+  const staleMs = options.staleMs ?? 30000;
+  if (!(await acquire(lockFile, staleMs, 0))) return undefined;
+  return hold(lockFile, staleMs, task);
+}
@@ -0,0 +1,102 @@
+import {
+  contentDisposition,
+  evaluatePreconditions,
+  ifRangeMatches,
+  parseRangeHeader,
+} from './http';
+
+describe('parseRangeHeader', () => {
+  it('ignores absent, malformed and non-byte ranges', () => {
+    expect(parseRangeHeader(undefined, 100)).toBeUndefined();
+    expect(parseRangeHeader('bytes=abc', 100)).toBeUndefined();
+    expect(parseRangeHeader('items=0-5', 100)).toBeUndefined();
+    expect(parseRangeHeader('bytes=5-2', 100)).toBeUndefined();
+  });
+
+  it('parses first-last, open-ended and suffix ranges', () => {
+    expect(parseRangeHeader('bytes=0-9', 100)).toEqual([{ start: 0, end: 9 }]);
+    expect(parseRangeHeader('bytes=90-', 100)).toEqual([
+      { start: 90, end: 99 },
+    ]);
+    expect(parseRangeHeader('bytes=-10', 100)).toEqual([
+      { start: 90, end: 99 },
+    ]);
+    expect(parseRangeHeader('bytes=95-200', 100)).toEqual([
+      { start: 95, end: 99 },
+    ]);
+  });
+
+  it('sorts and coalesces multiple ranges', () => {
+    expect(parseRangeHeader('bytes=50-59, 0-9, 5-20, 21-30', 100)).toEqual([
+      { start: 0, end: 30 },
+      { start: 50, end: 59 },
+    ]);
+  });
+
+  it('reports ranges beyond the content as unsatisfiable', () => {
+    expect(parseRangeHeader('bytes=100-', 100)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=-0', 100)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=0-', 0)).toBe('unsatisfiable');
+  });
+});
+
+describe('evaluatePreconditions', () => {
+  const etag = '"abc"';
+  const lastModified = new Date('2025-01-01T00:00:00Z');
+
+  it('returns not-modified for a matching If-None-Match', () => {
+    expect(
+      evaluatePreconditions({ 'if-none-match': 'W/"abc"' }, etag, lastModified),
+    ).toBe('not-modified');
+    expect(
+      evaluatePreconditions({ 'if-none-match': '"other"' }, etag, lastModified),
+    ).toBe('ok');
+  });
+
+  it('ignores If-Modified-Since when If-None-Match is present', () => {
+    expect(
+      evaluatePreconditions(
+        {
+          'if-none-match': '"other"',
+          'if-modified-since': lastModified.toUTCString(),
+        },
+        etag,
+        lastModified,
+      ),
+    ).toBe('ok');
+    expect(
+      evaluatePreconditions(
+        { 'if-modified-since': lastModified.toUTCString() },
+        etag,
+        lastModified,
+      ),
+    ).toBe('not-modified');
+  });
+
+  it('fails preconditions on a mismatching If-Match', () => {
+    expect(
+      evaluatePreconditions({ 'if-match': '"other"' }, etag, lastModified),
+    ).toBe('precondition-failed');
+  });
+});
+
+describe('ifRangeMatches', () => {
+  const lastModified = new Date('2025-01-01T00:00:00Z');
+
+  it('compares entity tags strongly and dates exactly', () => {
+    expect(ifRangeMatches(undefined, '"abc"', lastModified)).toBe(true);
+    expect(ifRangeMatches('"abc"', '"abc"', lastModified)).toBe(true);
+    expect(ifRangeMatches('W/"abc"', '"abc"', lastModified)).toBe(false);
+    expect(
+      ifRangeMatches(lastModified.toUTCString(), '"abc"', lastModified),
+    ).toBe(true);
+  });
+});
+
+describe('contentDisposition', () => {
+  it('adds an ASCII fallback and an RFC 5987 encoded name', () => {
+    expect(contentDisposition('attachment', 'báo cáo "Q1".pdf')).toBe(
+      `attachment; filename="b_o c_o _Q1_.pdf"; filename*=UTF-8''b%C3%A1o%20c%C3%A1o%20%22Q1%22.pdf`,
+    );
+  });
+});
@@ -0,0 +1,137 @@
+export interface ByteRange {
+  // Inclusive offsets
+  start: number;
+  end: number;
+}
+
+// More ranges than this in one request is treated as abuse and the header is ignored
+const MAX_RANGES = 32;
+
+/**
+ * Parses an RFC 7233 `Range` header against a representation of `size` bytes.
+ * Returns undefined when the header should be ignored (absent, malformed, not
+ * bytes, too many ranges) and 'unsatisfiable' when no range overlaps the content.
+ * Overlapping or adjacent ranges are coalesced.
+ */
+export function parseRangeHeader(
+  header: string | undefined,
+  size: number,
+): ByteRange[] | 'unsatisfiable' | undefined {
+  if (!header) return undefined;
+  const match = /^\s*bytes\s*=\s*(.+)$/i.exec(header);
+  if (!match) return undefined;
+  const specs = match[1].split(',').map((spec) => spec.trim());
+  if (specs.length > MAX_RANGES) return undefined;
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const parts = /^(\d*)-(\d*)$/.exec(spec);
+    if (!parts || (parts[1] === '' && parts[2] === '')) return undefined;
+    let start: number;
+    let end: number;
+    if (parts[1] === '') {
+      // Suffix range: the last N bytes
+      const suffix = Number(parts[2]);
+      if (suffix === 0) continue;
+      start = Math.max(size - suffix, 0);
+      end = size - 1;
+    } else {
+      start = Number(parts[1]);
+      end = parts[2] === '' ? size - 1 : Math.min(Number(parts[2]), size - 1);
+      if (parts[2] !== '' && Number(parts[2]) < start) return undefined;
+    }
+    if (start >= size || size === 0) continue;
+    ranges.push({ start, end });
+  }
+  if (!ranges.length) return 'unsatisfiable';
+
+  ranges.sort((a, b) => a.start - b.start);
+  const coalesced: ByteRange[] = [ranges[0]];
+  for (const range of ranges.slice(1)) {
+    const last = coalesced[coalesced.length - 1];
+    if (range.start <= last.end + 1) last.end = Math.max(last.end, range.end);
+    else coalesced.push(range);
+  }
+  return coalesced;
+}
+
+function parseEntityTags(header: string): string[] {
+  return header.split(',').map((tag) => tag.trim().replace(/^W\//, ''));
+}
+
+export interface ValidatorHeaders {
+  'if-match'?: string;
+  'if-none-match'?: string;
+  'if-modified-since'?: string;
+  'if-unmodified-since'?: string;
+  'if-range'?: string;
+}
+
+export type ConditionalResult = 'ok' | 'not-modified' | 'precondition-failed';
+
+/**
+ * Evaluates RFC 7232 preconditions for a GET/HEAD of a representation with a
+ * strong `etag` (quoted) and `lastModified` date, in the order mandated by §6.
+ */
+export function evaluatePreconditions(
+  headers: ValidatorHeaders,
+  etag: string,
+  lastModified: Date,
+): ConditionalResult {
+  const modifiedSeconds = Math.floor(lastModified.getTime() / 1000);
+  const ifMatch = headers['if-match'];
+  if (ifMatch) {
+    const tags = ifMatch.split(',').map((tag) => tag.trim());
+    if (!tags.includes('*') && !tags.includes(etag)) {
+      return 'precondition-failed';
+    }
+  } else if (headers['if-unmodified-since']) {
+    const since = Date.parse(headers['if-unmodified-since']);
+    if (!Number.isNaN(since) && modifiedSeconds > Math.floor(since / 1000)) {
+      return 'precondition-failed';
+    }
+  }
+
+  const ifNoneMatch = headers['if-none-match'];
+  if (ifNoneMatch) {
+    const tags = parseEntityTags(ifNoneMatch);
+    if (tags.includes('*') || tags.includes(etag)) return 'not-modified';
+  } else if (headers['if-modified-since']) {
+    const since = Date.parse(headers['if-modified-since']);
+    if (!Number.isNaN(since) && modifiedSeconds <= Math.floor(since / 1000)) {
+      return 'not-modified';
+    }
+  }
+  return 'ok';
+}
+
+/** Whether an `If-Range` validator still matches, i.e. the Range header applies. */
+export function ifRangeMatches(
+  ifRange: string | undefined,
+  etag: string,
+  lastModified: Date,
+): boolean {
+  if (!ifRange) return true;
+  const value = ifRange.trim();
+  if (value.startsWith('"') || value.startsWith('W/')) return value === etag;
+  const date = Date.parse(value);
+  return (
+    !Number.isNaN(date) &&
+    Math.floor(lastModified.getTime() / 1000) === Math.floor(date / 1000)
+  );
+}
+
+/** Builds an RFC 6266 Content-Disposition value with an ASCII fallback name. */
+export function contentDisposition(
+  type: 'inline' | 'attachment',
+  filename: string,
+): string {
+  const fallback = filename
+    .replace(/[^\x20-\x7e]/g, '_')
+    .replace(/["\\]/g, '_');
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
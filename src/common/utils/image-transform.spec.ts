@@ -0,0 +1,60 @@
+import { BadRequestException } from '@nestjs/common';
+import { derivativeName, parseImageTransformQuery } from './image-transform';
+
+describe('parseImageTransformQuery', () => {
+  it('maps the short parameters', () => {
+    expect(
+      parseImageTransformQuery(
+        { w: '300', h: '200', fit: 'inside', format: 'jpg', q: '90' },
+        4096,
+      ),
+    ).toEqual({
+      width: 300,
+      height: 200,
+      fit: 'inside',
+      format: 'jpeg',
+      quality: 90,
+    });
+    expect(parseImageTransformQuery({}, 4096)).toEqual({
+      width: undefined,
+      height: undefined,
+      quality: undefined,
+    });
+  });
+
+  it('accepts dimensions up to the maximum and quality from 1 to 100', () => {
+    expect(
+      parseImageTransformQuery({ w: '1', h: '4096', q: '100' }, 4096),
+    ).toMatchObject({ width: 1, height: 4096, quality: 100 });
+    expect(parseImageTransformQuery({ q: '1' }, 4096).quality).toBe(1);
+  });
+
+  it('rejects values out of bounds or not integers', () => {
+    for (const query of [
+      { w: '0' },
+      { w: '4097' },
+      { h: '-5' },
+      { w: '10.5' },
+      { w: 'abc' },
+      { q: '0' },
+      { q: '101' },
+      { fit: 'stretch' },
+      { format: 'bmp' },
+    ]) {
+      expect(() => parseImageTransformQuery(query, 4096)).toThrow(
+        BadRequestException,
+      );
+    }
+  });
+});
+
+describe('derivativeName', () => {
+  it('names equal transforms alike', () => {
+    expect(derivativeName({ width: 300, format: 'webp' })).toBe(
+      '300xauto-cover-q80.webp',
+    );
+    expect(
+      derivativeName({ width: 300, fit: 'cover', quality: 80, format: 'webp' }),
+    ).toBe('300xauto-cover-q80.webp');
+  });
+});
@@ -0,0 +1,132 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  ImageFit,
+  ImageFormat,
+  ImageTransformOptions,
+} from '../../entities/ImageTransformOptions';
+
+export const IMAGE_FITS: readonly ImageFit[] = [
+  'cover',
+  'contain',
+  'fill',
+  'inside',
+  'outside',
+];
+export const IMAGE_FORMATS: readonly ImageFormat[] = [
+  'jpeg',
+  'png',
+  'webp',
+  'avif',
+];
+export const DEFAULT_IMAGE_QUALITY = 80;
+
+const PRESET_NAME = /^[a-zA-Z0-9_-]{1,64}$/;
+
+function parseInteger(
+  value: unknown,
+  name: string,
+  min: number,
+  max: number,
+): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = typeof value === 'number' ? value : Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new BadRequestException(
+      `${name} must be an integer between ${min} and ${max}`,
+    );
+  }
+  return number;
+}
+
+/**
+ * Validates a transform (from the query string or a stored preset) and returns
+ * it without unknown fields. `maxDimension` caps width and height.
+ */
+export function validateImageTransform(
+  input: Record<string, unknown>,
+  maxDimension: number,
+): ImageTransformOptions {
+  const options: ImageTransformOptions = {
+    width: parseInteger(input.width, 'width', 1, maxDimension),
+    height: parseInteger(input.height, 'height', 1, maxDimension),
+    quality: parseInteger(input.quality, 'quality', 1, 100),
+  };
+  if (input.fit !== undefined && input.fit !== '') {
+    if (!IMAGE_FITS.includes(input.fit as ImageFit)) {
+      throw new BadRequestException(
+        `fit must be one of ${IMAGE_FITS.join(', ')}`,
+      );
+    }
+    options.fit = input.fit as ImageFit;
+  }
+  if (input.format !== undefined && input.format !== '') {
+    const format = input.format === 'jpg' ? 'jpeg' : input.format;
+    if (!IMAGE_FORMATS.includes(format as ImageFormat)) {
+      throw new BadRequestException(
+        `format must be one of ${IMAGE_FORMATS.join(', ')}`,
+      );
+    }
+    options.format = format as ImageFormat;
+  }
+  return options;
+}
+
+/** Maps the short query parameters (`w`, `h`, `fit`, `format`, `q`). */
+export function parseImageTransformQuery(
+  query: Record<string, unknown>,
+  maxDimension: number,
+): ImageTransformOptions {
+  return validateImageTransform(
+    {
+      width: query.w,
+      height: query.h,
+      fit: query.fit,
+      format: query.format,
+      quality: query.q,
+    },
+    maxDimension,
+  );
+}
+
+export function validateImagePresets(
+  presets: unknown,
+  maxDimension: number,
+): Record<string, ImageTransformOptions> | null {
+  if (presets === null) return null;
+  if (typeof presets !== 'object' || Array.isArray(presets)) {
+    throw new BadRequestException('imagePresets must be an object');
+  }
+  const result: Record<string, ImageTransformOptions> = {};
+  for (const [name, preset] of Object.entries(presets)) {
+    if (!PRESET_NAME.test(name)) {
+      throw new BadRequestException(`Invalid image preset name "${name}"`);
+    }
+    if (!preset || typeof preset !== 'object' || Array.isArray(preset)) {
+      throw new BadRequestException(`Image preset "${name}" must be an object`);
+    }
+    const options = validateImageTransform(
+      preset as Record<string, unknown>,
+      maxDimension,
+    );
+    if (!options.width && !options.height && !options.format) {
+      throw new BadRequestException(
+        `Image preset "${name}" must set width, height or format`,
+      );
+    }
+    result[name] = options;
+  }
+  return result;
+}
+
+/**
+ * Canonical file name of a derivative, e.g. `300x300-cover-q80.webp`. Equal
+ * transforms always map to the same name, which is what makes it a cache key.
+ */
+export function derivativeName(
+  options: ImageTransformOptions & { format: ImageFormat },
+): string {
+  const size = `${options.width ?? 'auto'}x${options.height ?? 'auto'}`;
+  const fit = options.fit ?? 'cover';
+  const quality = options.quality ?? DEFAULT_IMAGE_QUALITY;
+  return `${size}-${fit}-q${quality}.${options.format}`;
+}
@@ -0,0 +1,96 @@
+// Number of leading bytes sniffMimeType needs to recognise every signature below
+export const SNIFF_BYTES = 64;
+
+interface Signature {
+  mimeType: string;
+  offset?: number;
+  bytes: number[];
+}
+
+const SIGNATURES: Signature[] = [
+  {
+    mimeType: 'image/png',
+    bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  },
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: 'image/bmp', bytes: [0x42, 0x4d] },
+  { mimeType: 'image/tiff', bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { mimeType: 'image/tiff', bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  { mimeType: 'image/x-icon', bytes: [0x00, 0x00, 0x01, 0x00] },
+  { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { mimeType: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mimeType: 'application/zip', bytes: [0x50, 0x4b, 0x05, 0x06] },
+  { mimeType: 'application/gzip', bytes: [0x1f, 0x8b] },
+  {
+    mimeType: 'application/x-7z-compressed',
+    bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c],
+  },
+  {
+    mimeType: 'application/vnd.rar',
+    bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07],
+  },
+  { mimeType: 'application/x-msdownload', bytes: [0x4d, 0x5a] },
+  { mimeType: 'application/x-executable', bytes: [0x7f, 0x45, 0x4c, 0x46] },
+  {
+    mimeType: 'application/x-ole-storage',
+    bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1],
+  },
+  { mimeType: 'video/webm', bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+  { mimeType: 'audio/mpeg', bytes: [0x49, 0x44, 0x33] },
+  { mimeType: 'audio/ogg', bytes: [0x4f, 0x67, 0x67, 0x53] },
+  { mimeType: 'audio/flac', bytes: [0x66, 0x4c, 0x61, 0x43] },
+];
+
+function matchesAt(buffer: Buffer, bytes: number[], offset = 0): boolean {
+  if (buffer.length < offset + bytes.length) return false;
+  return bytes.every((byte, i) => buffer[offset + i] === byte);
+}
+
+function ascii(buffer: Buffer, start: number, end: number): string {
+  return buffer.subarray(start, end).toString('latin1');
+}
+
+/**
+ * Detects a MIME type from the leading bytes of a file. Returns undefined when
+ * the content has no recognisable signature (plain text, CSV, unknown binaries).
+ */
+export function sniffMimeType(head: Buffer): string | undefined {
+  // RIFF containers: WEBP / WAV / AVI
+  if (ascii(head, 0, 4) === 'RIFF') {
+    const format = ascii(head, 8, 12);
+    if (format === 'WEBP') return 'image/webp';
+    if (format === 'WAVE') return 'audio/wav';
+    if (format === 'AVI ') return 'video/x-msvideo';
+  }
+  // ISO base media: MP4 / MOV / HEIC / AVIF
+  if (ascii(head, 4, 8) === 'ftyp') {
+    const brand = ascii(head, 8, 12);
+    if (brand === 'qt  ') return 'video/quicktime';
+    if (brand === 'M4A ') return 'audio/mp4';
+    if (brand === 'avif') return 'image/avif';
+    if (['heic', 'heix', 'mif1'].includes(brand)) return 'image/heic';
+    return 'video/mp4';
+  }
+  // MPEG audio frame sync
+  if (
+    head.length >= 2 &&
+    head[0] === 0xff &&
+    (head[1] & 0xe0) === 0xe0 &&
+    head[1] !== 0xff
+  ) {
+    return 'audio/mpeg';
+  }
+  for (const signature of SIGNATURES) {
+    if (matchesAt(head, signature.bytes, signature.offset))
+      return signature.mimeType;
+  }
+  const text = head.toString('utf8').trimStart().toLowerCase();
+  if (
+    text.startsWith('<svg') ||
+    (text.startsWith('<?xml') && text.includes('<svg'))
+  ) {
+    return 'image/svg+xml';
+  }
+  return undefined;
+}
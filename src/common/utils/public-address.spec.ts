@@ -0,0 +1,49 @@
+import { assertPublicUrl, isPublicAddress } from './public-address';
+
+describe('isPublicAddress', () => {
+  it('rejects loopback, private, link-local and reserved addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      '::',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+      'not-an-ip',
+    ]) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+  });
+
+  it('accepts public addresses', () => {
+    for (const address of ['93.184.216.34', '2606:4700::1111', '8.8.8.8']) {
+      expect(isPublicAddress(address)).toBe(true);
+    }
+  });
+});
+
+describe('assertPublicUrl', () => {
+  it('checks IP literals without resolving them', async () => {
+    await expect(
+      assertPublicUrl(new URL('http://169.254.169.254/latest/meta-data')),
+    ).rejects.toThrow('non-public');
+    await expect(
+      assertPublicUrl(new URL('http://[::1]:8080/')),
+    ).rejects.toThrow('non-public');
+    await expect(
+      assertPublicUrl(new URL('https://93.184.216.34/hook')),
+    ).resolves.toBeUndefined();
+  });
+
+  it('checks the addresses a name resolves to', async () => {
+    await expect(
+      assertPublicUrl(new URL('http://localhost:3000/')),
+    ).rejects.toThrow('non-public');
+  });
+});
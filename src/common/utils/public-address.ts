@@ -0,0 +1,59 @@
+import { promises as dns } from 'dns';
+import { BlockList, isIP } from 'net';
+
+// Loopback, private, link-local (cloud metadata), shared, multicast and reserved ranges
+const NON_PUBLIC = new BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC.addSubnet(address, prefix, 'ipv6');
+}
+
+/** Whether `address` (an IP literal) is reachable on the public internet only. */
+export function isPublicAddress(address: string): boolean {
+  // IPv4 addresses mapped into IPv6 (::ffff:a.b.c.d) are checked as IPv4
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  const ip = mapped ?? address;
+  const version = isIP(ip);
+  if (!version) return false;
+  return !NON_PUBLIC.check(ip, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolves the host of `url` and fails unless every address it resolves to
+ * is public, so that requests the server makes on a caller's behalf cannot
+ * reach internal services.
+ */
+export async function assertPublicUrl(url: URL): Promise<void> {
+  // URL keeps the brackets of IPv6 literals
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = isIP(host)
+    ? [host]
+    : (await dns.lookup(host, { all: true })).map((entry) => entry.address);
+  const blocked = addresses.find((address) => !isPublicAddress(address));
+  if (!addresses.length || blocked !== undefined) {
+    throw new Error(
+      `${url.hostname} resolves to a non-public address${blocked ? ` (${blocked})` : ''}`,
+    );
+  }
+}
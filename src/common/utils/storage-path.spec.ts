@@ -0,0 +1,56 @@
+import {
+  isWithinFolder,
+  normalizeStorageName,
+  normalizeStoragePath,
+  sanitizeFileName,
+} from './storage-path';
+
+describe('normalizeStoragePath', () => {
+  it('trims outer slashes', () => {
+    expect(normalizeStoragePath('/photos/2024/')).toBe('photos/2024');
+    expect(normalizeStoragePath('a.txt')).toBe('a.txt');
+  });
+
+  it('rejects paths that could escape or reach internal data', () => {
+    for (const input of [
+      '../other/a.txt',
+      'a/../../b',
+      './a',
+      '.blobs/ab/abc',
+      'a//b',
+      'a\\..\\b',
+      'a/\u0000b',
+    ]) {
+      expect(() => normalizeStoragePath(input)).toThrow();
+    }
+  });
+
+  it('only accepts the root when allowed', () => {
+    expect(() => normalizeStoragePath('/')).toThrow('path is required');
+    expect(normalizeStoragePath('/', 'prefix', { allowRoot: true })).toBe('');
+    expect(() => normalizeStoragePath(undefined)).toThrow(
+      'path must be a string',
+    );
+  });
+
+  it('accepts single names only for normalizeStorageName', () => {
+    expect(normalizeStorageName('report.pdf')).toBe('report.pdf');
+    expect(() => normalizeStorageName('a/b')).toThrow('must not contain "/"');
+  });
+});
+
+describe('sanitizeFileName', () => {
+  it('produces a valid path segment', () => {
+    expect(sanitizeFileName('..\\evil/name\n.txt')).toBe('_evil_name_.txt');
+    expect(sanitizeFileName('...')).toBe('file');
+  });
+});
+
+describe('isWithinFolder', () => {
+  it('matches the folder and what is below it only', () => {
+    expect(isWithinFolder('a/b', 'a')).toBe(true);
+    expect(isWithinFolder('a', 'a')).toBe(true);
+    expect(isWithinFolder('ab/c', 'a')).toBe(false);
+    expect(isWithinFolder('x', '')).toBe(true);
+  });
+});
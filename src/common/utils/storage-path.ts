@@ -0,0 +1,78 @@
+import { BadRequestException } from '@nestjs/common';
+
+export const MAX_PATH_LENGTH = 1024;
+export const MAX_SEGMENT_LENGTH = 255;
+
+// eslint-disable-next-line no-control-regex
+const FORBIDDEN_CHARACTERS = /[\u0000-\u001f\u007f\\]/;
+
+/**
+ * Normalizes a client-supplied path relative to the client namespace, e.g.
+ * "/photos//2024/" becomes "photos/2024". Anything that could address
+ * something outside the namespace, or the dot-prefixed internal directories
+ * (.blobs, .uploads...) inside it, is rejected with a 400 rather than
+ * silently rewritten. An empty path (the namespace root) is only accepted
+ * with `allowRoot`.
+ */
+export function normalizeStoragePath(
+  input: unknown,
+  name = 'path',
+  options: { allowRoot?: boolean } = {},
+): string {
+  if (typeof input !== 'string') {
+    throw new BadRequestException(`${name} must be a string`);
+  }
+  const trimmed = input.normalize('NFC').replace(/^\/+|\/+$/g, '');
+  if (!trimmed) {
+    if (options.allowRoot) return '';
+    throw new BadRequestException(`${name} is required`);
+  }
+  if (trimmed.length > MAX_PATH_LENGTH) {
+    throw new BadRequestException(
+      `${name} must be at most ${MAX_PATH_LENGTH} characters`,
+    );
+  }
+  if (FORBIDDEN_CHARACTERS.test(trimmed)) {
+    throw new BadRequestException(
+      `${name} must not contain control characters or backslashes`,
+    );
+  }
+  for (const segment of trimmed.split('/')) {
+    if (!segment) {
+      throw new BadRequestException(`${name} must not contain empty segments`);
+    }
+    if (segment.startsWith('.')) {
+      throw new BadRequestException(`${name} segments must not start with "."`);
+    }
+    if (segment.length > MAX_SEGMENT_LENGTH) {
+      throw new BadRequestException(
+        `${name} segments must be at most ${MAX_SEGMENT_LENGTH} characters`,
+      );
+    }
+  }
+  return trimmed;
+}
+
+/** Like normalizeStoragePath, for a single file or folder name. */
+export function normalizeStorageName(input: unknown, name = 'name'): string {
+  const normalized = normalizeStoragePath(input, name);
+  if (normalized.includes('/')) {
+    throw new BadRequestException(`${name} must not contain "/"`);
+  }
+  return normalized;
+}
+
+// Replaces what normalizeStoragePath would reject in an uploaded file name
+export function sanitizeFileName(fileName: string): string {
+  const sanitized = fileName
+    .normalize('NFC')
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u001f\u007f\\/]/g, '_')
+    .replace(/^\.+/, '');
+  return sanitized.substring(0, MAX_SEGMENT_LENGTH - 40) || 'file';
+}
+
+/** True when `filePath` is `folder` itself or lies anywhere below it. */
+export function isWithinFolder(filePath: string, folder: string): boolean {
+  return !folder || filePath === folder || filePath.startsWith(`${folder}/`);
+}
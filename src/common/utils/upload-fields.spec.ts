@@ -0,0 +1,29 @@
+import { BadRequestException } from '@nestjs/common';
+import { parseUploadFields } from './upload-fields';
+
+describe('parseUploadFields', () => {
+  it('reads the text fields of a multipart body', () => {
+    expect(
+      parseUploadFields({
+        createById: 'user-1',
+        folder: 'docs',
+        path: '',
+        private: '1',
+        other: 'x',
+      }),
+    ).toEqual({
+      createById: 'user-1',
+      folder: 'docs',
+      path: undefined,
+      isPrivate: true,
+    });
+    expect(parseUploadFields(undefined)).toEqual({ isPrivate: false });
+    expect(parseUploadFields({ private: 'yes' }).isPrivate).toBe(false);
+  });
+
+  it('rejects fields sent more than once', () => {
+    expect(() => parseUploadFields({ folder: ['a', 'b'] })).toThrow(
+      BadRequestException,
+    );
+  });
+});
@@ -0,0 +1,35 @@
+import { BadRequestException } from '@nestjs/common';
+
+// Text fields sent along with the files of a multipart upload
+export interface UploadFields {
+  // Recorded on the file as the user that uploaded it
+  createById?: string;
+  // Folder below the client namespace the file is stored in
+  folder?: string;
+  // Exact path of the file, instead of a generated name
+  path?: string;
+  isPrivate: boolean;
+}
+
+function text(fields: Record<string, unknown>, name: string) {
+  const value = fields[name];
+  if (value === undefined || value === '') return undefined;
+  // A field sent twice arrives as an array
+  if (typeof value !== 'string') {
+    throw new BadRequestException(`${name} must be a single text field`);
+  }
+  return value;
+}
+
+/** Reads the upload fields of a parsed multipart body (`req.body`). */
+export function parseUploadFields(body: unknown): UploadFields {
+  const fields = (body ?? {}) as Record<string, unknown>;
+  // Form fields are strings: accept "true"/"1"
+  const flag = text(fields, 'private');
+  return {
+    createById: text(fields, 'createById'),
+    folder: text(fields, 'folder'),
+    path: text(fields, 'path'),
+    isPrivate: flag === 'true' || flag === '1',
+  };
+}
@@ -0,0 +1,44 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Receivers should reject signatures older than this, against replayed requests
+export const WEBHOOK_SIGNATURE_TOLERANCE = 300;
+
+/**
+ * Value of the X-Webhook-Signature header: `t=<unix seconds>,v1=<hex>` where
+ * the HMAC-SHA256 covers `<t>.<raw body>`.
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000),
+): string {
+  const signature = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/** Checks a signature header the way a receiver would. */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds = WEBHOOK_SIGNATURE_TOLERANCE,
+): boolean {
+  const parts = new Map(
+    header.split(',').map((part) => {
+      const index = part.indexOf('=');
+      return [part.substring(0, index).trim(), part.substring(index + 1)];
+    }),
+  );
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false;
+  const expected = Buffer.from(
+    signWebhookPayload(secret, body, timestamp).split('v1=')[1],
+    'hex',
+  );
+  const actual = Buffer.from(signature, 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,6 @@
+export interface BulkDeleteDto {
+  // Paths relative to the client namespace
+  paths?: string[];
+  // Instead of paths: the filters of GET /storage/list, e.g. { "prefix": "tmp", "uploadedTo": "2024-01-01" }
+  filter?: Record<string, string>;
+}
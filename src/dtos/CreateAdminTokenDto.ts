@@ -0,0 +1,6 @@
+import { AdminRole } from '../entities/AdminTokenRecord';
+
+export interface CreateAdminTokenDto {
+  name: string;
+  role: AdminRole;
+}
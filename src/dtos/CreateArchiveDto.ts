@@ -0,0 +1,8 @@
+export interface CreateArchiveDto {
+  // Files to include, stored under their full path
+  paths?: string[];
+  // Instead of paths: every file of this folder, stored relative to it
+  folder?: string;
+  // Archive file name, without ".zip"
+  name?: string;
+}
@@ -0,0 +1,10 @@
+import { CredentialScope } from '../entities/ClientCredential';
+
+export interface CreateClientCredentialDto {
+  name?: string;
+  // Defaults to every scope
+  scopes?: CredentialScope[];
+  // ISO 8601 date
+  expiresAt?: string | null;
+  allowedOrigins?: string[] | null;
+}
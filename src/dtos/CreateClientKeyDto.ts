@@ -1,4 +1,9 @@
+import { ImageTransformOptions } from '../entities/ImageTransformOptions';
+import { ClientPolicy } from '../entities/ClientPolicy';
+
 export interface CreateClientKeyDto {
-    name: string;
-    note?: string;
-  }
\ No newline at end of file
+  name: string;
+  note?: string;
+  imagePresets?: Record<string, ImageTransformOptions> | null;
+  policy?: ClientPolicy | null;
+}
@@ -0,0 +1,4 @@
+export interface CreateFolderDto {
+  // Folder path relative to the client namespace, e.g. "photos/2024"
+  path: string;
+}
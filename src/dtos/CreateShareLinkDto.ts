@@ -0,0 +1,12 @@
+export interface CreateShareLinkDto {
+  // Path of the file relative to the client namespace (as in StoredFile.url)
+  path: string;
+  // Lifetime in seconds, defaults to one hour
+  expiresIn?: number;
+  // The link stops working after its first successful download
+  singleUse?: boolean;
+  // Only this client IP may use the link
+  ip?: string;
+  // Serve with Content-Disposition: attachment
+  download?: boolean;
+}
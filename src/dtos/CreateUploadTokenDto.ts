@@ -0,0 +1,18 @@
+export interface CreateUploadTokenDto {
+  // Folder the file is stored in, relative to the client namespace
+  folder?: string;
+  // createById recorded on the file (checked against the client policy)
+  createById?: string;
+  // Largest accepted file in bytes
+  maxSize?: number;
+  // Accepted content types, e.g. ["image/png", "image/*"]
+  allowedMimeTypes?: string[];
+  // Lifetime in seconds, defaults to 15 minutes
+  expiresIn?: number;
+  // Store the file as private
+  private?: boolean;
+  // The token accepts a single upload
+  singleUse?: boolean;
+  // Receives a signed POST once the upload is stored
+  callbackUrl?: string;
+}
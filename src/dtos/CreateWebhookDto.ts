@@ -0,0 +1,8 @@
+import { WebhookEvent } from '../entities/WebhookSubscription';
+
+export interface CreateWebhookDto {
+  // http(s) URL receiving POST requests
+  url: string;
+  // Defaults to every event
+  events?: WebhookEvent[];
+}
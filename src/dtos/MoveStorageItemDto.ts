@@ -0,0 +1,6 @@
+export interface MoveStorageItemDto {
+  // Current path relative to the client namespace
+  from: string;
+  // New path; for files, a trailing "/" moves the file into that folder keeping its name
+  to: string;
+}
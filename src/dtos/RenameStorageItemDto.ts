@@ -0,0 +1,5 @@
+export interface RenameStorageItemDto {
+  path: string;
+  // New name, without any "/"; the item stays in its folder
+  name: string;
+}
@@ -0,0 +1,5 @@
+export interface RestoreFileVersionDto {
+  // Path of the versioned file, relative to the client namespace
+  path: string;
+  versionId: string;
+}
@@ -0,0 +1,4 @@
+export interface RestoreTrashedFileDto {
+  // Restore to this path, or into this folder when it ends with "/"; defaults to the original path
+  to?: string;
+}
@@ -1,5 +1,10 @@
+import { ImageTransformOptions } from '../entities/ImageTransformOptions';
+import { ClientPolicy } from '../entities/ClientPolicy';
+
 export interface UpdateClientKeyDto {
-    name?: string;
-    isActive?: boolean;
-    note?: string;
-  }
\ No newline at end of file
+  name?: string;
+  isActive?: boolean;
+  note?: string;
+  imagePresets?: Record<string, ImageTransformOptions> | null;
+  policy?: ClientPolicy | null;
+}
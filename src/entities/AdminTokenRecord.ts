@@ -0,0 +1,13 @@
+export type AdminRole = 'read' | 'full';
+
+export interface AdminTokenRecord {
+  id: number;
+  name: string;
+  // 'read' may only call GET endpoints of the admin API
+  role: AdminRole;
+  // First characters of the token, to recognise it in listings
+  prefix: string;
+  // SHA-256 of the token, hex encoded; the token itself is never stored
+  tokenHash: string;
+  createdAt: string;
+}
@@ -0,0 +1,30 @@
+export type AuditActor =
+  | {
+      type: 'client';
+      clientId: number;
+      // The credential the request authenticated with
+      credentialId: number | null;
+      name: string;
+    }
+  | { type: 'admin'; adminId: number | 'bootstrap'; name: string }
+  // Rejected before authenticating (e.g. a missing or invalid admin token)
+  | { type: 'anonymous' };
+
+// One audited request; the log is append-only
+export interface AuditEvent {
+  id: string;
+  timestamp: string;
+  actor: AuditActor;
+  // Client whose files or keys were acted on, when known
+  clientId: number | null;
+  // e.g. `file.upload`, `key.revoke`
+  action: string;
+  // File path, folder or `client:<id>` the action applied to
+  target: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  result: 'success' | 'failure';
+  // null when the connection closed before a response was sent
+  statusCode: number | null;
+  durationMs: number;
+}
@@ -0,0 +1,18 @@
+export type CredentialScope = 'read' | 'write' | 'delete' | 'list' | 'stats';
+
+// One key giving access to a client's namespace, limited to some scopes
+export interface ClientCredential {
+  // Unique within the client
+  id: number;
+  name: string;
+  // First characters of the key, used to look it up and to recognise it in listings
+  keyPrefix: string;
+  // Salted SHA-256 of the key (hex); the key itself is never stored
+  keySalt: string;
+  keyHash: string;
+  scopes: CredentialScope[];
+  expiresAt?: string | null;
+  // Browser origins (e.g. "https://app.example.com") the key may be used from; requests must send a matching Origin
+  allowedOrigins?: string[] | null;
+  createdAt: string;
+}
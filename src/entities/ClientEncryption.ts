@@ -0,0 +1,20 @@
+// A per-client data key, sealed with ENCRYPTION_MASTER_KEY
+export interface DataKey {
+  // Hex, written in the header of every object encrypted with the key
+  id: string;
+  // IV, tag and ciphertext of the AES-256 key, base64 encoded
+  wrappedKey: string;
+  createdAt: string;
+}
+
+// Encryption at rest of a client's files; older keys stay until nothing uses them
+export interface ClientEncryption {
+  activeKeyId: string;
+  keys: DataKey[];
+  enabledAt: string;
+  rotatedAt?: string | null;
+}
+
+export type PublicClientEncryption = Omit<ClientEncryption, 'keys'> & {
+  keys: Omit<DataKey, 'wrappedKey'>[];
+};
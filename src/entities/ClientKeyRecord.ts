@@ -1,10 +1,53 @@
+import { ImageTransformOptions } from './ImageTransformOptions';
+import { ClientPolicy } from './ClientPolicy';
+import { ClientCredential } from './ClientCredential';
+import { WebhookSubscription } from './WebhookSubscription';
+import { ClientEncryption, PublicClientEncryption } from './ClientEncryption';
+
+// A client (tenant) and the credentials that give access to its files
 export interface ClientKeyRecord {
-    id: number;
-    key: string;
-    name: string;
-    isActive: boolean;
-    revokedAt?: string | null;
-    note?: string | null;
-    createdAt: string;
-    updatedAt: string;
-  }
\ No newline at end of file
+  id: number;
+  // Directory holding the client's files; never changes
+  namespace: string;
+  credentials: ClientCredential[];
+  // Key material of records written by older versions, migrated to credentials at startup
+  key?: string;
+  keyPrefix?: string;
+  keySalt?: string;
+  keyHash?: string;
+  name: string;
+  isActive: boolean;
+  revokedAt?: string | null;
+  note?: string | null;
+  // Named image transforms; when set, /storage/image only accepts these
+  imagePresets?: Record<string, ImageTransformOptions> | null;
+  // Upload limits, see ClientPolicy
+  policy?: ClientPolicy | null;
+  webhooks?: WebhookSubscription[];
+  // Set once encryption at rest is enabled for the client's files
+  encryption?: ClientEncryption | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PublicClientCredential = Omit<
+  ClientCredential,
+  'keySalt' | 'keyHash'
+>;
+export type PublicWebhookSubscription = Omit<WebhookSubscription, 'secret'>;
+
+// What the admin API shows: no key material or webhook secrets
+export type PublicClientKeyRecord = Omit<
+  ClientKeyRecord,
+  | 'key'
+  | 'keyPrefix'
+  | 'keySalt'
+  | 'keyHash'
+  | 'credentials'
+  | 'webhooks'
+  | 'encryption'
+> & {
+  credentials: PublicClientCredential[];
+  webhooks: PublicWebhookSubscription[];
+  encryption: PublicClientEncryption | null;
+};
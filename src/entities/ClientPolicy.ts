@@ -0,0 +1,26 @@
+// Upload limits of a client key. Unset (or null) fields are unlimited.
+export interface ClientPolicy {
+  // Total bytes of all stored files
+  maxTotalBytes?: number | null;
+  maxFileSize?: number | null;
+  maxFileCount?: number | null;
+  // e.g. ["image/*", "application/pdf"]; checked against the declared and the sniffed type
+  allowedMimeTypes?: string[] | null;
+  // Lower-case, without the dot, e.g. ["png", "jpg"]
+  allowedExtensions?: string[] | null;
+  // Regular expression the whole createById must match; uploads must then carry one
+  createByIdPattern?: string | null;
+  // What happens to uploads a scanner flags: rejected with 422 (default) or stored in quarantine
+  infectedFiles?: 'reject' | 'quarantine' | null;
+  // Previous versions kept per versioned file; older ones are deleted
+  maxVersions?: number | null;
+  // Seconds a previous version is kept once it has been replaced
+  maxVersionAge?: number | null;
+  // Requests per minute (RATE_LIMIT_PER_MINUTE when unset)
+  maxRequestsPerMinute?: number | null;
+  // Bytes received / served per UTC day; requests are refused with 429 once reached
+  maxUploadBytesPerDay?: number | null;
+  maxDownloadBytesPerDay?: number | null;
+  // Keep the GPS position of photos out of their extracted metadata
+  stripGps?: boolean | null;
+}
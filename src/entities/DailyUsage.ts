@@ -0,0 +1,11 @@
+// Traffic of one client on one UTC day, for billing
+export interface DailyUsage {
+  // YYYY-MM-DD
+  date: string;
+  requests: number;
+  // Requests rejected with 429 (counted in `requests` too)
+  throttledRequests: number;
+  // Bytes received and sent on the wire, headers included
+  uploadedBytes: number;
+  servedBytes: number;
+}
@@ -0,0 +1,9 @@
+// Thumbnail generated in the background after a file is stored (see PreviewService)
+export interface FilePreview {
+  // unsupported: no tool to render it here (e.g. ffmpeg not installed) or the file is too large
+  status: 'pending' | 'ready' | 'failed' | 'unsupported';
+  kind: 'image' | 'pdf' | 'video';
+  // Why it failed or is unsupported
+  error?: string | null;
+  updatedAt: string;
+}
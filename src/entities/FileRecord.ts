@@ -0,0 +1,38 @@
+import { FilePreview } from './FilePreview';
+import { MediaMetadata } from './MediaMetadata';
+import { FileScanResult } from './FileScanResult';
+import { FileVersion } from './FileVersion';
+
+export interface FileRecord {
+  id: string;
+  // Path relative to the client namespace, e.g. "<createById>/<filename>" or "<folder>/<filename>"
+  path: string;
+  filename: string;
+  originalName: string;
+  // MIME type declared by the uploader
+  mimeType: string;
+  // MIME type sniffed from the file content, when recognised
+  detectedMimeType?: string | null;
+  size: number;
+  // SHA-256 of the content, hex encoded
+  checksum: string;
+  // Content is the shared blob `.blobs/<checksum>`; older files keep their bytes at `path`
+  blob?: boolean;
+  createById?: string | null;
+  // Not served through the public /storage-data/ URLs
+  isPrivate?: boolean;
+  // null for files stored before scanning was enabled
+  scan?: FileScanResult | null;
+  // Infected content kept aside in `.quarantine/<id>`; never served
+  quarantined?: boolean;
+  // Identifies the current content; unset for files stored before versioning
+  versionId?: string;
+  // Previous contents, newest first, for files uploaded to an explicit path
+  versions?: FileVersion[];
+  // Thumbnail state of the current content; unset when none is made for its type
+  preview?: FilePreview | null;
+  // Read from the content when it is stored; unset for files stored before metadata extraction
+  metadata?: MediaMetadata | null;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,9 @@
+// Outcome of the upload scanners (see UPLOAD_SCANNERS) for one file
+export interface FileScanResult {
+  status: 'clean' | 'infected';
+  // Scanners that inspected the file, e.g. ["magic", "clamd"]
+  scanners: string[];
+  // Signature names or reasons reported by the scanners, empty when clean
+  threats: string[];
+  scannedAt: string;
+}
@@ -0,0 +1,16 @@
+import { FileScanResult } from './FileScanResult';
+
+// A previous content of a versioned file; its bytes stay in the blob `checksum`
+export interface FileVersion {
+  versionId: string;
+  originalName: string;
+  mimeType: string;
+  detectedMimeType?: string | null;
+  size: number;
+  checksum: string;
+  scan?: FileScanResult | null;
+  // When this version was uploaded
+  createdAt: string;
+  // When a newer version replaced it; retention ages are counted from here
+  supersededAt: string;
+}
@@ -0,0 +1,12 @@
+export type ImageFit = 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'avif';
+
+export interface ImageTransformOptions {
+  width?: number;
+  height?: number;
+  fit?: ImageFit;
+  // Output format, defaults to the source format when it can be encoded
+  format?: ImageFormat;
+  // Encoder quality, 1-100
+  quality?: number;
+}
@@ -0,0 +1,44 @@
+export interface GpsPosition {
+  // Decimal degrees, negative south / west
+  latitude: number;
+  longitude: number;
+  // Meters, negative below sea level
+  altitude: number | null;
+}
+
+export interface ExifData {
+  make: string | null;
+  model: string | null;
+  lens: string | null;
+  software: string | null;
+  // EXIF orientation, 1-8
+  orientation: number | null;
+  // Camera local time, e.g. "2024-05-01T13:45:10" (EXIF has no time zone)
+  takenAt: string | null;
+  // null when absent, or dropped by the client's `stripGps` policy
+  gps: GpsPosition | null;
+}
+
+// Properties read from a file's content when it is stored (see MediaMetadataService)
+export interface MediaMetadata {
+  // Images as displayed (EXIF orientation applied), videos, PDFs' first page in points
+  width?: number;
+  height?: number;
+  // Images: e.g. "jpeg"; audio / video: the container, e.g. "mov,mp4,m4a,3gp,3g2,mj2"
+  format?: string;
+  exif?: ExifData | null;
+  // Audio / video, in seconds
+  duration?: number;
+  // Bits per second
+  bitRate?: number;
+  videoCodec?: string;
+  frameRate?: number;
+  audioCodec?: string;
+  sampleRate?: number;
+  channels?: number;
+  pageCount?: number;
+  title?: string | null;
+  // Part of the metadata could not be read, e.g. "ffprobe is not installed"
+  error?: string | null;
+  extractedAt: string;
+}
@@ -0,0 +1,21 @@
+// Claims carried by a signed share token (short keys keep URLs compact)
+export interface ShareLinkPayload {
+  // Purpose, so that an upload token never passes for a share link
+  typ: 'sl';
+  // Client key record id
+  k: number;
+  // Id of the credential that minted the link
+  c: number;
+  // File path relative to the client namespace
+  p: string;
+  // Expiry, unix seconds
+  e: number;
+  // SHA-256 of the content the link was minted for; links without one predate it
+  h?: string;
+  // Nonce of a single-use link
+  n?: string;
+  // Bound client IP
+  ip?: string;
+  // Force download
+  d?: 1;
+}
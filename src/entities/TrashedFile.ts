@@ -0,0 +1,18 @@
+import { FileRecord } from './FileRecord';
+
+// Credential that deleted a file
+export interface TrashActor {
+  credentialId: number;
+  name: string;
+}
+
+// A deleted file, kept with its content until it is restored or purged
+export interface TrashedFile {
+  // Id of the trash entry, not of the file
+  id: string;
+  // The file entry as it was when deleted
+  record: FileRecord;
+  deletedAt: string;
+  // null when the deletion did not come from a client credential
+  deletedBy: TrashActor | null;
+}
@@ -0,0 +1,21 @@
+export interface UploadSession {
+  id: string;
+  clientKey: string;
+  // Total size announced at creation (tus Upload-Length)
+  length: number;
+  originalName: string;
+  mimeType: string;
+  createById?: string | null;
+  // Folder the file is stored in, from the `folder` metadata
+  folder?: string | null;
+  // Exact path the file is stored (and versioned) at, from the `path` metadata
+  path?: string | null;
+  isPrivate?: boolean;
+  // Raw tus Upload-Metadata pairs, decoded
+  metadata: Record<string, string>;
+  createdAt: string;
+  expiresAt: string;
+  completedAt?: string | null;
+  // Path of the promoted file relative to the client namespace, once completed
+  filePath?: string | null;
+}
@@ -0,0 +1,27 @@
+// Claims carried by a signed upload token (short keys keep URLs compact)
+export interface UploadTokenPayload {
+  // Purpose, so that a share link never passes for an upload token
+  typ: 'up';
+  // Token id, also the nonce of a single-use token
+  i: string;
+  // Client key record id
+  k: number;
+  // Id of the credential that minted the token
+  c: number;
+  // Expiry, unix seconds
+  e: number;
+  // Folder the file is stored in
+  f?: string;
+  // createById recorded on the file
+  u?: string;
+  // Largest accepted file, bytes
+  m?: number;
+  // Accepted content types (`image/png`, `image/*`)
+  t?: string[];
+  // Store the file as private
+  p?: 1;
+  // Accepts a single upload
+  s?: 1;
+  // URL notified once the upload is stored
+  cb?: string;
+}
@@ -0,0 +1,35 @@
+import { WebhookEvent } from './WebhookSubscription';
+
+export interface WebhookDeliveryAttempt {
+  at: string;
+  // null when no response was received
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+// One event sent to one subscription, with every attempt made so far
+export interface WebhookDelivery {
+  id: string;
+  clientId: number;
+  webhookId: number;
+  event: WebhookEvent;
+  // The JSON body; its `id` stays the same across retries and replays
+  payload: WebhookPayload;
+  url: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt: string | null;
+  // Delivery this one re-sends, for replays
+  replayOf?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEvent;
+  createdAt: string;
+  client: { id: number; name: string };
+  data: Record<string, unknown>;
+}
@@ -0,0 +1,13 @@
+export type WebhookEvent = 'file.uploaded' | 'file.deleted' | 'quota.threshold';
+
+// An HTTP endpoint of a client notified about storage events
+export interface WebhookSubscription {
+  // Unique within the client
+  id: number;
+  url: string;
+  events: WebhookEvent[];
+  // HMAC-SHA256 key of the X-Webhook-Signature header
+  secret: string;
+  isActive: boolean;
+  createdAt: string;
+}
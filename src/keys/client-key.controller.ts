@@ -1,46 +1,114 @@
-import { Body, Controller, Delete, Get, Param, ParseIntPipe, Patch, Post } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
 import { ClientKeyService } from './client-key.service';
+import { AdminGuard } from '../admin/admin.guard';
+import { RequireAdminRole } from '../admin/admin-role.decorator';
+import { AuditGuard, AuditResultInterceptor } from '../audit/audit.guard';
+import { Audit } from '../audit/audit.decorator';
+import { clientKeyTarget, newCredentialTarget } from '../audit/audit-targets';
 import type { CreateClientKeyDto } from '../dtos/CreateClientKeyDto';
 import type { UpdateClientKeyDto } from '../dtos/UpdateClientKeyDto';
+import type { CreateClientCredentialDto } from '../dtos/CreateClientCredentialDto';
 
 @Controller('admin/client-keys')
+@UseGuards(AuditGuard, AdminGuard)
+@UseInterceptors(AuditResultInterceptor)
 export class ClientKeyController {
   constructor(private readonly service: ClientKeyService) {}
 
   @Get()
+  @Audit('key.list', clientKeyTarget)
+  @RequireAdminRole('read')
   async findAll() {
     return this.service.findAll();
   }
 
   @Post()
+  @Audit('key.create', clientKeyTarget)
   async create(@Body() dto: CreateClientKeyDto) {
     return this.service.create(dto);
   }
 
   @Get(':id')
+  @Audit('key.read', clientKeyTarget)
+  @RequireAdminRole('read')
   async findOne(@Param('id', ParseIntPipe) id: number) {
     return this.service.findOne(id);
   }
 
   @Patch(':id')
-  async update(@Param('id', ParseIntPipe) id: number, @Body() dto: UpdateClientKeyDto) {
+  @Audit('key.update', clientKeyTarget)
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateClientKeyDto,
+  ) {
     return this.service.update(id, dto);
   }
 
   @Post(':id/revoke')
+  @Audit('key.revoke', clientKeyTarget)
   async revoke(@Param('id', ParseIntPipe) id: number) {
     return this.service.revoke(id);
   }
 
   @Post(':id/rotate')
+  @Audit('key.rotate', clientKeyTarget)
   async rotate(@Param('id', ParseIntPipe) id: number) {
     return this.service.rotate(id);
   }
 
   @Delete(':id')
+  @Audit('key.delete', clientKeyTarget)
   async remove(@Param('id', ParseIntPipe) id: number) {
     return this.service.remove(id);
   }
-}
 
+  @Get(':id/credentials')
+  @Audit('credential.list', clientKeyTarget)
+  @RequireAdminRole('read')
+  async listCredentials(@Param('id', ParseIntPipe) id: number) {
+    const client = await this.service.findOne(id);
+    if (!client) throw new NotFoundException('Client not found');
+    return client.credentials;
+  }
+
+  @Post(':id/credentials')
+  @Audit('credential.create', newCredentialTarget)
+  async addCredential(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: CreateClientCredentialDto,
+  ) {
+    return this.service.addCredential(id, dto);
+  }
+
+  @Post(':id/credentials/:credentialId/rotate')
+  @Audit('credential.rotate', clientKeyTarget)
+  async rotateCredential(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('credentialId', ParseIntPipe) credentialId: number,
+  ) {
+    return this.service.rotateCredential(id, credentialId);
+  }
 
+  @Delete(':id/credentials/:credentialId')
+  @Audit('credential.delete', clientKeyTarget)
+  async removeCredential(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('credentialId', ParseIntPipe) credentialId: number,
+  ) {
+    if (!(await this.service.removeCredential(id, credentialId)))
+      throw new NotFoundException('Credential not found');
+    return { success: true };
+  }
+}
@@ -1,12 +1,14 @@
 import { Module } from '@nestjs/common';
 import { ClientKeyService } from './client-key.service';
 import { ClientKeyController } from './client-key.controller';
+import { AdminModule } from '../admin/admin.module';
+import { AuditModule } from '../audit/audit.module';
+import { clientKeyStoreProvider } from './stores/client-key-store.provider';
 
 @Module({
-  providers: [ClientKeyService],
+  imports: [AdminModule, AuditModule],
+  providers: [ClientKeyService, clientKeyStoreProvider],
   controllers: [ClientKeyController],
   exports: [ClientKeyService],
 })
 export class ClientKeyModule {}
-
-
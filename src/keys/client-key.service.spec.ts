@@ -0,0 +1,106 @@
+import { ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Request, Response } from 'express';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClientResolverMiddleware } from '../common/middleware/client-resolver.middleware';
+import { ClientKeyService } from './client-key.service';
+import { SqliteClientKeyStore } from './stores/sqlite-client-key.store';
+
+describe('ClientKeyService', () => {
+  let dir: string;
+  let store: SqliteClientKeyStore;
+  let service: ClientKeyService;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'client-keys-'));
+    store = new SqliteClientKeyStore(path.join(dir, 'client-keys.db'));
+    service = new ClientKeyService(new ConfigService({}), store);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    store.onModuleDestroy();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('stores keys only as salted hashes', async () => {
+    const first = await service.create({ name: 'a' });
+    const second = await service.create({ name: 'b' });
+    const stored = await store.findAll();
+    expect(JSON.stringify(stored)).not.toContain(first.key);
+    expect(JSON.stringify(stored)).not.toContain(second.key);
+    const [a, b] = stored.map((record) => record.credentials[0]);
+    expect(a.keyPrefix).toHaveLength(8);
+    expect(a.keySalt).not.toBe(b.keySalt);
+    expect(a).not.toHaveProperty('key');
+
+    const resolved = await service.resolveKey(first.key);
+    expect(resolved?.client.id).toBe(first.id);
+  });
+
+  it('refuses a key that only shares the prefix of a credential', async () => {
+    const { key } = await service.create({ name: 'a' });
+    const forged = key.substring(0, 8) + 'f'.repeat(key.length - 8);
+    expect(forged).not.toBe(key);
+    await expect(service.resolveKey(forged)).resolves.toBeUndefined();
+    await expect(service.resolveKey(key.substring(0, 8))).resolves.toBe(
+      undefined,
+    );
+  });
+
+  it('refuses expired credentials', async () => {
+    const { id } = await service.create({ name: 'a' });
+    const expiresAt = new Date(Date.now() + 60 * 1000).toISOString();
+    const { key } = await service.addCredential(id, { expiresAt });
+    await expect(service.resolveKey(key)).resolves.toBeDefined();
+
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse(expiresAt) + 1);
+    await expect(service.resolveKey(key)).resolves.toBeUndefined();
+  });
+
+  it('refuses credentials of revoked clients and removed credentials', async () => {
+    const client = await service.create({ name: 'a' });
+    const extra = await service.addCredential(client.id, { scopes: ['read'] });
+    await expect(service.resolveKey(extra.key)).resolves.toBeDefined();
+
+    await service.removeCredential(client.id, extra.id);
+    await expect(service.resolveKey(extra.key)).resolves.toBeUndefined();
+    await service.revoke(client.id);
+    await expect(service.resolveKey(client.key)).resolves.toBeUndefined();
+  });
+
+  it('refuses credentials used from an origin they do not allow', async () => {
+    const { id } = await service.create({ name: 'a' });
+    const { key } = await service.addCredential(id, {
+      allowedOrigins: ['https://app.example.com'],
+    });
+    const middleware = new ClientResolverMiddleware(
+      new ConfigService({}),
+      service,
+    );
+    const request = (origin?: string) =>
+      ({
+        baseUrl: '/storage',
+        headers: { 'x-client-key': key },
+        query: {},
+        get: () => origin,
+      }) as unknown as Request;
+
+    for (const origin of ['https://evil.example.com', undefined]) {
+      const next = jest.fn();
+      await expect(
+        middleware.use(request(origin), {} as Response, next),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(next).not.toHaveBeenCalled();
+    }
+    const next = jest.fn();
+    const allowed = request('https://app.example.com');
+    await middleware.use(allowed, {} as Response, next);
+    expect(next).toHaveBeenCalled();
+    expect(allowed.clientCredential?.allowedOrigins).toEqual([
+      'https://app.example.com',
+    ]);
+  });
+});
@@ -1,110 +1,592 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { promises as fs } from 'fs';
-import * as path from 'path';
-import { ClientKeyRecord } from '../entities/ClientKeyRecord';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import {
+  ClientKeyRecord,
+  PublicClientCredential,
+  PublicClientKeyRecord,
+  PublicWebhookSubscription,
+} from '../entities/ClientKeyRecord';
+import {
+  ClientCredential,
+  CredentialScope,
+} from '../entities/ClientCredential';
+import {
+  WebhookEvent,
+  WebhookSubscription,
+} from '../entities/WebhookSubscription';
+import {
+  ClientEncryption,
+  PublicClientEncryption,
+} from '../entities/ClientEncryption';
 import { CreateClientKeyDto } from 'src/dtos/CreateClientKeyDto';
 import { UpdateClientKeyDto } from 'src/dtos/UpdateClientKeyDto';
+import { CreateClientCredentialDto } from 'src/dtos/CreateClientCredentialDto';
+import { CreateWebhookDto } from 'src/dtos/CreateWebhookDto';
+import { validateImagePresets } from '../common/utils/image-transform';
+import { validateClientPolicy } from '../common/utils/client-policy';
+import { CLIENT_KEY_STORE } from './stores/client-key-store.interface';
+import type { ClientKeyStore } from './stores/client-key-store.interface';
 
+const UPDATABLE_FIELDS = ['name', 'isActive', 'note', 'imagePresets', 'policy'];
+const KEY_PREFIX_LENGTH = 8;
+export const CREDENTIAL_SCOPES: readonly CredentialScope[] = [
+  'read',
+  'write',
+  'delete',
+  'list',
+  'stats',
+];
 
+// Returned when a key is issued only: the key cannot be recovered afterwards
+export type IssuedClientKey = PublicClientKeyRecord & { key: string };
+export type IssuedClientCredential = PublicClientCredential & { key: string };
+export type IssuedWebhookSubscription = PublicWebhookSubscription & {
+  secret: string;
+};
+export const WEBHOOK_EVENTS: readonly WebhookEvent[] = [
+  'file.uploaded',
+  'file.deleted',
+  'quota.threshold',
+];
+
+export interface ResolvedClientKey {
+  client: ClientKeyRecord;
+  credential: ClientCredential;
+}
+
+interface Snapshot {
+  revision: string;
+  records: ClientKeyRecord[];
+  byPrefix: Map<string, ResolvedClientKey[]>;
+}
+
+export function isCredentialExpired(
+  credential: Pick<ClientCredential, 'expiresAt'>,
+): boolean {
+  return (
+    !!credential.expiresAt &&
+    new Date(credential.expiresAt).getTime() <= Date.now()
+  );
+}
+
+/**
+ * Clients and their credentials live in the ClientKeyStore; keys are stored as
+ * salted SHA-256 hashes plus a short prefix. Keys are 256-bit random values, so a fast hash is enough; the salt
+ * keeps equal keys from producing equal hashes. Records are cached and
+ * reloaded whenever the store's revision changes, so revocations by another
+ * worker apply on the next request.
+ */
 @Injectable()
-export class ClientKeyService {
-  private readonly storeFile: string;
+export class ClientKeyService implements OnModuleInit {
+  private readonly logger = new Logger(ClientKeyService.name);
+  private readonly maxImageDimension: number;
+  private snapshot?: Snapshot;
+  // SHA-256 of keys already checked against the current snapshot
+  private readonly verified = new Map<string, ResolvedClientKey>();
 
-  constructor(private readonly configService: ConfigService) {
-    const storageRoot = this.configService.get<string>('STORAGE_ROOT') || 'storage';
-    this.storeFile = path.resolve(process.cwd(), storageRoot, '..', 'client-keys.json');
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(CLIENT_KEY_STORE) private readonly store: ClientKeyStore,
+  ) {
+    this.maxImageDimension = Number(
+      this.configService.get<string>('IMAGE_MAX_DIMENSION') || 4096,
+    );
   }
 
-  private async ensureDir() {
-    await fs.mkdir(path.dirname(this.storeFile), { recursive: true });
+  // Turns the single key of records from older versions (plaintext or hashed) into a full-scope credential
+  async onModuleInit() {
+    let migrated = 0;
+    await this.store.updateAll((list) =>
+      list
+        .filter((x) => !Array.isArray(x.credentials))
+        .map((record) => {
+          migrated++;
+          const { key, keyPrefix, keySalt, keyHash, ...rest } = record;
+          const hashed =
+            typeof key === 'string'
+              ? this.hashKey(key)
+              : { keyPrefix: keyPrefix!, keySalt: keySalt!, keyHash: keyHash! };
+          const credential: ClientCredential = {
+            id: 1,
+            name: 'default',
+            ...hashed,
+            scopes: [...CREDENTIAL_SCOPES],
+            expiresAt: null,
+            allowedOrigins: null,
+            createdAt: record.createdAt,
+          };
+          // Files of plaintext-era clients live under their key
+          return {
+            ...rest,
+            namespace: record.namespace ?? key,
+            credentials: [credential],
+          } as ClientKeyRecord;
+        }),
+    );
+    if (migrated)
+      this.logger.log(
+        `Migrated ${migrated} client key record(s) to credentials`,
+      );
   }
 
-  private async readAll(): Promise<ClientKeyRecord[]> {
-    try {
-      const raw = await fs.readFile(this.storeFile, 'utf8');
-      const list = JSON.parse(raw) as ClientKeyRecord[];
-      return Array.isArray(list) ? list : [];
-    } catch {
-      return [];
+  private async load(): Promise<Snapshot> {
+    const revision = await this.store.revision();
+    if (this.snapshot?.revision === revision) return this.snapshot;
+    const records = await this.store.findAll();
+    const byPrefix = new Map<string, ResolvedClientKey[]>();
+    for (const client of records) {
+      for (const credential of client.credentials ?? []) {
+        byPrefix.set(credential.keyPrefix, [
+          ...(byPrefix.get(credential.keyPrefix) ?? []),
+          { client, credential },
+        ]);
+      }
     }
+    this.verified.clear();
+    this.snapshot = { revision, records, byPrefix };
+    return this.snapshot;
   }
 
-  private async writeAll(list: ClientKeyRecord[]): Promise<void> {
-    await this.ensureDir();
-    await fs.writeFile(this.storeFile, JSON.stringify(list, null, 2), 'utf8');
+  private generateKey(): string {
+    return randomBytes(32).toString('hex');
   }
 
-  private generateKey(): string {
-    const bytes = new Uint8Array(32);
-    for (let i = 0; i < bytes.length; i++) bytes[i] = Math.floor(Math.random() * 256);
-    return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+  private hashKey(key: string, salt = randomBytes(16).toString('hex')) {
+    return {
+      keyPrefix: key.substring(0, KEY_PREFIX_LENGTH),
+      keySalt: salt,
+      keyHash: createHash('sha256').update(salt).update(key).digest('hex'),
+    };
+  }
+
+  private matches(credential: ClientCredential, key: string): boolean {
+    const expected = Buffer.from(credential.keyHash, 'hex');
+    const actual = Buffer.from(
+      this.hashKey(key, credential.keySalt).keyHash,
+      'hex',
+    );
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+
+  private toPublicCredential(
+    credential: ClientCredential,
+  ): PublicClientCredential {
+    const copy: Partial<ClientCredential> = { ...credential };
+    delete copy.keySalt;
+    delete copy.keyHash;
+    return copy as PublicClientCredential;
+  }
+
+  private toPublic(record: ClientKeyRecord): PublicClientKeyRecord {
+    const copy: Partial<ClientKeyRecord> = { ...record };
+    delete copy.key;
+    delete copy.keyPrefix;
+    delete copy.keySalt;
+    delete copy.keyHash;
+    return {
+      ...copy,
+      credentials: (record.credentials ?? []).map((x) =>
+        this.toPublicCredential(x),
+      ),
+      webhooks: (record.webhooks ?? []).map((x) => this.toPublicWebhook(x)),
+      encryption: record.encryption
+        ? this.toPublicEncryption(record.encryption)
+        : null,
+    } as PublicClientKeyRecord;
+  }
+
+  toPublicEncryption(encryption: ClientEncryption): PublicClientEncryption {
+    return {
+      ...encryption,
+      keys: encryption.keys.map((key) => ({
+        id: key.id,
+        createdAt: key.createdAt,
+      })),
+    };
   }
 
-  async create(dto: CreateClientKeyDto): Promise<ClientKeyRecord> {
-    const list = await this.readAll();
+  private toPublicWebhook(
+    webhook: WebhookSubscription,
+  ): PublicWebhookSubscription {
+    const copy: Partial<WebhookSubscription> = { ...webhook };
+    delete copy.secret;
+    return copy as PublicWebhookSubscription;
+  }
+
+  private validateCredential(dto: CreateClientCredentialDto) {
+    if (!dto || typeof dto !== 'object' || Array.isArray(dto)) {
+      throw new BadRequestException('Body must be an object');
+    }
+    if (
+      dto.name !== undefined &&
+      (typeof dto.name !== 'string' || !dto.name.trim())
+    ) {
+      throw new BadRequestException('name must be a non-empty string');
+    }
+    const scopes = dto.scopes ?? [...CREDENTIAL_SCOPES];
+    if (
+      !Array.isArray(scopes) ||
+      !scopes.length ||
+      scopes.some((scope) => !CREDENTIAL_SCOPES.includes(scope))
+    ) {
+      throw new BadRequestException(
+        `scopes must be a non-empty subset of ${CREDENTIAL_SCOPES.join(', ')}`,
+      );
+    }
+    let expiresAt: string | null = null;
+    if (dto.expiresAt !== undefined && dto.expiresAt !== null) {
+      const date =
+        typeof dto.expiresAt === 'string'
+          ? new Date(dto.expiresAt)
+          : new Date(NaN);
+      if (Number.isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+        throw new BadRequestException(
+          'expiresAt must be a future ISO 8601 date',
+        );
+      }
+      expiresAt = date.toISOString();
+    }
+    let allowedOrigins: string[] | null = null;
+    if (dto.allowedOrigins !== undefined && dto.allowedOrigins !== null) {
+      if (!Array.isArray(dto.allowedOrigins) || !dto.allowedOrigins.length) {
+        throw new BadRequestException(
+          'allowedOrigins must be a non-empty array or null',
+        );
+      }
+      allowedOrigins = dto.allowedOrigins.map((origin) => {
+        let url: URL | undefined;
+        try {
+          url = typeof origin === 'string' ? new URL(origin) : undefined;
+        } catch {
+          url = undefined;
+        }
+        if (
+          !url ||
+          !['http:', 'https:'].includes(url.protocol) ||
+          url.origin !== origin.replace(/\/$/, '')
+        ) {
+          throw new BadRequestException(
+            `Invalid origin "${String(origin)}", expected e.g. https://app.example.com`,
+          );
+        }
+        return url.origin;
+      });
+    }
+    return {
+      name: dto.name?.trim() || 'key',
+      scopes: [...new Set(scopes)],
+      expiresAt,
+      allowedOrigins,
+    };
+  }
+
+  private issueCredential(
+    client: Pick<ClientKeyRecord, 'credentials'>,
+    dto: CreateClientCredentialDto,
+  ) {
+    const key = this.generateKey();
+    const credential: ClientCredential = {
+      id:
+        (client.credentials ?? []).reduce((max, x) => Math.max(max, x.id), 0) +
+        1,
+      ...this.validateCredential(dto),
+      ...this.hashKey(key),
+      createdAt: new Date().toISOString(),
+    };
+    return { credential, key };
+  }
+
+  async create(dto: CreateClientKeyDto): Promise<IssuedClientKey> {
     const now = new Date().toISOString();
-    const id = list.length ? Math.max(...list.map(x => x.id)) + 1 : 1;
-    const record: ClientKeyRecord = {
-      id,
-      key: this.generateKey(),
+    const { credential, key } = this.issueCredential(
+      { credentials: [] },
+      { name: 'default' },
+    );
+    const record = await this.store.insert({
+      namespace: randomBytes(16).toString('hex'),
+      credentials: [credential],
       name: dto.name,
       isActive: true,
       revokedAt: null,
       note: dto.note ?? null,
+      imagePresets: validateImagePresets(
+        dto.imagePresets ?? null,
+        this.maxImageDimension,
+      ),
+      policy: validateClientPolicy(dto.policy ?? null),
       createdAt: now,
       updatedAt: now,
-    };
-    list.unshift(record);
-    await this.writeAll(list);
-    return record;
+    });
+    return { ...this.toPublic(record), key };
   }
 
-  async findAll(): Promise<ClientKeyRecord[]> {
-    return this.readAll();
+  async findAll(): Promise<PublicClientKeyRecord[]> {
+    return (await this.load()).records.map((record) => this.toPublic(record));
   }
 
-  async findOne(id: number): Promise<ClientKeyRecord | undefined> {
-    const list = await this.readAll();
-    return list.find(x => x.id === id);
+  async findOne(id: number): Promise<PublicClientKeyRecord | undefined> {
+    const record = await this.findById(id);
+    return record && this.toPublic(record);
   }
 
-  async update(id: number, dto: UpdateClientKeyDto): Promise<ClientKeyRecord | undefined> {
-    const list = await this.readAll();
-    const idx = list.findIndex(x => x.id === id);
-    if (idx === -1) return undefined;
-    const now = new Date().toISOString();
-    list[idx] = { ...list[idx], ...dto, updatedAt: now };
-    await this.writeAll(list);
-    return list[idx];
+  async update(
+    id: number,
+    dto: UpdateClientKeyDto,
+  ): Promise<PublicClientKeyRecord | undefined> {
+    const changes = this.validateUpdate(dto);
+    const updated = await this.store.update(id, (record) => {
+      const now = new Date().toISOString();
+      // Deactivating a client revokes it; reactivating clears the revocation
+      let revokedAt = record.revokedAt ?? null;
+      if (changes.isActive === false && record.isActive) revokedAt = now;
+      if (changes.isActive === true) revokedAt = null;
+      return { ...record, ...changes, revokedAt, updatedAt: now };
+    });
+    return updated && this.toPublic(updated);
   }
 
-  async revoke(id: number): Promise<ClientKeyRecord | undefined> {
-    return this.update(id, { isActive: false, note: undefined });
+  // Only known fields with the right types may be patched (never id or key)
+  private validateUpdate(dto: UpdateClientKeyDto): UpdateClientKeyDto {
+    if (!dto || typeof dto !== 'object' || Array.isArray(dto)) {
+      throw new BadRequestException('Body must be an object');
+    }
+    const unknown = Object.keys(dto).filter(
+      (key) => !UPDATABLE_FIELDS.includes(key),
+    );
+    if (unknown.length) {
+      throw new BadRequestException(
+        `Fields cannot be updated: ${unknown.join(', ')}`,
+      );
+    }
+    if (
+      dto.name !== undefined &&
+      (typeof dto.name !== 'string' || !dto.name.trim())
+    ) {
+      throw new BadRequestException('name must be a non-empty string');
+    }
+    if (dto.isActive !== undefined && typeof dto.isActive !== 'boolean') {
+      throw new BadRequestException('isActive must be a boolean');
+    }
+    if (
+      dto.note !== undefined &&
+      dto.note !== null &&
+      typeof dto.note !== 'string'
+    ) {
+      throw new BadRequestException('note must be a string');
+    }
+    const changes = { ...dto };
+    if (dto.imagePresets !== undefined) {
+      changes.imagePresets = validateImagePresets(
+        dto.imagePresets,
+        this.maxImageDimension,
+      );
+    }
+    if (dto.policy !== undefined) {
+      changes.policy = validateClientPolicy(dto.policy);
+    }
+    return changes;
   }
 
-  async rotate(id: number): Promise<ClientKeyRecord | undefined> {
-    const list = await this.readAll();
-    const idx = list.findIndex(x => x.id === id);
-    if (idx === -1) return undefined;
-    const now = new Date().toISOString();
-    list[idx] = { ...list[idx], key: this.generateKey(), isActive: true, revokedAt: null, updatedAt: now };
-    await this.writeAll(list);
-    return list[idx];
+  async revoke(id: number): Promise<PublicClientKeyRecord | undefined> {
+    return this.update(id, { isActive: false });
+  }
+
+  // Replaces every credential of the client with one new full-scope key; the files stay where they are
+  async rotate(id: number): Promise<IssuedClientKey | undefined> {
+    const { credential, key } = this.issueCredential(
+      { credentials: [] },
+      { name: 'default' },
+    );
+    const updated = await this.store.update(id, (record) => ({
+      ...record,
+      credentials: [credential],
+      isActive: true,
+      revokedAt: null,
+      updatedAt: new Date().toISOString(),
+    }));
+    return updated && { ...this.toPublic(updated), key };
+  }
+
+  async addCredential(
+    id: number,
+    dto: CreateClientCredentialDto,
+  ): Promise<IssuedClientCredential> {
+    let issued: { credential: ClientCredential; key: string } | undefined;
+    await this.store.update(id, (record) => {
+      issued = this.issueCredential(record, dto);
+      return {
+        ...record,
+        credentials: [...record.credentials, issued.credential],
+        updatedAt: new Date().toISOString(),
+      };
+    });
+    if (!issued) throw new NotFoundException('Client not found');
+    return { ...this.toPublicCredential(issued.credential), key: issued.key };
+  }
+
+  // New key for one credential, keeping its scopes, expiry and origins
+  async rotateCredential(
+    id: number,
+    credentialId: number,
+  ): Promise<IssuedClientCredential> {
+    const key = this.generateKey();
+    const hashed = this.hashKey(key);
+    let rotated: ClientCredential | undefined;
+    await this.store.update(id, (record) => {
+      const credential = record.credentials.find((x) => x.id === credentialId);
+      if (!credential) return record;
+      rotated = { ...credential, ...hashed };
+      return {
+        ...record,
+        credentials: record.credentials.map((x) =>
+          x.id === credentialId ? rotated! : x,
+        ),
+        updatedAt: new Date().toISOString(),
+      };
+    });
+    if (!rotated) throw new NotFoundException('Credential not found');
+    return { ...this.toPublicCredential(rotated), key };
+  }
+
+  async removeCredential(id: number, credentialId: number): Promise<boolean> {
+    let removed = false;
+    await this.store.update(id, (record) => {
+      if (!record.credentials.some((x) => x.id === credentialId)) return record;
+      removed = true;
+      return {
+        ...record,
+        credentials: record.credentials.filter((x) => x.id !== credentialId),
+        updatedAt: new Date().toISOString(),
+      };
+    });
+    return removed;
+  }
+
+  async addWebhook(
+    id: number,
+    dto: CreateWebhookDto,
+  ): Promise<IssuedWebhookSubscription> {
+    if (!dto || typeof dto !== 'object' || Array.isArray(dto)) {
+      throw new BadRequestException('Body must be an object');
+    }
+    let url: URL | undefined;
+    try {
+      url = typeof dto.url === 'string' ? new URL(dto.url) : undefined;
+    } catch {
+      url = undefined;
+    }
+    if (!url || !['http:', 'https:'].includes(url.protocol)) {
+      throw new BadRequestException('url must be an http(s) URL');
+    }
+    const events = dto.events ?? [...WEBHOOK_EVENTS];
+    if (
+      !Array.isArray(events) ||
+      !events.length ||
+      events.some((event) => !WEBHOOK_EVENTS.includes(event))
+    ) {
+      throw new BadRequestException(
+        `events must be a non-empty subset of ${WEBHOOK_EVENTS.join(', ')}`,
+      );
+    }
+    const secret = `whsec_${randomBytes(32).toString('base64url')}`;
+    let webhook: WebhookSubscription | undefined;
+    const updated = await this.store.update(id, (record) => {
+      const webhooks = record.webhooks ?? [];
+      webhook = {
+        id: webhooks.reduce((max, x) => Math.max(max, x.id), 0) + 1,
+        url: url.toString(),
+        events: [...new Set(events)],
+        secret,
+        isActive: true,
+        createdAt: new Date().toISOString(),
+      };
+      return {
+        ...record,
+        webhooks: [...webhooks, webhook],
+        updatedAt: new Date().toISOString(),
+      };
+    });
+    if (!updated || !webhook) throw new NotFoundException('Client not found');
+    return { ...this.toPublicWebhook(webhook), secret };
+  }
+
+  async removeWebhook(id: number, webhookId: number): Promise<boolean> {
+    let removed = false;
+    await this.store.update(id, (record) => {
+      if (!(record.webhooks ?? []).some((x) => x.id === webhookId))
+        return record;
+      removed = true;
+      return {
+        ...record,
+        webhooks: (record.webhooks ?? []).filter((x) => x.id !== webhookId),
+        updatedAt: new Date().toISOString(),
+      };
+    });
+    return removed;
+  }
+
+  /** Replaces the encryption settings of a client, computed from the current ones. */
+  async updateEncryption(
+    id: number,
+    change: (current: ClientEncryption | null) => ClientEncryption | null,
+  ): Promise<ClientKeyRecord> {
+    const updated = await this.store.update(id, (record) => ({
+      ...record,
+      encryption: change(record.encryption ?? null),
+      updatedAt: new Date().toISOString(),
+    }));
+    if (!updated) throw new NotFoundException('Client not found');
+    return updated;
   }
 
   async remove(id: number): Promise<boolean> {
-    const list = await this.readAll();
-    const next = list.filter(x => x.id !== id);
-    const changed = next.length !== list.length;
-    if (changed) await this.writeAll(next);
-    return changed;
+    return this.store.delete(id);
   }
 
-  async validateKey(key: string): Promise<boolean> {
-    const list = await this.readAll();
-    return list.some(x => x.key === key && x.isActive);
+  /** Finds the active client and unexpired credential a presented key belongs to. */
+  async resolveKey(key: string): Promise<ResolvedClientKey | undefined> {
+    const snapshot = await this.load();
+    const digest = createHash('sha256').update(key).digest('hex');
+    let resolved = this.verified.get(digest);
+    if (!resolved) {
+      resolved = snapshot.byPrefix
+        .get(key.substring(0, KEY_PREFIX_LENGTH))
+        ?.find((x) => this.matches(x.credential, key));
+      if (!resolved) return undefined;
+      this.verified.set(digest, resolved);
+    }
+    if (!resolved.client.isActive || isCredentialExpired(resolved.credential))
+      return undefined;
+    return resolved;
   }
-}
 
+  // Internal record (with webhook secrets), unlike findOne
+  async findById(id: number): Promise<ClientKeyRecord | undefined> {
+    return (await this.load()).records.find((x) => x.id === id);
+  }
 
+  /** Active record owning a storage namespace; revoked ones too with `includeInactive`. */
+  async findByNamespace(
+    namespace: string,
+    includeInactive = false,
+  ): Promise<ClientKeyRecord | undefined> {
+    const snapshot = await this.load();
+    return snapshot.records.find(
+      (x) => x.namespace === namespace && (x.isActive || includeInactive),
+    );
+  }
+
+  async validateKey(key: string): Promise<boolean> {
+    return !!(await this.resolveKey(key));
+  }
+}
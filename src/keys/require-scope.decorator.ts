@@ -0,0 +1,12 @@
+import { SetMetadata } from '@nestjs/common';
+import { CredentialScope } from '../entities/ClientCredential';
+
+export const REQUIRED_SCOPE_KEY = 'requiredScope';
+export const NO_SCOPE_KEY = 'noScope';
+
+// Scope the client credential needs for a handler guarded by ScopeGuard
+export const RequireScope = (scope: CredentialScope) =>
+  SetMetadata(REQUIRED_SCOPE_KEY, scope);
+
+// A handler guarded by ScopeGuard that is reachable without a client credential
+export const NoScope = () => SetMetadata(NO_SCOPE_KEY, true);
@@ -0,0 +1,61 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ClientCredential } from '../entities/ClientCredential';
+import { NoScope, RequireScope } from './require-scope.decorator';
+import { ScopeGuard } from './scope.guard';
+
+class Routes {
+  @RequireScope('write')
+  upload() {}
+
+  @NoScope()
+  shared() {}
+
+  forgotten() {}
+}
+
+function context(
+  handler: keyof Routes,
+  credential?: Pick<ClientCredential, 'scopes'>,
+): ExecutionContext {
+  return {
+    getHandler: () => Routes.prototype[handler],
+    getClass: () => Routes,
+    switchToHttp: () => ({
+      getRequest: () => ({ clientCredential: credential }),
+    }),
+  } as unknown as ExecutionContext;
+}
+
+describe('ScopeGuard', () => {
+  const guard = new ScopeGuard(new Reflector());
+
+  it('lets credentials with the required scope through', () => {
+    expect(guard.canActivate(context('upload', { scopes: ['write'] }))).toBe(
+      true,
+    );
+  });
+
+  it('answers 403 to credentials lacking the scope', () => {
+    expect(() =>
+      guard.canActivate(context('upload', { scopes: ['read', 'list'] })),
+    ).toThrow(ForbiddenException);
+  });
+
+  it('answers 401 without a credential', () => {
+    expect(() => guard.canActivate(context('upload'))).toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('closes routes that declare no scope unless marked @NoScope', () => {
+    expect(() =>
+      guard.canActivate(context('forgotten', { scopes: ['write'] })),
+    ).toThrow(ForbiddenException);
+    expect(guard.canActivate(context('shared'))).toBe(true);
+  });
+});
@@ -0,0 +1,45 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import { CredentialScope } from '../entities/ClientCredential';
+import { NO_SCOPE_KEY, REQUIRED_SCOPE_KEY } from './require-scope.decorator';
+
+// Checks the scopes of the credential ClientResolverMiddleware authenticated;
+// handlers declare @RequireScope or, reachable without a credential, @NoScope
+@Injectable()
+export class ScopeGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const required = this.reflector.getAllAndOverride<
+      CredentialScope | undefined
+    >(REQUIRED_SCOPE_KEY, [context.getHandler(), context.getClass()]);
+    if (!required) {
+      // A handler that forgot @RequireScope is closed, not open to any caller
+      if (
+        this.reflector.getAllAndOverride<boolean | undefined>(NO_SCOPE_KEY, [
+          context.getHandler(),
+          context.getClass(),
+        ])
+      )
+        return true;
+      throw new ForbiddenException('This route declares no required scope');
+    }
+    const credential = context
+      .switchToHttp()
+      .getRequest<Request>().clientCredential;
+    if (!credential) throw new UnauthorizedException('Missing client key');
+    if (!credential.scopes.includes(required)) {
+      throw new ForbiddenException(
+        `This client key lacks the "${required}" scope`,
+      );
+    }
+    return true;
+  }
+}
@@ -0,0 +1,38 @@
+import { ClientKeyRecord } from '../../entities/ClientKeyRecord';
+
+export const CLIENT_KEY_STORE = Symbol('CLIENT_KEY_STORE');
+
+export type NewClientKeyRecord = Omit<ClientKeyRecord, 'id'>;
+
+/**
+ * Persistence of client records. Writes are atomic and isolated: concurrent
+ * updates, from this process or another one sharing the store, never lose
+ * each other's changes.
+ */
+export interface ClientKeyStore {
+  /**
+   * Changes whenever any process commits a write; cheap enough to be checked on
+   * every request to know whether cached records are stale.
+   */
+  revision(): Promise<string>;
+  /** Every record, newest first. */
+  findAll(): Promise<ClientKeyRecord[]>;
+  /** Stores a new record under a fresh id; ids are never reused. */
+  insert(record: NewClientKeyRecord): Promise<ClientKeyRecord>;
+  /**
+   * Replaces a record with what `change` makes of its latest state, in one
+   * transaction. Returns undefined when the record does not exist; nothing is
+   * written when `change` throws or returns the record it was given.
+   */
+  update(
+    id: number,
+    change: (record: ClientKeyRecord) => ClientKeyRecord,
+  ): Promise<ClientKeyRecord | undefined>;
+  /** Saves the records `change` returns from all the current ones, in one transaction. */
+  updateAll(
+    change: (records: ClientKeyRecord[]) => ClientKeyRecord[],
+  ): Promise<void>;
+  delete(id: number): Promise<boolean>;
+  /** Imports records (keeping their ids) unless the store already holds some; returns whether it did. */
+  importIfEmpty(records: ClientKeyRecord[]): Promise<boolean>;
+}
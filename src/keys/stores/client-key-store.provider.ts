@@ -0,0 +1,66 @@
+import { Logger, Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ClientKeyRecord } from '../../entities/ClientKeyRecord';
+import { CLIENT_KEY_STORE, ClientKeyStore } from './client-key-store.interface';
+import { SqliteClientKeyStore } from './sqlite-client-key.store';
+
+const logger = new Logger('ClientKeyStore');
+
+/**
+ * Moves the records of `client-keys.json`, where older versions kept them, into
+ * an empty store. The file is deleted once the import has committed, as records
+ * of plaintext-era clients hold their keys; copies renamed to
+ * `client-keys.json.imported` by earlier versions are deleted too.
+ */
+export async function importLegacyClientKeys(
+  store: ClientKeyStore,
+  file: string,
+): Promise<boolean> {
+  await removeImportedCopy(file);
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, 'utf8');
+  } catch {
+    return false;
+  }
+  const list = JSON.parse(raw) as ClientKeyRecord[];
+  if (!Array.isArray(list)) throw new Error(`${file} is not a list of clients`);
+  if (!(await store.importIfEmpty(list))) {
+    logger.warn(`${file} was not imported: the key store already has clients`);
+    return false;
+  }
+  await fs.rm(file, { force: true });
+  logger.log(`Imported ${list.length} client(s) from ${file}`);
+  return true;
+}
+
+async function removeImportedCopy(file: string): Promise<void> {
+  const copy = `${file}.imported`;
+  try {
+    await fs.rm(copy);
+    logger.log(`Deleted ${copy} left by an earlier import`);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+  }
+}
+
+export const clientKeyStoreProvider: Provider = {
+  provide: CLIENT_KEY_STORE,
+  inject: [ConfigService],
+  useFactory: async (configService: ConfigService): Promise<ClientKeyStore> => {
+    const storageRoot = configService.get<string>('STORAGE_ROOT') || 'storage';
+    // Next to the storage root, where client-keys.json used to be
+    const dir = path.resolve(process.cwd(), storageRoot, '..');
+    const store = new SqliteClientKeyStore(
+      path.resolve(
+        process.cwd(),
+        configService.get<string>('CLIENT_KEYS_DB') ||
+          path.join(dir, 'client-keys.db'),
+      ),
+    );
+    await importLegacyClientKeys(store, path.join(dir, 'client-keys.json'));
+    return store;
+  },
+};
@@ -0,0 +1,112 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClientKeyRecord } from '../../entities/ClientKeyRecord';
+import { importLegacyClientKeys } from './client-key-store.provider';
+import { SqliteClientKeyStore } from './sqlite-client-key.store';
+
+function client(namespace: string): Omit<ClientKeyRecord, 'id'> {
+  const now = new Date().toISOString();
+  return {
+    namespace,
+    credentials: [],
+    name: namespace,
+    isActive: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+describe('SqliteClientKeyStore', () => {
+  let dir: string;
+  const stores: SqliteClientKeyStore[] = [];
+  const open = () => {
+    const store = new SqliteClientKeyStore(path.join(dir, 'client-keys.db'));
+    stores.push(store);
+    return store;
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'client-key-store-'));
+  });
+
+  afterEach(async () => {
+    stores.splice(0).forEach((store) => store.onModuleDestroy());
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('assigns ids that are never reused', async () => {
+    const store = open();
+    const first = await store.insert(client('a'));
+    const second = await store.insert(client('b'));
+    expect(await store.delete(second.id)).toBe(true);
+    const third = await store.insert(client('c'));
+    expect([first.id, second.id, third.id]).toEqual([1, 2, 3]);
+    expect((await store.findAll()).map((record) => record.id)).toEqual([3, 1]);
+  });
+
+  it('does not lose updates made through different connections', async () => {
+    const first = open();
+    const second = open();
+    const { id } = await first.insert(client('a'));
+    await Promise.all(
+      Array.from({ length: 10 }, (_, index) =>
+        (index % 2 ? first : second).update(id, (record) => ({
+          ...record,
+          note: `${record.note ?? ''}${index}`,
+        })),
+      ),
+    );
+    const [record] = await first.findAll();
+    expect(record.note?.split('').sort().join('')).toBe('0123456789');
+  });
+
+  it('bumps the revision seen by other connections on every write only', async () => {
+    const writer = open();
+    const reader = open();
+    const before = await reader.revision();
+    const { id } = await writer.insert(client('a'));
+    const afterInsert = await reader.revision();
+    expect(afterInsert).not.toBe(before);
+
+    await writer.update(id, (record) => record);
+    await expect(
+      writer.update(id, () => {
+        throw new Error('conflict');
+      }),
+    ).rejects.toThrow('conflict');
+    expect(await reader.revision()).toBe(afterInsert);
+    expect(await writer.update(999, (record) => record)).toBeUndefined();
+  });
+
+  it('imports client-keys.json once, keeping ids', async () => {
+    const file = path.join(dir, 'client-keys.json');
+    await fs.writeFile(
+      file,
+      JSON.stringify([
+        { ...client('b'), id: 7 },
+        { ...client('a'), id: 3 },
+      ]),
+    );
+    const store = open();
+    expect(await importLegacyClientKeys(store, file)).toBe(true);
+    expect((await store.findAll()).map((record) => record.id)).toEqual([7, 3]);
+    expect((await store.insert(client('c'))).id).toBe(8);
+    await expect(fs.access(file)).rejects.toThrow();
+    expect(await importLegacyClientKeys(store, file)).toBe(false);
+  });
+
+  it('leaves no copy of plaintext keys behind after the import', async () => {
+    const key = 'a1'.repeat(32);
+    const file = path.join(dir, 'client-keys.json');
+    const legacy = [{ ...client('a'), id: 1, key, credentials: undefined }];
+    await fs.writeFile(file, JSON.stringify(legacy));
+    await fs.writeFile(`${file}.imported`, JSON.stringify(legacy));
+    expect(await importLegacyClientKeys(open(), file)).toBe(true);
+    // The database itself holds the record until ClientKeyService migrates it
+    const names = (await fs.readdir(dir)).filter(
+      (name) => !name.startsWith('client-keys.db'),
+    );
+    expect(names).toEqual([]);
+  });
+});
@@ -0,0 +1,170 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import * as path from 'path';
+import { ClientKeyRecord } from '../../entities/ClientKeyRecord';
+import {
+  ClientKeyStore,
+  NewClientKeyRecord,
+} from './client-key-store.interface';
+
+interface ClientRow {
+  id: number;
+  data: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS clients (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    namespace TEXT UNIQUE,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS meta (
+    name TEXT PRIMARY KEY,
+    value INTEGER NOT NULL
+  );
+  INSERT OR IGNORE INTO meta (name, value) VALUES ('revision', 0);
+`;
+
+/**
+ * Client records in a SQLite database, one JSON document per client. Every
+ * write runs in an IMMEDIATE transaction (so concurrent writers queue instead
+ * of overwriting each other) and bumps a revision counter that readers poll.
+ * WAL mode lets other processes keep reading while one writes.
+ */
+export class SqliteClientKeyStore implements ClientKeyStore {
+  private readonly db: Database.Database;
+
+  constructor(file: string) {
+    if (file !== ':memory:') mkdirSync(path.dirname(file), { recursive: true });
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    // Wait for another process's write instead of failing with SQLITE_BUSY
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(SCHEMA);
+  }
+
+  onModuleDestroy() {
+    this.db.close();
+  }
+
+  private toRecord(row: ClientRow): ClientKeyRecord {
+    return { ...(JSON.parse(row.data) as ClientKeyRecord), id: row.id };
+  }
+
+  private bumpRevision() {
+    this.db
+      .prepare(`UPDATE meta SET value = value + 1 WHERE name = 'revision'`)
+      .run();
+  }
+
+  // better-sqlite3 is synchronous; the store's API is not, as other backends may not be
+  private run<T>(task: () => T): Promise<T> {
+    try {
+      return Promise.resolve(task());
+    } catch (err) {
+      return Promise.reject(err as Error);
+    }
+  }
+
+  private write<T>(task: () => T): Promise<T> {
+    return this.run(() => this.db.transaction(task).immediate());
+  }
+
+  private save(record: ClientKeyRecord) {
+    this.db
+      .prepare('UPDATE clients SET namespace = ?, data = ? WHERE id = ?')
+      .run(record.namespace ?? null, JSON.stringify(record), record.id);
+  }
+
+  revision(): Promise<string> {
+    return this.run(() => {
+      const row = this.db
+        .prepare(`SELECT value FROM meta WHERE name = 'revision'`)
+        .get() as { value: number };
+      return String(row.value);
+    });
+  }
+
+  findAll(): Promise<ClientKeyRecord[]> {
+    return this.run(() => {
+      const rows = this.db
+        .prepare('SELECT id, data FROM clients ORDER BY id DESC')
+        .all() as ClientRow[];
+      return rows.map((row) => this.toRecord(row));
+    });
+  }
+
+  insert(record: NewClientKeyRecord): Promise<ClientKeyRecord> {
+    return this.write(() => {
+      const { lastInsertRowid } = this.db
+        .prepare('INSERT INTO clients (namespace, data) VALUES (?, ?)')
+        .run(record.namespace, '{}');
+      const stored = {
+        ...record,
+        id: Number(lastInsertRowid),
+      } as ClientKeyRecord;
+      this.save(stored);
+      this.bumpRevision();
+      return stored;
+    });
+  }
+
+  update(
+    id: number,
+    change: (record: ClientKeyRecord) => ClientKeyRecord,
+  ): Promise<ClientKeyRecord | undefined> {
+    return this.write(() => {
+      const row = this.db
+        .prepare('SELECT id, data FROM clients WHERE id = ?')
+        .get(id) as ClientRow | undefined;
+      if (!row) return undefined;
+      const current = this.toRecord(row);
+      const changed = change(current);
+      if (changed === current) return current;
+      const updated = { ...changed, id };
+      this.save(updated);
+      this.bumpRevision();
+      return updated;
+    });
+  }
+
+  updateAll(
+    change: (records: ClientKeyRecord[]) => ClientKeyRecord[],
+  ): Promise<void> {
+    return this.write(() => {
+      const rows = this.db
+        .prepare('SELECT id, data FROM clients ORDER BY id DESC')
+        .all() as ClientRow[];
+      const changed = change(rows.map((row) => this.toRecord(row)));
+      for (const record of changed) this.save(record);
+      if (changed.length) this.bumpRevision();
+    });
+  }
+
+  delete(id: number): Promise<boolean> {
+    return this.write(() => {
+      const { changes } = this.db
+        .prepare('DELETE FROM clients WHERE id = ?')
+        .run(id);
+      if (changes) this.bumpRevision();
+      return changes > 0;
+    });
+  }
+
+  importIfEmpty(records: ClientKeyRecord[]): Promise<boolean> {
+    return this.write(() => {
+      const { count } = this.db
+        .prepare('SELECT COUNT(*) AS count FROM clients')
+        .get() as { count: number };
+      if (count) return false;
+      const insert = this.db.prepare(
+        'INSERT INTO clients (id, namespace, data) VALUES (?, ?, ?)',
+      );
+      for (const record of records) {
+        insert.run(record.id, record.namespace ?? null, JSON.stringify(record));
+      }
+      this.bumpRevision();
+      return true;
+    });
+  }
+}
@@ -1,7 +1,6 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { json, urlencoded } from 'express';
-import { join } from 'path';
 import { NestExpressApplication } from '@nestjs/platform-express';
 
 async function bootstrap() {
@@ -10,9 +9,7 @@ async function bootstrap() {
   app.use(json({ limit: '50mb' }));
   app.use(urlencoded({ extended: true, limit: '50mb' }));
 
-  app.useStaticAssets(join(process.cwd(), 'storage-data'), {
-    prefix: `/storage-data/`,
-  });
+  // Files under /storage-data/ are served by PublicFileController (ranges, ETags, conditional GET)
   console.log('Storage service is running on port:', port);
   await app.listen(port, '0.0.0.0');
 }
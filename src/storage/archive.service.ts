@@ -0,0 +1,124 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import archiver from 'archiver';
+import type { Response } from 'express';
+import { once } from 'events';
+import * as path from 'path';
+import { pipeline } from 'stream/promises';
+import { FileRecord } from '../entities/FileRecord';
+import type { CreateArchiveDto } from '../dtos/CreateArchiveDto';
+import { contentDisposition } from '../common/utils/http';
+import { MAX_LIST_LIMIT } from '../common/utils/file-list-query';
+import { normalizeStoragePath } from '../common/utils/storage-path';
+import { StorageService } from './storage.service';
+
+interface ArchiveEntry {
+  record: FileRecord;
+  name: string;
+}
+
+/**
+ * Streams ZIP archives of stored files. Files are added one at a time, each
+ * opened only once the previous one is written, so neither the archive nor
+ * the files are buffered in memory.
+ */
+@Injectable()
+export class ArchiveService {
+  constructor(private readonly storageService: StorageService) {}
+
+  // Everything is resolved before the first byte, so a bad selection is still a proper 4xx
+  private async resolveEntries(
+    clientKey: string,
+    dto: CreateArchiveDto,
+  ): Promise<ArchiveEntry[]> {
+    const { paths, folder } = dto ?? {};
+    if ((paths === undefined) === (folder === undefined)) {
+      throw new BadRequestException('Give either paths or folder');
+    }
+    if (folder !== undefined) {
+      const base = normalizeStoragePath(folder, 'folder', { allowRoot: true });
+      const records = await this.storageService.listFolderFiles(
+        clientKey,
+        base,
+      );
+      return records
+        .filter((record) => !record.quarantined)
+        .map((record) => ({
+          record,
+          name: base ? record.path.substring(base.length + 1) : record.path,
+        }));
+    }
+    if (
+      !Array.isArray(paths) ||
+      !paths.length ||
+      paths.some((item) => typeof item !== 'string')
+    ) {
+      throw new BadRequestException(
+        'paths must be a non-empty array of strings',
+      );
+    }
+    if (paths.length > MAX_LIST_LIMIT) {
+      throw new BadRequestException(
+        `At most ${MAX_LIST_LIMIT} files can be archived at once`,
+      );
+    }
+    const entries = new Map<string, ArchiveEntry>();
+    for (const filePath of paths) {
+      const record = await this.storageService.resolveFile(clientKey, filePath);
+      if (record.quarantined) {
+        throw new ForbiddenException(`File is quarantined: ${record.path}`);
+      }
+      entries.set(record.path, { record, name: record.path });
+    }
+    return [...entries.values()];
+  }
+
+  async send(
+    res: Response,
+    clientKey: string,
+    dto: CreateArchiveDto,
+  ): Promise<void> {
+    const entries = await this.resolveEntries(clientKey, dto);
+    const defaultName = dto.folder
+      ? path.posix.basename(
+          normalizeStoragePath(dto.folder, 'folder', { allowRoot: true }),
+        ) || 'files'
+      : 'files';
+    const name =
+      typeof dto.name === 'string' && dto.name ? dto.name : defaultName;
+
+    const archive = archiver('zip', { zlib: { level: 6 } });
+    res.status(200);
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader(
+      'Content-Disposition',
+      contentDisposition('attachment', `${name}.zip`),
+    );
+    res.setHeader('Cache-Control', 'private, no-store');
+    const done = pipeline(archive, res);
+    // Awaited below; also fails early when the client goes away
+    done.catch(() => undefined);
+    try {
+      for (const entry of entries) {
+        const stream = await this.storageService.openFile(
+          clientKey,
+          entry.record,
+        );
+        archive.append(stream, {
+          name: entry.name,
+          date: new Date(entry.record.createdAt),
+        });
+        await Promise.race([once(archive, 'entry'), done]);
+      }
+      await archive.finalize();
+      await done;
+    } catch (err) {
+      // The status line is gone: just drop the connection
+      archive.abort();
+      res.destroy(err as Error);
+    }
+  }
+}
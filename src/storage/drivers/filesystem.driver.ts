@@ -0,0 +1,118 @@
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  GetObjectOptions,
+  StorageDriver,
+  StorageObjectStat,
+} from './storage-driver.interface';
+
+export class FilesystemStorageDriver implements StorageDriver {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  // Maps a key to an absolute path, refusing anything that escapes the root
+  resolvePath(key: string): string {
+    const target = path.resolve(this.root, key);
+    if (target !== this.root && !target.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return target;
+  }
+
+  async put(key: string, body: Buffer | Readable): Promise<StorageObjectStat> {
+    const target = this.resolvePath(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    // Write next to the target and rename so readers never see a partial file
+    const tmp = `${target}.${randomUUID().substring(0, 8)}.tmp`;
+    try {
+      if (Buffer.isBuffer(body)) {
+        await fs.writeFile(tmp, body);
+      } else {
+        await pipeline(body, createWriteStream(tmp));
+      }
+      await fs.rename(tmp, target);
+    } catch (err) {
+      await fs.rm(tmp, { force: true });
+      throw err;
+    }
+    const stats = await fs.stat(target);
+    return { key, size: stats.size, lastModified: stats.mtime };
+  }
+
+  async putFile(key: string, localPath: string): Promise<StorageObjectStat> {
+    const target = this.resolvePath(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    try {
+      await fs.rename(localPath, target);
+    } catch (err) {
+      // Different filesystem: fall back to a copy through a temp file
+      if ((err as NodeJS.ErrnoException).code !== 'EXDEV') throw err;
+      await this.put(key, createReadStream(localPath));
+      await fs.rm(localPath, { force: true });
+    }
+    const stats = await fs.stat(target);
+    return { key, size: stats.size, lastModified: stats.mtime };
+  }
+
+  async getStream(key: string, options?: GetObjectOptions): Promise<Readable> {
+    const target = this.resolvePath(key);
+    // Surface ENOENT before handing back a stream
+    await fs.access(target);
+    return createReadStream(target, {
+      start: options?.start,
+      end: options?.end,
+    });
+  }
+
+  async stat(key: string): Promise<StorageObjectStat | null> {
+    try {
+      const stats = await fs.stat(this.resolvePath(key));
+      if (!stats.isFile()) return null;
+      return { key, size: stats.size, lastModified: stats.mtime };
+    } catch {
+      return null;
+    }
+  }
+
+  async list(prefix: string): Promise<StorageObjectStat[]> {
+    const results: StorageObjectStat[] = [];
+    const walk = async (dir: string) => {
+      let entries: string[];
+      try {
+        entries = await fs.readdir(dir);
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        const entryPath = path.join(dir, entry);
+        const stats = await fs.stat(entryPath).catch(() => null);
+        if (!stats) continue;
+        if (stats.isDirectory()) {
+          await walk(entryPath);
+        } else if (stats.isFile()) {
+          const key = path
+            .relative(this.root, entryPath)
+            .split(path.sep)
+            .join('/');
+          if (key.startsWith(prefix)) {
+            results.push({ key, size: stats.size, lastModified: stats.mtime });
+          }
+        }
+      }
+    };
+    // Start from the deepest directory fully covered by the prefix
+    const baseDir = prefix.endsWith('/') ? prefix : path.posix.dirname(prefix);
+    await walk(this.resolvePath(baseDir === '.' ? '' : baseDir));
+    return results;
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolvePath(key), { force: true });
+  }
+}
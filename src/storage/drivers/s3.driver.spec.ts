@@ -0,0 +1,155 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { S3StorageDriver } from './s3.driver';
+
+// Minimal path-style S3 stand-in: enough of PUT/GET/HEAD/DELETE/ListObjectsV2 for the driver
+function createS3StandIn(bucket: string) {
+  const objects = new Map<string, { body: Buffer; contentType?: string }>();
+  const readBody = async (req: IncomingMessage) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+  };
+  const server = createServer((req, res) => {
+    void (async () => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const [, bucketName, ...rest] = url.pathname.split('/');
+      const key = decodeURIComponent(rest.join('/'));
+      if (bucketName !== bucket) {
+        res.writeHead(404).end();
+        return;
+      }
+      if (
+        req.method === 'GET' &&
+        !key &&
+        url.searchParams.get('list-type') === '2'
+      ) {
+        const prefix = url.searchParams.get('prefix') ?? '';
+        const contents = [...objects.entries()]
+          .filter(([k]) => k.startsWith(prefix))
+          .map(
+            ([k, o]) =>
+              `<Contents><Key>${k}</Key><Size>${o.body.length}</Size><LastModified>${new Date().toISOString()}</LastModified></Contents>`,
+          )
+          .join('');
+        res.writeHead(200, { 'Content-Type': 'application/xml' });
+        res.end(
+          `<?xml version="1.0" encoding="UTF-8"?><ListBucketResult><Name>${bucket}</Name><IsTruncated>false</IsTruncated>${contents}</ListBucketResult>`,
+        );
+        return;
+      }
+      const object = objects.get(key);
+      switch (req.method) {
+        case 'PUT':
+          objects.set(key, {
+            body: await readBody(req),
+            contentType: req.headers['content-type'],
+          });
+          res.writeHead(200, { ETag: '"etag"' }).end();
+          return;
+        case 'HEAD':
+        case 'GET': {
+          if (!object) {
+            res.writeHead(404, { 'Content-Type': 'application/xml' });
+            res.end(
+              req.method === 'GET'
+                ? '<Error><Code>NoSuchKey</Code></Error>'
+                : undefined,
+            );
+            return;
+          }
+          let body = object.body;
+          const range = /bytes=(\d+)-(\d*)/.exec(req.headers.range ?? '');
+          if (range) {
+            const end = range[2] ? Number(range[2]) + 1 : body.length;
+            body = body.subarray(Number(range[1]), end);
+          }
+          res.writeHead(range ? 206 : 200, {
+            'Content-Length': body.length,
+            'Content-Type': object.contentType ?? 'application/octet-stream',
+            'Last-Modified': new Date().toUTCString(),
+          });
+          res.end(req.method === 'GET' ? body : undefined);
+          return;
+        }
+        case 'DELETE':
+          objects.delete(key);
+          res.writeHead(204).end();
+          return;
+        default:
+          res.writeHead(405).end();
+      }
+    })();
+  });
+  return { server, objects };
+}
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+describe('S3StorageDriver', () => {
+  let server: Server;
+  let driver: S3StorageDriver;
+
+  beforeAll(async () => {
+    const standIn = createS3StandIn('test-bucket');
+    server = standIn.server;
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    driver = new S3StorageDriver({
+      bucket: 'test-bucket',
+      region: 'us-east-1',
+      endpoint: `http://127.0.0.1:${port}`,
+      accessKeyId: 'minio',
+      secretAccessKey: 'minio-secret',
+      forcePathStyle: true,
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('puts, stats and reads back an object', async () => {
+    await driver.put('client/user1/a.txt', Buffer.from('hello world'), {
+      contentType: 'text/plain',
+    });
+    const stat = await driver.stat('client/user1/a.txt');
+    expect(stat).toMatchObject({ key: 'client/user1/a.txt', size: 11 });
+    expect(await readAll(await driver.getStream('client/user1/a.txt'))).toBe(
+      'hello world',
+    );
+  });
+
+  it('reads a byte range', async () => {
+    await driver.put('client/range.txt', Buffer.from('0123456789'));
+    const stream = await driver.getStream('client/range.txt', {
+      start: 2,
+      end: 4,
+    });
+    expect(await readAll(stream)).toBe('234');
+  });
+
+  it('lists objects under a prefix', async () => {
+    await driver.put('other/b.txt', Buffer.from('b'));
+    const keys = (await driver.list('client/')).map((o) => o.key).sort();
+    expect(keys).toEqual(['client/range.txt', 'client/user1/a.txt']);
+  });
+
+  it('returns null when stat-ing a deleted object', async () => {
+    await driver.delete('client/range.txt');
+    expect(await driver.stat('client/range.txt')).toBeNull();
+  });
+
+  it('rejects keys that try to escape their prefix', async () => {
+    await expect(driver.stat('client/../other/b.txt')).rejects.toThrow(
+      'Invalid storage key',
+    );
+  });
+});
@@ -0,0 +1,184 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  NotFound,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException,
+} from '@aws-sdk/client-s3';
+import { createReadStream, promises as fs } from 'fs';
+import { Readable } from 'stream';
+import {
+  GetObjectOptions,
+  PutObjectOptions,
+  StorageDriver,
+  StorageObjectStat,
+} from './storage-driver.interface';
+
+export interface S3DriverOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+  // Optional key prefix inside the bucket, without trailing slash
+  prefix?: string;
+}
+
+export class S3StorageDriver implements StorageDriver {
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly prefix: string;
+
+  constructor(options: S3DriverOptions, client?: S3Client) {
+    this.bucket = options.bucket;
+    this.prefix = options.prefix
+      ? `${options.prefix.replace(/\/+$/, '')}/`
+      : '';
+    this.client =
+      client ??
+      new S3Client({
+        region: options.region,
+        endpoint: options.endpoint,
+        forcePathStyle: options.forcePathStyle,
+        // S3-compatible servers (MinIO, Ceph...) don't all accept the newer flexible checksums
+        requestChecksumCalculation: 'WHEN_REQUIRED',
+        responseChecksumValidation: 'WHEN_REQUIRED',
+        credentials:
+          options.accessKeyId && options.secretAccessKey
+            ? {
+                accessKeyId: options.accessKeyId,
+                secretAccessKey: options.secretAccessKey,
+              }
+            : undefined,
+      });
+  }
+
+  private toObjectKey(key: string): string {
+    if (key.split('/').includes('..')) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return this.prefix + key;
+  }
+
+  private fromObjectKey(objectKey: string): string {
+    return objectKey.substring(this.prefix.length);
+  }
+
+  async put(
+    key: string,
+    body: Buffer | Readable,
+    options?: PutObjectOptions,
+  ): Promise<StorageObjectStat> {
+    const size = Buffer.isBuffer(body) ? body.length : options?.size;
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.toObjectKey(key),
+        Body: body,
+        ContentType: options?.contentType,
+        ContentLength: size,
+      }),
+    );
+    return {
+      key,
+      size: size ?? 0,
+      lastModified: new Date(),
+      contentType: options?.contentType,
+    };
+  }
+
+  async putFile(
+    key: string,
+    localPath: string,
+    options?: PutObjectOptions,
+  ): Promise<StorageObjectStat> {
+    const { size } = await fs.stat(localPath);
+    const result = await this.put(key, createReadStream(localPath), {
+      ...options,
+      size,
+    });
+    await fs.rm(localPath, { force: true });
+    return result;
+  }
+
+  async getStream(key: string, options?: GetObjectOptions): Promise<Readable> {
+    let range: string | undefined;
+    if (options?.start !== undefined || options?.end !== undefined) {
+      range = `bytes=${options.start ?? 0}-${options.end ?? ''}`;
+    }
+    const result = await this.client.send(
+      new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: this.toObjectKey(key),
+        Range: range,
+      }),
+    );
+    return result.Body as Readable;
+  }
+
+  async stat(key: string): Promise<StorageObjectStat | null> {
+    try {
+      const result = await this.client.send(
+        new HeadObjectCommand({
+          Bucket: this.bucket,
+          Key: this.toObjectKey(key),
+        }),
+      );
+      return {
+        key,
+        size: result.ContentLength ?? 0,
+        lastModified: result.LastModified ?? new Date(0),
+        contentType: result.ContentType,
+      };
+    } catch (err) {
+      if (
+        err instanceof NotFound ||
+        err instanceof NoSuchKey ||
+        (err as S3ServiceException).$metadata?.httpStatusCode === 404
+      ) {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  async list(prefix: string): Promise<StorageObjectStat[]> {
+    const results: StorageObjectStat[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: this.toObjectKey(prefix),
+          ContinuationToken: continuationToken,
+        }),
+      );
+      for (const item of page.Contents ?? []) {
+        if (!item.Key) continue;
+        results.push({
+          key: this.fromObjectKey(item.Key),
+          size: item.Size ?? 0,
+          lastModified: item.LastModified ?? new Date(0),
+        });
+      }
+      continuationToken = page.IsTruncated
+        ? page.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+    return results;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({
+        Bucket: this.bucket,
+        Key: this.toObjectKey(key),
+      }),
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import type { Readable } from 'stream';
+
+export const STORAGE_DRIVER = Symbol('STORAGE_DRIVER');
+
+export interface StorageObjectStat {
+  key: string;
+  size: number;
+  lastModified: Date;
+  contentType?: string;
+}
+
+export interface PutObjectOptions {
+  contentType?: string;
+  // Required by some backends (S3) when the body is a stream
+  size?: number;
+}
+
+export interface GetObjectOptions {
+  // Inclusive byte offsets, same semantics as an HTTP Range header
+  start?: number;
+  end?: number;
+}
+
+/**
+ * Backend-agnostic object storage. Keys are '/'-separated paths relative to
+ * the storage root, e.g. `<clientKey>/<createById>/<filename>`.
+ */
+export interface StorageDriver {
+  put(
+    key: string,
+    body: Buffer | Readable,
+    options?: PutObjectOptions,
+  ): Promise<StorageObjectStat>;
+  /**
+   * Moves a local file into storage. The file is consumed: backends that can
+   * rename it into place do so atomically, others upload and delete it.
+   */
+  putFile(
+    key: string,
+    localPath: string,
+    options?: PutObjectOptions,
+  ): Promise<StorageObjectStat>;
+  getStream(key: string, options?: GetObjectOptions): Promise<Readable>;
+  /** Returns null when the object does not exist. */
+  stat(key: string): Promise<StorageObjectStat | null>;
+  /** Recursively lists every object whose key starts with `prefix`. */
+  list(prefix: string): Promise<StorageObjectStat[]>;
+  /** Deleting a missing object is not an error. */
+  delete(key: string): Promise<void>;
+}
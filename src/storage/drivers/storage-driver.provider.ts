@@ -0,0 +1,31 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import { FilesystemStorageDriver } from './filesystem.driver';
+import { S3StorageDriver } from './s3.driver';
+import { STORAGE_DRIVER, StorageDriver } from './storage-driver.interface';
+
+export const storageDriverProvider: Provider = {
+  provide: STORAGE_DRIVER,
+  inject: [ConfigService],
+  useFactory: (configService: ConfigService): StorageDriver => {
+    const driver = configService.get<string>('STORAGE_DRIVER') || 'filesystem';
+    if (driver === 's3') {
+      return new S3StorageDriver({
+        bucket: configService.get<string>('S3_BUCKET') as string,
+        region: configService.get<string>('S3_REGION') || 'us-east-1',
+        endpoint: configService.get<string>('S3_ENDPOINT') || undefined,
+        accessKeyId: configService.get<string>('S3_ACCESS_KEY_ID') || undefined,
+        secretAccessKey:
+          configService.get<string>('S3_SECRET_ACCESS_KEY') || undefined,
+        forcePathStyle:
+          configService.get<string>('S3_FORCE_PATH_STYLE') === 'true',
+        prefix: configService.get<string>('S3_PREFIX') || undefined,
+      });
+    }
+    const storageRoot = configService.get<string>('STORAGE_ROOT') || 'storage';
+    return new FilesystemStorageDriver(
+      path.resolve(process.cwd(), storageRoot),
+    );
+  },
+};
@@ -0,0 +1,76 @@
+import {
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Post,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { ClientKeyService } from '../keys/client-key.service';
+import { ClientKeyRecord } from '../entities/ClientKeyRecord';
+import { AdminGuard } from '../admin/admin.guard';
+import { RequireAdminRole } from '../admin/admin-role.decorator';
+import { AuditGuard, AuditResultInterceptor } from '../audit/audit.guard';
+import { Audit } from '../audit/audit.decorator';
+import { clientKeyTarget } from '../audit/audit-targets';
+import { EncryptionService } from './encryption.service';
+import { StorageService } from './storage.service';
+
+// Encryption at rest of a client's files
+@Controller('admin/client-keys/:id/encryption')
+@UseGuards(AuditGuard, AdminGuard)
+@UseInterceptors(AuditResultInterceptor)
+export class EncryptionController {
+  constructor(
+    private readonly encryptionService: EncryptionService,
+    private readonly storageService: StorageService,
+    private readonly clientKeyService: ClientKeyService,
+  ) {}
+
+  private async client(id: number): Promise<ClientKeyRecord> {
+    const client = await this.clientKeyService.findById(id);
+    if (!client) throw new NotFoundException('Client not found');
+    return client;
+  }
+
+  @Get()
+  @Audit('key.encryption_read', clientKeyTarget)
+  @RequireAdminRole('read')
+  async find(@Param('id', ParseIntPipe) id: number) {
+    const { encryption } = await this.client(id);
+    return {
+      encryption: encryption
+        ? this.clientKeyService.toPublicEncryption(encryption)
+        : null,
+    };
+  }
+
+  /** Enables encryption and encrypts the files already stored. */
+  @Post()
+  @Audit('key.encryption_enable', clientKeyTarget)
+  async enable(@Param('id', ParseIntPipe) id: number) {
+    const client = await this.encryptionService.enable(await this.client(id));
+    return this.reencrypt(client);
+  }
+
+  /** Switches to a new data key and re-encrypts every file with it. */
+  @Post('rotate')
+  @Audit('key.encryption_rotate', clientKeyTarget)
+  async rotate(@Param('id', ParseIntPipe) id: number) {
+    const client = await this.encryptionService.rotate(await this.client(id));
+    return this.reencrypt(client);
+  }
+
+  private async reencrypt(client: ClientKeyRecord) {
+    const result = await this.storageService.reencryptFiles(client.namespace);
+    // Previous keys are kept while a file still needs them; rotating again retries
+    if (!result.failed)
+      client = await this.encryptionService.retireKeys(client);
+    return {
+      ...result,
+      encryption: this.clientKeyService.toPublicEncryption(client.encryption!),
+    };
+  }
+}
@@ -0,0 +1,293 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import { pipeline, Readable } from 'stream';
+import { STORAGE_DRIVER } from './drivers/storage-driver.interface';
+import type {
+  GetObjectOptions,
+  PutObjectOptions,
+  StorageDriver,
+  StorageObjectStat,
+} from './drivers/storage-driver.interface';
+import { ClientKeyService } from '../keys/client-key.service';
+import { ClientKeyRecord } from '../entities/ClientKeyRecord';
+import { ClientEncryption, DataKey } from '../entities/ClientEncryption';
+import {
+  DATA_KEY_ID_BYTES,
+  EncryptionHeader,
+  HEADER_BYTES,
+  createDecryptStream,
+  createEncryptStream,
+  encryptBuffer,
+  encryptedSize,
+  parseHeader,
+  parseMasterKey,
+  plaintextSize,
+  sealedRange,
+  unwrapDataKey,
+  wrapDataKey,
+} from '../common/utils/content-encryption';
+
+interface ObjectContent {
+  stat: StorageObjectStat;
+  // Set when the object is encrypted with one of the client's data keys
+  header: EncryptionHeader | null;
+  dataKey: DataKey | null;
+  // Plaintext size
+  size: number;
+}
+
+/**
+ * Envelope encryption of client files at rest. Each client that has it enabled
+ * gets AES-256 data keys, stored in its record sealed with ENCRYPTION_MASTER_KEY;
+ * objects written for it are encrypted with the active one (see
+ * content-encryption). Reads detect encrypted objects from their header, so
+ * files written before encryption was enabled stay readable until they are
+ * re-encrypted.
+ */
+@Injectable()
+export class EncryptionService {
+  private readonly masterKey: Buffer | null;
+  // Unwrapped data keys by `<namespace>:<key id>`
+  private readonly dataKeys = new Map<string, Buffer>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly clientKeyService: ClientKeyService,
+    @Inject(STORAGE_DRIVER) private readonly driver: StorageDriver,
+  ) {
+    const configured = this.configService.get<string>('ENCRYPTION_MASTER_KEY');
+    this.masterKey = configured ? parseMasterKey(configured) : null;
+  }
+
+  private requireMasterKey(): Buffer {
+    if (!this.masterKey) {
+      throw new ServiceUnavailableException(
+        'Encryption at rest is not configured (ENCRYPTION_MASTER_KEY)',
+      );
+    }
+    return this.masterKey;
+  }
+
+  // Revoked clients included: their files must not be served raw
+  private async settingsFor(
+    namespace: string,
+  ): Promise<ClientEncryption | null> {
+    const client = await this.clientKeyService.findByNamespace(namespace, true);
+    return client?.encryption ?? null;
+  }
+
+  private dataKey(namespace: string, key: DataKey): Buffer {
+    const cacheKey = `${namespace}:${key.id}`;
+    let dataKey = this.dataKeys.get(cacheKey);
+    if (!dataKey) {
+      dataKey = unwrapDataKey(
+        this.requireMasterKey(),
+        key.wrappedKey,
+        cacheKey,
+      );
+      this.dataKeys.set(cacheKey, dataKey);
+    }
+    return dataKey;
+  }
+
+  private activeKey(
+    namespace: string,
+    encryption: ClientEncryption,
+  ): { id: string; key: Buffer } {
+    const active = encryption.keys.find(
+      (key) => key.id === encryption.activeKeyId,
+    );
+    if (!active) throw new Error(`Active data key of ${namespace} is missing`);
+    return { id: active.id, key: this.dataKey(namespace, active) };
+  }
+
+  private newDataKey(namespace: string): DataKey {
+    const id = randomBytes(DATA_KEY_ID_BYTES).toString('hex');
+    return {
+      id,
+      wrappedKey: wrapDataKey(
+        this.requireMasterKey(),
+        randomBytes(32),
+        `${namespace}:${id}`,
+      ),
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  /** Gives a client its first data key; files stored from now on are encrypted. */
+  async enable(client: ClientKeyRecord): Promise<ClientKeyRecord> {
+    const key = this.newDataKey(client.namespace);
+    return this.clientKeyService.updateEncryption(client.id, (current) => {
+      if (current) throw new ConflictException('Encryption is already enabled');
+      const now = new Date().toISOString();
+      return {
+        activeKeyId: key.id,
+        keys: [key],
+        enabledAt: now,
+        rotatedAt: null,
+      };
+    });
+  }
+
+  /** Makes a new data key the active one; previous keys stay for the files they encrypted. */
+  async rotate(client: ClientKeyRecord): Promise<ClientKeyRecord> {
+    const key = this.newDataKey(client.namespace);
+    return this.clientKeyService.updateEncryption(client.id, (current) => {
+      if (!current) throw new BadRequestException('Encryption is not enabled');
+      return {
+        ...current,
+        activeKeyId: key.id,
+        keys: [...current.keys, key],
+        rotatedAt: new Date().toISOString(),
+      };
+    });
+  }
+
+  /** Forgets every data key but the active one, once no file uses them anymore. */
+  async retireKeys(client: ClientKeyRecord): Promise<ClientKeyRecord> {
+    return this.clientKeyService.updateEncryption(
+      client.id,
+      (current) =>
+        current && {
+          ...current,
+          keys: current.keys.filter((key) => key.id === current.activeKeyId),
+        },
+    );
+  }
+
+  private async inspect(
+    key: string,
+    encryption: ClientEncryption | null,
+  ): Promise<ObjectContent | null> {
+    const stat = await this.driver.stat(key);
+    if (!stat) return null;
+    const size = plaintextSize(stat.size);
+    if (!encryption || size === null)
+      return { stat, header: null, dataKey: null, size: stat.size };
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.driver.getStream(key, {
+      start: 0,
+      end: HEADER_BYTES - 1,
+    })) {
+      chunks.push(chunk as Buffer);
+    }
+    const header = parseHeader(Buffer.concat(chunks));
+    const dataKey =
+      header && encryption.keys.find((item) => item.id === header.keyId);
+    // Plain content that happens to start like an encrypted object is still plain
+    if (!header || !dataKey) {
+      return { stat, header: null, dataKey: null, size: stat.size };
+    }
+    return { stat, header, dataKey, size };
+  }
+
+  async put(
+    namespace: string,
+    key: string,
+    body: Buffer | Readable,
+    options: PutObjectOptions = {},
+  ): Promise<StorageObjectStat> {
+    const encryption = await this.settingsFor(namespace);
+    if (!encryption) return this.driver.put(key, body, options);
+    const active = this.activeKey(namespace, encryption);
+    if (Buffer.isBuffer(body)) {
+      return this.driver.put(key, encryptBuffer(active.key, active.id, body), {
+        contentType: options.contentType,
+      });
+    }
+    const encrypted = createEncryptStream(active.key, active.id);
+    pipeline(body, encrypted, () => undefined);
+    return this.driver.put(key, encrypted, {
+      contentType: options.contentType,
+      size:
+        options.size === undefined ? undefined : encryptedSize(options.size),
+    });
+  }
+
+  /** Like StorageDriver.putFile: the local file is consumed. */
+  async putFile(
+    namespace: string,
+    key: string,
+    localPath: string,
+    options: PutObjectOptions = {},
+  ): Promise<StorageObjectStat> {
+    if (!(await this.settingsFor(namespace))) {
+      return this.driver.putFile(key, localPath, options);
+    }
+    const { size } = await fs.stat(localPath);
+    const stored = await this.put(namespace, key, createReadStream(localPath), {
+      ...options,
+      size,
+    });
+    await fs.rm(localPath, { force: true });
+    return stored;
+  }
+
+  /** Plaintext of an object, or of an inclusive byte range of it. */
+  async getStream(
+    namespace: string,
+    key: string,
+    range?: GetObjectOptions,
+  ): Promise<Readable> {
+    const encryption = await this.settingsFor(namespace);
+    const content = encryption && (await this.inspect(key, encryption));
+    if (!content?.header || !content.dataKey) {
+      return this.driver.getStream(key, range);
+    }
+    const sealed = sealedRange(
+      content.size,
+      range && {
+        start: range.start ?? 0,
+        end: range.end ?? content.size - 1,
+      },
+    );
+    const source = await this.driver.getStream(key, {
+      start: sealed.start,
+      end: Math.min(sealed.end, content.stat.size - 1),
+    });
+    const decrypted = createDecryptStream(
+      this.dataKey(namespace, content.dataKey),
+      content.header,
+      content.size,
+      sealed,
+    );
+    return pipeline(source, decrypted, () => undefined);
+  }
+
+  /** Driver stat with the plaintext size. */
+  async stat(
+    namespace: string,
+    key: string,
+  ): Promise<StorageObjectStat | null> {
+    const encryption = await this.settingsFor(namespace);
+    if (!encryption) return this.driver.stat(key);
+    const content = await this.inspect(key, encryption);
+    return content && { ...content.stat, size: content.size };
+  }
+
+  /**
+   * Rewrites an object with the client's active data key, encrypting plain
+   * objects too. Returns false when there was nothing to do.
+   */
+  async reencrypt(namespace: string, key: string): Promise<boolean> {
+    const encryption = await this.settingsFor(namespace);
+    if (!encryption) return false;
+    const content = await this.inspect(key, encryption);
+    if (!content || content.header?.keyId === encryption.activeKeyId) {
+      return false;
+    }
+    await this.put(namespace, key, await this.getStream(namespace, key), {
+      contentType: content.stat.contentType,
+      size: content.size,
+    });
+    return true;
+  }
+}
@@ -0,0 +1,164 @@
+import { ForbiddenException, Injectable } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import type { Request, Response } from 'express';
+import { pipeline } from 'stream/promises';
+import { FileRecord } from '../entities/FileRecord';
+import {
+  ByteRange,
+  contentDisposition,
+  evaluatePreconditions,
+  ifRangeMatches,
+  parseRangeHeader,
+} from '../common/utils/http';
+import { StorageService } from './storage.service';
+
+export interface DeliveryOptions {
+  // Send `Content-Disposition: attachment` instead of inline
+  download?: boolean;
+}
+
+/**
+ * Streams a stored file to an HTTP response with validators (strong ETag from
+ * the content checksum, Last-Modified), conditional GET and single or
+ * multipart byte ranges.
+ */
+@Injectable()
+export class FileDeliveryService {
+  constructor(private readonly storageService: StorageService) {}
+
+  async send(
+    req: Request,
+    res: Response,
+    clientKey: string,
+    record: FileRecord,
+    options: DeliveryOptions = {},
+  ): Promise<void> {
+    if (record.quarantined) throw new ForbiddenException('File is quarantined');
+    try {
+      await this.deliver(req, res, clientKey, record, options);
+    } catch (err) {
+      // Once streaming has started the status line is gone: just drop the connection
+      if (!res.headersSent) throw err;
+      res.destroy(err as Error);
+    }
+  }
+
+  private async deliver(
+    req: Request,
+    res: Response,
+    clientKey: string,
+    record: FileRecord,
+    options: DeliveryOptions,
+  ): Promise<void> {
+    const etag = `"${record.checksum}"`;
+    const lastModified = new Date(record.createdAt);
+
+    res.setHeader('ETag', etag);
+    res.setHeader('Last-Modified', lastModified.toUTCString());
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('Cache-Control', 'private, max-age=0, must-revalidate');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader(
+      'Content-Disposition',
+      contentDisposition(
+        options.download ? 'attachment' : 'inline',
+        record.originalName,
+      ),
+    );
+
+    const precondition = evaluatePreconditions(req.headers, etag, lastModified);
+    if (precondition === 'not-modified') {
+      res.status(304).end();
+      return;
+    }
+    if (precondition === 'precondition-failed') {
+      res.status(412).end();
+      return;
+    }
+
+    const ranges = ifRangeMatches(req.get('if-range'), etag, lastModified)
+      ? parseRangeHeader(req.headers.range, record.size)
+      : undefined;
+
+    if (ranges === 'unsatisfiable') {
+      res.setHeader('Content-Range', `bytes */${record.size}`);
+      res.status(416).end();
+      return;
+    }
+    if (ranges && ranges.length > 1) {
+      await this.sendMultipart(req, res, clientKey, record, ranges);
+      return;
+    }
+
+    const range = ranges?.[0];
+    // Open before committing headers so a missing object still yields a clean 404
+    const stream =
+      req.method === 'HEAD'
+        ? undefined
+        : await this.storageService.openFile(clientKey, record, range);
+    res.setHeader('Content-Type', record.mimeType);
+    if (range) {
+      res.status(206);
+      res.setHeader(
+        'Content-Range',
+        `bytes ${range.start}-${range.end}/${record.size}`,
+      );
+      res.setHeader('Content-Length', String(range.end - range.start + 1));
+    } else {
+      res.status(200);
+      res.setHeader('Content-Length', String(record.size));
+    }
+    if (!stream) {
+      res.end();
+      return;
+    }
+    await pipeline(stream, res);
+  }
+
+  private async sendMultipart(
+    req: Request,
+    res: Response,
+    clientKey: string,
+    record: FileRecord,
+    ranges: ByteRange[],
+  ): Promise<void> {
+    const first =
+      req.method === 'HEAD'
+        ? undefined
+        : await this.storageService.openFile(clientKey, record, ranges[0]);
+    const boundary = randomBytes(16).toString('hex');
+    const partHeaders = ranges.map(
+      (range) =>
+        `--${boundary}\r\nContent-Type: ${record.mimeType}\r\n` +
+        `Content-Range: bytes ${range.start}-${range.end}/${record.size}\r\n\r\n`,
+    );
+    const trailer = `--${boundary}--\r\n`;
+    const length =
+      ranges.reduce(
+        (sum, range, i) =>
+          sum +
+          Buffer.byteLength(partHeaders[i]) +
+          (range.end - range.start + 1) +
+          2,
+        0,
+      ) + Buffer.byteLength(trailer);
+
+    res.status(206);
+    res.setHeader('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+    res.setHeader('Content-Length', String(length));
+    if (!first) {
+      res.end();
+      return;
+    }
+    for (const [i, range] of ranges.entries()) {
+      res.write(partHeaders[i]);
+      const stream =
+        i === 0
+          ? first
+          : await this.storageService.openFile(clientKey, record, range);
+      await pipeline(stream, res, { end: false });
+      res.write('\r\n');
+    }
+    res.end(trailer);
+  }
+}
@@ -0,0 +1,135 @@
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileRecord } from '../entities/FileRecord';
+import { FileIndexService } from './file-index.service';
+
+function record(filePath: string): FileRecord {
+  const now = new Date().toISOString();
+  return {
+    id: filePath,
+    path: filePath,
+    filename: path.posix.basename(filePath),
+    originalName: path.posix.basename(filePath),
+    mimeType: 'text/plain',
+    size: 1,
+    checksum: 'abc',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+describe('FileIndexService', () => {
+  let root: string;
+  const createService = () =>
+    new FileIndexService(new ConfigService({ METADATA_ROOT: root }));
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'file-index-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('replays puts and deletes from the journal', async () => {
+    const index = createService();
+    await index.put('client', record('a.txt'));
+    await index.put('client', record('u1/b.txt'));
+    await index.remove('client', 'a.txt');
+
+    const paths = (await createService().list('client')).map((r) => r.path);
+    expect(paths).toEqual(['u1/b.txt']);
+  });
+
+  it('picks up entries appended by another instance', async () => {
+    const first = createService();
+    const second = createService();
+    expect(await first.list('client')).toEqual([]);
+    await second.put('client', record('c.txt'));
+    expect(await first.get('client', 'c.txt')).toMatchObject({ path: 'c.txt' });
+  });
+
+  it('reloads after the journal is compacted', async () => {
+    const first = createService();
+    await first.put('client', record('a.txt'));
+    await first.put('client', record('b.txt'));
+    await createService().replaceAll('client', [record('z.txt')]);
+    expect((await first.list('client')).map((r) => r.path)).toEqual(['z.txt']);
+  });
+
+  it('reloads a journal replaced by one that is not smaller', async () => {
+    const first = createService();
+    await first.put('client', record('a.txt'));
+    const replacement = ['long/path/one.txt', 'long/path/two.txt'];
+    await createService().replaceAll('client', replacement.map(record));
+    expect((await first.list('client')).map((r) => r.path)).toEqual(
+      replacement,
+    );
+  });
+
+  it('compacts the journal once dead entries outnumber live ones', async () => {
+    const index = createService();
+    await index.put('client', record('keep.txt'));
+    for (let version = 0; version < 1100; version++) {
+      await index.put('client', { ...record('a.txt'), size: version });
+    }
+    const journal = await fs.readFile(
+      path.join(root, 'client', 'files.jsonl'),
+      'utf8',
+    );
+    expect(journal.trim().split('\n').length).toBeLessThan(1000);
+    const reloaded = createService();
+    expect(await reloaded.get('client', 'a.txt')).toMatchObject({ size: 1099 });
+    expect(await reloaded.get('client', 'keep.txt')).toBeDefined();
+  });
+
+  it('keeps explicit folders across compaction', async () => {
+    const index = createService();
+    await index.update('client', () => [
+      { op: 'mkdir', path: 'empty' },
+      { op: 'put', record: record('docs/a.txt') },
+    ]);
+    await index.replaceAll('client', [record('docs/a.txt')]);
+    expect(await createService().listFolders('client')).toEqual(['empty']);
+  });
+
+  it('moves entries to the trash and keeps it across compaction', async () => {
+    const index = createService();
+    await index.put('client', record('a.txt'));
+    const entry = {
+      id: 'trash-1',
+      record: record('a.txt'),
+      deletedAt: new Date().toISOString(),
+      deletedBy: null,
+    };
+    await index.update('client', () => [
+      { op: 'delete', path: 'a.txt' },
+      { op: 'trash', entry },
+    ]);
+    await index.replaceAll('client', []);
+
+    const reloaded = createService();
+    expect(await reloaded.list('client')).toEqual([]);
+    expect(await reloaded.listTrash('client')).toEqual([entry]);
+    await reloaded.update('client', () => [{ op: 'untrash', id: 'trash-1' }]);
+    expect(await createService().listTrash('client')).toEqual([]);
+  });
+
+  it('writes nothing when an update plan throws', async () => {
+    const index = createService();
+    await expect(
+      index.update('client', () => {
+        throw new Error('conflict');
+      }),
+    ).rejects.toThrow('conflict');
+    expect(await index.exists('client')).toBe(false);
+  });
+
+  it('rejects client keys that escape the metadata root', async () => {
+    await expect(createService().list('../outside')).rejects.toThrow(
+      'Invalid client key',
+    );
+  });
+});
@@ -0,0 +1,311 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { FileRecord } from '../entities/FileRecord';
+import { TrashedFile } from '../entities/TrashedFile';
+import { withFileLock, writeFileAtomic } from '../common/utils/file-lock';
+
+// Compaction starts once this many entries are dead and they outnumber the live ones
+const COMPACT_MIN_DEAD_ENTRIES = 1000;
+
+export type JournalEntry =
+  | { op: 'put'; record: FileRecord }
+  | { op: 'delete'; path: string }
+  // Explicit folders, so that empty ones survive; folders holding files also exist implicitly
+  | { op: 'mkdir'; path: string }
+  | { op: 'rmdir'; path: string }
+  | { op: 'trash'; entry: TrashedFile }
+  | { op: 'untrash'; id: string };
+
+export interface IndexSnapshot {
+  records: ReadonlyMap<string, FileRecord>;
+  folders: ReadonlySet<string>;
+  // Deleted files by trash entry id
+  trash: ReadonlyMap<string, TrashedFile>;
+}
+
+interface ClientIndex {
+  records: Map<string, FileRecord>;
+  folders: Set<string>;
+  trash: Map<string, TrashedFile>;
+  // Bytes of the journal already applied to `records`
+  offset: number;
+  // Entries applied, live or superseded
+  entries: number;
+  // Identity of the journal file read, to notice it was replaced
+  ino: number;
+  dev: number;
+}
+
+/**
+ * Per-client metadata index backed by an append-only JSON-lines journal at
+ * `<METADATA_ROOT>/<clientKey>/files.jsonl`. The journal is re-read from the
+ * last applied offset on every access so several workers can share it; a
+ * journal replaced by another worker (a rebuild or a compaction) is read again
+ * from the start. Writes hold `files.jsonl.lock`, so that no append is lost to
+ * a concurrent compaction and `update` plans see every other worker's writes.
+ */
+@Injectable()
+export class FileIndexService {
+  private readonly metadataRoot: string;
+  private readonly indexes = new Map<string, ClientIndex>();
+  private readonly queues = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly configService: ConfigService) {
+    const metadataRoot =
+      this.configService.get<string>('METADATA_ROOT') || 'storage-meta';
+    this.metadataRoot = path.resolve(process.cwd(), metadataRoot);
+  }
+
+  private journalFile(clientKey: string): string {
+    const dir = path.resolve(this.metadataRoot, clientKey);
+    if (path.dirname(dir) !== this.metadataRoot) {
+      throw new Error(`Invalid client key: ${clientKey}`);
+    }
+    return path.join(dir, 'files.jsonl');
+  }
+
+  // Serialises journal operations per client within this process
+  private enqueue<T>(clientKey: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(clientKey) ?? Promise.resolve();
+    const next = previous.then(task, task);
+    this.queues.set(
+      clientKey,
+      next.catch(() => undefined),
+    );
+    return next;
+  }
+
+  private apply(index: ClientIndex, raw: string) {
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      index.entries++;
+      try {
+        const entry = JSON.parse(line) as JournalEntry;
+        if (entry.op === 'put') {
+          index.records.set(entry.record.path, entry.record);
+        } else if (entry.op === 'delete') {
+          index.records.delete(entry.path);
+        } else if (entry.op === 'mkdir') {
+          index.folders.add(entry.path);
+        } else if (entry.op === 'rmdir') {
+          index.folders.delete(entry.path);
+        } else if (entry.op === 'trash') {
+          index.trash.set(entry.entry.id, entry.entry);
+        } else if (entry.op === 'untrash') {
+          index.trash.delete(entry.id);
+        }
+      } catch {
+        // Skip a torn or corrupted line rather than losing the whole index
+      }
+    }
+  }
+
+  private async load(clientKey: string): Promise<ClientIndex> {
+    const file = this.journalFile(clientKey);
+    let handle: fs.FileHandle | undefined;
+    try {
+      handle = await fs.open(file, 'r');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+    }
+    try {
+      // Stat the open file: the one at `file` may be replaced at any time
+      const stat = handle ? await handle.stat() : undefined;
+      let index = this.indexes.get(clientKey);
+      if (
+        !index ||
+        !stat ||
+        stat.ino !== index.ino ||
+        stat.dev !== index.dev ||
+        stat.size < index.offset
+      ) {
+        index = {
+          records: new Map(),
+          folders: new Set(),
+          trash: new Map(),
+          offset: 0,
+          entries: 0,
+          ino: stat?.ino ?? 0,
+          dev: stat?.dev ?? 0,
+        };
+        // Nothing is cached for namespaces without a journal
+        if (stat) this.indexes.set(clientKey, index);
+        else this.indexes.delete(clientKey);
+      }
+      if (handle && stat && stat.size > index.offset) {
+        const buffer = Buffer.alloc(stat.size - index.offset);
+        await handle.read(buffer, 0, buffer.length, index.offset);
+        // Only consume complete lines; a concurrent append may be half written
+        const lastNewline = buffer.lastIndexOf(0x0a);
+        if (lastNewline !== -1) {
+          this.apply(
+            index,
+            buffer.subarray(0, lastNewline + 1).toString('utf8'),
+          );
+          index.offset += lastNewline + 1;
+        }
+      }
+      return index;
+    } finally {
+      await handle?.close();
+    }
+  }
+
+  // Runs a journal write exclusively, in this process and across workers
+  private write(clientKey: string, task: () => Promise<void>): Promise<void> {
+    const lockFile = `${this.journalFile(clientKey)}.lock`;
+    return this.enqueue(clientKey, () =>
+      withFileLock(lockFile, async () => {
+        await task();
+        await this.compactIfNeeded(clientKey);
+      }),
+    );
+  }
+
+  // Caller holds the lock
+  private async rewrite(
+    clientKey: string,
+    folders: string[],
+    records: FileRecord[],
+    trash: TrashedFile[],
+  ): Promise<void> {
+    const file = this.journalFile(clientKey);
+    const content = [
+      ...folders.map((folder) => ({ op: 'mkdir', path: folder })),
+      ...records.map((record) => ({ op: 'put', record })),
+      ...trash.map((entry) => ({ op: 'trash', entry })),
+    ]
+      .map((entry) => JSON.stringify(entry) + '\n')
+      .join('');
+    await writeFileAtomic(file, content);
+    this.indexes.delete(clientKey);
+    await this.load(clientKey);
+  }
+
+  // Every put (metadata and preview updates included) appends a whole record
+  private async compactIfNeeded(clientKey: string): Promise<void> {
+    const index = await this.load(clientKey);
+    const live = index.records.size + index.folders.size + index.trash.size;
+    const dead = index.entries - live;
+    if (dead < COMPACT_MIN_DEAD_ENTRIES || dead < live) return;
+    await this.rewrite(
+      clientKey,
+      [...index.folders],
+      [...index.records.values()],
+      [...index.trash.values()],
+    );
+  }
+
+  private async append(
+    clientKey: string,
+    entries: JournalEntry[],
+  ): Promise<void> {
+    if (!entries.length) return;
+    const file = this.journalFile(clientKey);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // One write, so other readers never see half of a multi-entry change
+    const content = entries.map((entry) => JSON.stringify(entry) + '\n');
+    await fs.appendFile(file, content.join(''), 'utf8');
+  }
+
+  async exists(clientKey: string): Promise<boolean> {
+    try {
+      await fs.access(this.journalFile(clientKey));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async list(clientKey: string): Promise<FileRecord[]> {
+    const index = await this.enqueue(clientKey, () => this.load(clientKey));
+    return [...index.records.values()];
+  }
+
+  async get(
+    clientKey: string,
+    filePath: string,
+  ): Promise<FileRecord | undefined> {
+    const index = await this.enqueue(clientKey, () => this.load(clientKey));
+    return index.records.get(filePath);
+  }
+
+  async listFolders(clientKey: string): Promise<string[]> {
+    const index = await this.enqueue(clientKey, () => this.load(clientKey));
+    return [...index.folders];
+  }
+
+  async listTrash(clientKey: string): Promise<TrashedFile[]> {
+    const index = await this.enqueue(clientKey, () => this.load(clientKey));
+    return [...index.trash.values()];
+  }
+
+  /** Namespaces that have an index. */
+  async listClients(): Promise<string[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.metadataRoot);
+    } catch {
+      return [];
+    }
+    const clients: string[] = [];
+    for (const entry of entries) {
+      if (await this.exists(entry)) clients.push(entry);
+    }
+    return clients;
+  }
+
+  async put(clientKey: string, record: FileRecord): Promise<void> {
+    await this.write(clientKey, async () => {
+      await this.append(clientKey, [{ op: 'put', record }]);
+      await this.load(clientKey);
+    });
+  }
+
+  async remove(clientKey: string, filePath: string): Promise<void> {
+    await this.write(clientKey, async () => {
+      await this.append(clientKey, [{ op: 'delete', path: filePath }]);
+      await this.load(clientKey);
+    });
+  }
+
+  /**
+   * Applies the entries returned by `plan`, which sees the up-to-date index and
+   * runs exclusively with the other writes of every process, so it can check
+   * for conflicts (and throw) before anything is written.
+   */
+  async update(
+    clientKey: string,
+    plan: (snapshot: IndexSnapshot) => JournalEntry[],
+  ): Promise<void> {
+    await this.write(clientKey, async () => {
+      const entries = plan(await this.load(clientKey));
+      await this.append(clientKey, entries);
+      await this.load(clientKey);
+    });
+  }
+
+  /**
+   * Atomically replaces the whole journal with a compacted snapshot. Given a
+   * plan, the records are what it returns; it runs holding the journal's lock,
+   * so no other write lands between the snapshot it reads and the replacement.
+   * Explicit folders are kept unless `folders` is given; the trash is always kept.
+   */
+  async replaceAll(
+    clientKey: string,
+    records:
+      | FileRecord[]
+      | ((snapshot: IndexSnapshot) => Promise<FileRecord[]>),
+    folders?: string[],
+  ): Promise<void> {
+    await this.write(clientKey, async () => {
+      const current = await this.load(clientKey);
+      if (typeof records === 'function') records = await records(current);
+      await this.rewrite(clientKey, folders ?? [...current.folders], records, [
+        ...current.trash.values(),
+      ]);
+    });
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { FileScanResult } from '../entities/FileScanResult';
+import { FILE_SCANNERS } from './scanners/file-scanner.interface';
+import type {
+  FileScanner,
+  ScanTarget,
+} from './scanners/file-scanner.interface';
+
+/**
+ * Runs the configured upload scanners (UPLOAD_SCANNERS) in order. Scanning
+ * fails closed: when a scanner cannot give a verdict the upload is refused
+ * with a 503 rather than stored unscanned.
+ */
+@Injectable()
+export class FileScanService {
+  private readonly logger = new Logger(FileScanService.name);
+
+  constructor(
+    @Inject(FILE_SCANNERS) private readonly scanners: FileScanner[],
+  ) {}
+
+  /** Returns null when scanning is disabled. */
+  async scan(target: ScanTarget): Promise<FileScanResult | null> {
+    if (!this.scanners.length) return null;
+    const threats: string[] = [];
+    for (const scanner of this.scanners) {
+      try {
+        const verdict = await scanner.scan(target);
+        threats.push(...verdict.threats);
+      } catch (err) {
+        this.logger.error(
+          `Scanner ${scanner.name} failed on ${target.originalName}: ${(err as Error).message}`,
+        );
+        throw new ServiceUnavailableException(
+          'File could not be scanned, try again later',
+        );
+      }
+    }
+    return {
+      status: threats.length ? 'infected' : 'clean',
+      scanners: this.scanners.map((scanner) => scanner.name),
+      threats,
+      scannedAt: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Param,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import type { CreateFolderDto } from '../dtos/CreateFolderDto';
+import type { MoveStorageItemDto } from '../dtos/MoveStorageItemDto';
+import type { RenameStorageItemDto } from '../dtos/RenameStorageItemDto';
+import { StorageService } from './storage.service';
+import { ScopeGuard } from '../keys/scope.guard';
+import { RequireScope } from '../keys/require-scope.decorator';
+import { AuditGuard, AuditResultInterceptor } from '../audit/audit.guard';
+import { Audit } from '../audit/audit.decorator';
+import { storageTarget } from '../audit/audit-targets';
+
+// Folders are virtual: listing them goes through GET /storage/list?prefix=...&delimiter=/
+@Controller('storage/folders')
+@UseGuards(AuditGuard, ScopeGuard)
+@UseInterceptors(AuditResultInterceptor)
+export class FolderController {
+  constructor(private readonly storageService: StorageService) {}
+
+  @Post()
+  @Audit('folder.create', storageTarget)
+  @RequireScope('write')
+  async create(@Body() dto: CreateFolderDto, @Req() req: Request) {
+    if (!req.clientKey) throw new BadRequestException('Missing client key');
+    return this.storageService.createFolder(req.clientKey, dto?.path);
+  }
+
+  @Post('move')
+  @Audit('folder.move', storageTarget)
+  @RequireScope('write')
+  async move(@Body() dto: MoveStorageItemDto, @Req() req: Request) {
+    if (!req.clientKey) throw new BadRequestException('Missing client key');
+    return this.storageService.moveFolder(req.clientKey, dto?.from, dto?.to);
+  }
+
+  @Post('rename')
+  @Audit('folder.rename', storageTarget)
+  @RequireScope('write')
+  async rename(@Body() dto: RenameStorageItemDto, @Req() req: Request) {
+    if (!req.clientKey) throw new BadRequestException('Missing client key');
+    return this.storageService.renameFolder(
+      req.clientKey,
+      dto?.path,
+      dto?.name,
+    );
+  }
+
+  // ?recursive=true also deletes every file inside the folder
+  @Delete('*path')
+  @Audit('folder.delete', storageTarget)
+  @RequireScope('delete')
+  async remove(
+    @Param('path') path: string | string[],
+    @Query('recursive') recursive: string | undefined,
+    @Req() req: Request,
+  ) {
+    if (!req.clientKey) throw new BadRequestException('Missing client key');
+    const credential = req.clientCredential;
+    return this.storageService.deleteFolder(
+      req.clientKey,
+      Array.isArray(path) ? path.join('/') : path,
+      recursive === '1' || recursive === 'true',
+      credential
+        ? { credentialId: credential.id, name: credential.name }
+        : null,
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Param,
+  Query,
+  Req,
+  Res,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { StorageService } from './storage.service';
+import { FileDeliveryService } from './file-delivery.service';
+import { ImageTransformService } from './image-transform.service';
+import { ScopeGuard } from '../keys/scope.guard';
+import { RequireScope } from '../keys/require-scope.decorator';
+import { AuditGuard, AuditResultInterceptor } from '../audit/audit.guard';
+import { Audit } from '../audit/audit.decorator';
+import { storageTarget } from '../audit/audit-targets';
+
+// e.g. /storage/image/<path>?w=300&h=300&fit=cover&format=webp&q=80, or ?preset=thumb
+@Controller('storage/image')
+@UseGuards(AuditGuard, ScopeGuard)
+@UseInterceptors(AuditResultInterceptor)
+export class ImageTransformController {
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly imageTransformService: ImageTransformService,
+    private readonly fileDeliveryService: FileDeliveryService,
+  ) {}
+
+  @Get('*path')
+  @Audit('file.image', storageTarget)
+  @RequireScope('read')
+  async get(
+    @Param('path') path: string | string[],
+    @Query() query: Record<string, unknown>,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    if (!req.clientKey) throw new BadRequestException('Missing client key');
+    const options = this.imageTransformService.resolveOptions(
+      req.clientRecord,
+      query,
+    );
+    const filePath = Array.isArray(path) ? path.join('/') : path;
+    const record = await this.storageService.resolveFile(
+      req.clientKey,
+      filePath,
+    );
+    const derivative = await this.imageTransformService.getDerivative(
+      req.clientKey,
+      record,
+      options,
+    );
+    await this.fileDeliveryService.send(req, res, req.clientKey, derivative, {
+      download: query.download === '1' || query.download === 'true',
+    });
+  }
+}
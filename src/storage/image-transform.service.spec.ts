@@ -0,0 +1,101 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Readable } from 'stream';
+import sharp from 'sharp';
+import { ClientKeyRecord } from '../entities/ClientKeyRecord';
+import { FileRecord } from '../entities/FileRecord';
+import { EncryptionService } from './encryption.service';
+import { ImageTransformService } from './image-transform.service';
+import { StorageService } from './storage.service';
+
+function image(checksum: string): FileRecord {
+  const now = new Date().toISOString();
+  return {
+    id: 'file-1',
+    path: 'a.png',
+    filename: 'a.png',
+    originalName: 'a.png',
+    mimeType: 'image/png',
+    size: 1,
+    checksum,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+describe('ImageTransformService', () => {
+  let stored: Map<string, number>;
+  let service: ImageTransformService;
+
+  beforeEach(async () => {
+    stored = new Map();
+    const png = await sharp({
+      create: { width: 4, height: 4, channels: 3, background: '#f00' },
+    })
+      .png()
+      .toBuffer();
+    service = new ImageTransformService(
+      new ConfigService({ IMAGE_MAX_DIMENSION: '1000' }),
+      {
+        openFile: () => Promise.resolve(Readable.from([png])),
+      } as unknown as StorageService,
+      {
+        stat: (namespace: string, key: string) =>
+          Promise.resolve(stored.has(key) ? { size: stored.get(key) } : null),
+        put: (namespace: string, key: string, body: Buffer) => {
+          stored.set(key, body.length);
+          return Promise.resolve({ size: body.length });
+        },
+      } as unknown as EncryptionService,
+    );
+  });
+
+  describe('resolveOptions', () => {
+    const withPresets = {
+      imagePresets: { thumb: { width: 100, height: 100 } },
+    } as unknown as ClientKeyRecord;
+
+    it('only lets clients with presets use those', () => {
+      expect(service.resolveOptions(withPresets, { preset: 'thumb' })).toEqual({
+        width: 100,
+        height: 100,
+      });
+      for (const query of [
+        { w: '50' },
+        {},
+        { preset: 'other' },
+        { preset: 'toString' },
+        { preset: ['thumb'] },
+      ]) {
+        expect(() => service.resolveOptions(withPresets, query)).toThrow(
+          BadRequestException,
+        );
+      }
+    });
+
+    it('parses the query of clients without presets', () => {
+      expect(
+        service.resolveOptions({} as ClientKeyRecord, { w: '50' }),
+      ).toMatchObject({ width: 50 });
+      expect(() =>
+        service.resolveOptions({} as ClientKeyRecord, { w: '1001' }),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        service.resolveOptions({} as ClientKeyRecord, { preset: 'thumb' }),
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  it('caches derivatives per content, not only per file id', async () => {
+    const first = await service.getDerivative('ns', image('a'.repeat(64)), {
+      width: 2,
+    });
+    // A new version keeps the file id
+    const second = await service.getDerivative('ns', image('b'.repeat(64)), {
+      width: 2,
+    });
+    expect(second.path).not.toBe(first.path);
+    expect(first.path).toContain('a'.repeat(64));
+    expect(stored.size).toBe(2);
+  });
+});
@@ -0,0 +1,165 @@
+import {
+  BadRequestException,
+  Injectable,
+  UnprocessableEntityException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import * as path from 'path';
+import sharp from 'sharp';
+import { ClientKeyRecord } from '../entities/ClientKeyRecord';
+import { FileRecord } from '../entities/FileRecord';
+import {
+  ImageFormat,
+  ImageTransformOptions,
+} from '../entities/ImageTransformOptions';
+import {
+  DEFAULT_IMAGE_QUALITY,
+  derivativeName,
+  parseImageTransformQuery,
+} from '../common/utils/image-transform';
+import { derivativePath, StorageService } from './storage.service';
+import { EncryptionService } from './encryption.service';
+
+// Source types we decode, and the format a derivative keeps when none is asked for
+const SOURCE_FORMATS: Record<string, ImageFormat> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/gif': 'png',
+  'image/tiff': 'jpeg',
+  'image/bmp': 'png',
+};
+
+const FORMAT_MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+/**
+ * Resized / re-encoded variants of stored images. Derivatives are written next
+ * to the client's files under `.derivatives/<file id>/<transform>` and are
+ * dropped by StorageService.deleteFile together with the original.
+ */
+@Injectable()
+export class ImageTransformService {
+  readonly maxDimension: number;
+  // Renders in progress, so concurrent requests for a cold variant share one
+  private readonly rendering = new Map<string, Promise<FileRecord>>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+    private readonly encryption: EncryptionService,
+  ) {
+    this.maxDimension = Number(
+      this.configService.get<string>('IMAGE_MAX_DIMENSION') || 4096,
+    );
+  }
+
+  /**
+   * Picks the transform for a request. Clients with presets configured may only
+   * use those (`?preset=name`), so arbitrary sizes cannot fill the cache.
+   */
+  resolveOptions(
+    client: ClientKeyRecord | undefined,
+    query: Record<string, unknown>,
+  ): ImageTransformOptions {
+    const presets = client?.imagePresets ?? {};
+    const names = Object.keys(presets);
+    if (query.preset !== undefined) {
+      const name = typeof query.preset === 'string' ? query.preset : '';
+      if (!Object.prototype.hasOwnProperty.call(presets, name)) {
+        throw new BadRequestException(`Unknown image preset "${name}"`);
+      }
+      return presets[name];
+    }
+    if (names.length) {
+      throw new BadRequestException(
+        `Only image presets are allowed: ${names.join(', ')}`,
+      );
+    }
+    return parseImageTransformQuery(query, this.maxDimension);
+  }
+
+  async getDerivative(
+    clientKey: string,
+    record: FileRecord,
+    options: ImageTransformOptions,
+  ): Promise<FileRecord> {
+    const sourceFormat =
+      SOURCE_FORMATS[record.detectedMimeType ?? record.mimeType];
+    if (!sourceFormat) {
+      throw new UnsupportedMediaTypeException(
+        'Only JPEG, PNG, WebP, AVIF, GIF, TIFF and BMP images can be transformed',
+      );
+    }
+    const format = options.format ?? sourceFormat;
+    const name = derivativeName({ ...options, format });
+    const relativePath = derivativePath(record, name);
+    const derivative: FileRecord = {
+      ...record,
+      path: relativePath,
+      blob: false,
+      filename: name,
+      originalName: `${path.parse(record.originalName).name}.${format === 'jpeg' ? 'jpg' : format}`,
+      mimeType: FORMAT_MIME_TYPES[format],
+      detectedMimeType: FORMAT_MIME_TYPES[format],
+      // Same original + same transform = same bytes, so this is a valid strong validator
+      checksum: createHash('sha256')
+        .update(`${record.checksum}/${name}`)
+        .digest('hex'),
+    };
+
+    const key = `${clientKey}/${relativePath}`;
+    const cached = await this.encryption.stat(clientKey, key);
+    if (cached) return { ...derivative, size: cached.size };
+
+    let pending = this.rendering.get(key);
+    if (!pending) {
+      pending = this.render(clientKey, record, key, { ...options, format })
+        .then((size) => ({ ...derivative, size }))
+        .finally(() => this.rendering.delete(key));
+      this.rendering.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async render(
+    clientKey: string,
+    record: FileRecord,
+    key: string,
+    options: ImageTransformOptions & { format: ImageFormat },
+  ): Promise<number> {
+    const source = await this.storageService.openFile(clientKey, record);
+    // rotate() applies the EXIF orientation; metadata is not copied to the output
+    const transformer = sharp({ failOn: 'error' })
+      .rotate()
+      .resize({
+        width: options.width,
+        height: options.height,
+        fit: options.fit ?? 'cover',
+        withoutEnlargement: true,
+      })
+      .toFormat(options.format, {
+        quality: options.quality ?? DEFAULT_IMAGE_QUALITY,
+      });
+    source.on('error', (err) => transformer.destroy(err));
+    let output: Buffer;
+    try {
+      output = await source.pipe(transformer).toBuffer();
+    } catch {
+      throw new UnprocessableEntityException('Image could not be decoded');
+    } finally {
+      source.destroy();
+    }
+    await this.encryption.put(clientKey, key, output, {
+      contentType: FORMAT_MIME_TYPES[options.format],
+    });
+    return output.length;
+  }
+}
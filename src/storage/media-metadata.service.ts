@@ -0,0 +1,231 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import sharp from 'sharp';
+import { Readable } from 'stream';
+import { MediaMetadata } from '../entities/MediaMetadata';
+import { parseExif } from '../common/utils/exif';
+import { runTool, withLocalCopy } from '../common/utils/external-tool';
+
+// Content to read: in memory, a local file, or a stream
+export type MetadataSource = Buffer | string | Readable;
+
+export interface ExtractOptions {
+  // Leave the GPS position out of the EXIF data
+  stripGps?: boolean;
+}
+
+const IMAGE_TYPES = new Set([
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/avif',
+  'image/gif',
+  'image/tiff',
+  'image/svg+xml',
+]);
+
+interface ProbeStream {
+  codec_type?: string;
+  codec_name?: string;
+  width?: number;
+  height?: number;
+  avg_frame_rate?: string;
+  sample_rate?: string;
+  channels?: number;
+  tags?: Record<string, string>;
+  side_data_list?: { rotation?: number }[];
+  disposition?: { attached_pic?: number };
+}
+
+interface ProbeOutput {
+  streams?: ProbeStream[];
+  format?: {
+    format_name?: string;
+    duration?: string;
+    bit_rate?: string;
+    tags?: Record<string, string>;
+  };
+}
+
+function toNumber(value: string | number | undefined): number | undefined {
+  const number = Number(value);
+  return value === undefined || value === '' || !Number.isFinite(number)
+    ? undefined
+    : number;
+}
+
+// "30000/1001" -> 29.97
+function frameRate(value: string | undefined): number | undefined {
+  const [numerator, denominator] = (value ?? '').split('/').map(Number);
+  if (!numerator || !denominator) return undefined;
+  return Math.round((numerator / denominator) * 100) / 100;
+}
+
+/**
+ * Reads the properties of stored content that apps would otherwise download
+ * the file for: image dimensions and EXIF (sharp), audio / video duration and
+ * codecs (ffprobe) and PDF page count and title (pdfinfo, from poppler-utils).
+ * The tools are optional: without them the metadata carries an error instead.
+ */
+@Injectable()
+export class MediaMetadataService {
+  private readonly logger = new Logger(MediaMetadataService.name);
+  private readonly ffprobe: string;
+  private readonly pdfinfo: string;
+  private readonly timeoutMs: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.ffprobe = this.configService.get<string>('FFPROBE_PATH') ?? 'ffprobe';
+    this.pdfinfo = this.configService.get<string>('PDFINFO_PATH') ?? 'pdfinfo';
+    this.timeoutMs =
+      Number(this.configService.get<string>('METADATA_TIMEOUT') || 30) * 1000;
+  }
+
+  /** Whether metadata is read for this (sniffed or declared) type. */
+  supports(mimeType: string): boolean {
+    return (
+      IMAGE_TYPES.has(mimeType) ||
+      mimeType === 'application/pdf' ||
+      mimeType.startsWith('video/') ||
+      mimeType.startsWith('audio/')
+    );
+  }
+
+  /**
+   * Metadata of the content; null for types it is not read for. Never throws:
+   * unreadable content gives metadata with just an error.
+   */
+  async extract(
+    mimeType: string,
+    source: MetadataSource,
+    options: ExtractOptions = {},
+  ): Promise<MediaMetadata | null> {
+    if (!this.supports(mimeType)) {
+      if (source instanceof Readable) source.destroy();
+      return null;
+    }
+    const extractedAt = new Date().toISOString();
+    try {
+      let metadata: Omit<MediaMetadata, 'extractedAt'>;
+      if (IMAGE_TYPES.has(mimeType)) {
+        metadata = await this.readImage(source, options);
+      } else if (mimeType === 'application/pdf') {
+        metadata = await this.withFile(source, (file) => this.readPdf(file));
+      } else {
+        metadata = await this.withFile(source, (file) => this.probe(file));
+      }
+      return { ...metadata, extractedAt };
+    } catch (err) {
+      const message = (err as Error).message;
+      this.logger.debug(`Metadata extraction failed: ${message}`);
+      return { error: message, extractedAt };
+    }
+  }
+
+  private async withFile<T>(
+    source: MetadataSource,
+    task: (file: string) => Promise<T>,
+  ): Promise<T> {
+    if (typeof source === 'string') return task(source);
+    return withLocalCopy(
+      Buffer.isBuffer(source) ? Readable.from([source]) : source,
+      (file) => task(file),
+    );
+  }
+
+  private async readImage(
+    source: MetadataSource,
+    options: ExtractOptions,
+  ): Promise<Omit<MediaMetadata, 'extractedAt'>> {
+    let info: sharp.Metadata;
+    if (source instanceof Readable) {
+      const reader = sharp();
+      source.on('error', (err) => reader.destroy(err));
+      try {
+        info = await source.pipe(reader).metadata();
+      } finally {
+        source.destroy();
+      }
+    } else {
+      info = await sharp(source).metadata();
+    }
+    const exif = info.exif ? parseExif(info.exif) : null;
+    if (exif && options.stripGps) exif.gps = null;
+    // Orientations 5-8 turn the image a quarter: displayed width is the stored height
+    const turned = (info.orientation ?? 1) >= 5;
+    return {
+      width: turned ? info.height : info.width,
+      height: turned ? info.width : info.height,
+      format: info.format,
+      exif,
+    };
+  }
+
+  private async readPdf(
+    file: string,
+  ): Promise<Omit<MediaMetadata, 'extractedAt'>> {
+    const output = await runTool(
+      this.pdfinfo,
+      ['-enc', 'UTF-8', file],
+      this.timeoutMs,
+    );
+    const fields = new Map<string, string>();
+    for (const line of output.split('\n')) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        fields.set(line.slice(0, separator), line.slice(separator + 1).trim());
+      }
+    }
+    // e.g. "612 x 792 pts (letter)"
+    const size = fields.get('Page size')?.match(/^([\d.]+) x ([\d.]+) pts/);
+    return {
+      pageCount: toNumber(fields.get('Pages')),
+      title: fields.get('Title') || null,
+      width: size ? Math.round(Number(size[1])) : undefined,
+      height: size ? Math.round(Number(size[2])) : undefined,
+    };
+  }
+
+  private async probe(
+    file: string,
+  ): Promise<Omit<MediaMetadata, 'extractedAt'>> {
+    const output = await runTool(
+      this.ffprobe,
+      [
+        '-v',
+        'error',
+        '-print_format',
+        'json',
+        '-show_format',
+        '-show_streams',
+        file,
+      ],
+      this.timeoutMs,
+    );
+    const probe = JSON.parse(output) as ProbeOutput;
+    const streams = probe.streams ?? [];
+    // Cover art of audio files shows up as a one-frame video stream
+    const video = streams.find(
+      (stream) =>
+        stream.codec_type === 'video' && !stream.disposition?.attached_pic,
+    );
+    const audio = streams.find((stream) => stream.codec_type === 'audio');
+    const rotation =
+      video?.side_data_list?.find((data) => data.rotation !== undefined)
+        ?.rotation ?? toNumber(video?.tags?.rotate);
+    const turned = Math.abs(rotation ?? 0) % 180 === 90;
+    return {
+      width: turned ? video?.height : video?.width,
+      height: turned ? video?.width : video?.height,
+      format: probe.format?.format_name,
+      duration: toNumber(probe.format?.duration),
+      bitRate: toNumber(probe.format?.bit_rate),
+      videoCodec: video?.codec_name,
+      frameRate: frameRate(video?.avg_frame_rate),
+      audioCodec: audio?.codec_name,
+      sampleRate: toNumber(audio?.sample_rate),
+      channels: audio?.channels,
+      title: probe.format?.tags?.title ?? null,
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  Req,
+  Res,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { FileDeliveryService } from './file-delivery.service';
+import { PreviewService } from './preview.service';
+import { ScopeGuard } from '../keys/scope.guard';
+import { RequireScope } from '../keys/require-scope.decorator';
+import { AuditGuard, AuditResultInterceptor } from '../audit/audit.guard';
+import { Audit } from '../audit/audit.decorator';
+import { storageTarget } from '../audit/audit-targets';
+
+// The thumbnail's status is part of GET /storage/file-info/<path> (`preview`)
+@Controller('storage/thumbnail')
+@UseGuards(AuditGuard, ScopeGuard)
+@UseInterceptors(AuditResultInterceptor)
+export class PreviewController {
+  constructor(
+    private readonly previewService: PreviewService,
+    private readonly fileDeliveryService: FileDeliveryService,
+  ) {}
+
+  @Get('*path')
+  @Audit('file.thumbnail', storageTarget)
+  @RequireScope('read')
+  async get(
+    @Param('path') path: string | string[],
+    @Query('download') download: string | undefined,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    if (!req.clientKey) throw new BadRequestException('Missing client key');
+    const thumbnail = await this.previewService.getThumbnail(
+      req.clientKey,
+      Array.isArray(path) ? path.join('/') : path,
+    );
+    await this.fileDeliveryService.send(req, res, req.clientKey, thumbnail, {
+      download: download === '1' || download === 'true',
+    });
+  }
+
+  @Post('*path')
+  @Audit('file.thumbnail_regenerate', storageTarget)
+  @RequireScope('write')
+  async regenerate(
+    @Param('path') path: string | string[],
+    @Req() req: Request,
+  ) {
+    if (!req.clientKey) throw new BadRequestException('Missing client key');
+    return this.previewService.regenerate(
+      req.clientKey,
+      Array.isArray(path) ? path.join('/') : path,
+    );
+  }
+}
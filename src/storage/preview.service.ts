@@ -0,0 +1,312 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleInit,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import * as path from 'path';
+import sharp from 'sharp';
+import { FileRecord } from '../entities/FileRecord';
+import { FilePreview } from '../entities/FilePreview';
+import {
+  derivativePath,
+  DERIVATIVES_DIR,
+  StorageService,
+} from './storage.service';
+import { EncryptionService } from './encryption.service';
+import { FileIndexService } from './file-index.service';
+import {
+  runTool,
+  ToolNotInstalledError,
+  withLocalCopy,
+} from '../common/utils/external-tool';
+
+const THUMBNAIL_NAME = 'thumbnail.webp';
+
+const IMAGE_TYPES = new Set([
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/avif',
+  'image/gif',
+  'image/tiff',
+]);
+
+interface PreviewJob {
+  clientKey: string;
+  record: FileRecord;
+}
+
+// The file cannot be previewed here; not worth retrying until the setup changes
+class PreviewUnsupportedError extends Error {}
+
+/**
+ * Thumbnails for the files of a client: images are resized with sharp, the
+ * first page of PDFs is rendered with pdftoppm and videos get a poster frame
+ * from ffmpeg, when those are installed. Files are queued when StorageService
+ * reports new content and rendered in the background, so an upload never
+ * waits for (or fails because of) its thumbnail. The state is kept in the
+ * file's record (`preview`); the thumbnail itself is stored as a derivative,
+ * `.derivatives/<file id>/thumbnail.webp`.
+ */
+@Injectable()
+export class PreviewService implements OnModuleInit, OnApplicationBootstrap {
+  private readonly logger = new Logger(PreviewService.name);
+  private readonly size: number;
+  private readonly concurrency: number;
+  private readonly timeoutMs: number;
+  private readonly maxSourceSize: number;
+  private readonly pdftoppm: string;
+  private readonly ffmpeg: string;
+  private readonly queue: PreviewJob[] = [];
+  private running = 0;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+    private readonly fileIndex: FileIndexService,
+    private readonly encryption: EncryptionService,
+  ) {
+    this.size = Number(this.configService.get<string>('PREVIEW_SIZE') || 320);
+    this.concurrency = Number(
+      this.configService.get<string>('PREVIEW_CONCURRENCY') || 1,
+    );
+    this.timeoutMs =
+      Number(this.configService.get<string>('PREVIEW_TIMEOUT') || 60) * 1000;
+    this.maxSourceSize = Number(
+      this.configService.get<string>('PREVIEW_MAX_SOURCE_SIZE') || 1073741824,
+    );
+    this.pdftoppm =
+      this.configService.get<string>('PDFTOPPM_PATH') ?? 'pdftoppm';
+    this.ffmpeg = this.configService.get<string>('FFMPEG_PATH') ?? 'ffmpeg';
+  }
+
+  onModuleInit() {
+    this.storageService.onNewContent((clientKey, record) => {
+      this.schedule(clientKey, record).catch((err: Error) =>
+        this.logger.error(
+          `Could not queue preview of ${record.id}: ${err.message}`,
+        ),
+      );
+    });
+  }
+
+  // Files still pending when the process stopped
+  onApplicationBootstrap() {
+    this.resumePending().catch((err: Error) =>
+      this.logger.error(`Could not resume previews: ${err.message}`),
+    );
+  }
+
+  private async resumePending(): Promise<void> {
+    for (const clientKey of await this.fileIndex.listClients()) {
+      for (const record of await this.fileIndex.list(clientKey)) {
+        if (record.preview?.status === 'pending')
+          this.enqueue({ clientKey, record });
+      }
+    }
+  }
+
+  private kindOf(record: FileRecord): FilePreview['kind'] | null {
+    const type = record.detectedMimeType ?? record.mimeType;
+    if (IMAGE_TYPES.has(type)) return 'image';
+    if (type === 'application/pdf') return 'pdf';
+    if (type.startsWith('video/')) return 'video';
+    return null;
+  }
+
+  private async setPreview(
+    clientKey: string,
+    record: FileRecord,
+    status: FilePreview['status'],
+    error: string | null = null,
+  ): Promise<boolean> {
+    return this.storageService.setPreview(clientKey, record, {
+      status,
+      kind: this.kindOf(record)!,
+      error,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  /** Queues a thumbnail for the file's current content; false when none is made for its type. */
+  async schedule(clientKey: string, record: FileRecord): Promise<boolean> {
+    if (record.quarantined || !this.kindOf(record)) return false;
+    if (await this.setPreview(clientKey, record, 'pending')) {
+      this.enqueue({ clientKey, record });
+    }
+    return true;
+  }
+
+  /** Renders a file's thumbnail again, e.g. after it failed or the tools were installed. */
+  async regenerate(clientKey: string, filePath: string) {
+    const record = await this.storageService.resolveFile(clientKey, filePath);
+    if (!(await this.schedule(clientKey, record))) {
+      throw new UnsupportedMediaTypeException(
+        'Thumbnails are made for images, PDFs and videos only',
+      );
+    }
+    return this.storageService.getFileInfo(clientKey, filePath);
+  }
+
+  /** The thumbnail of a file as a servable record, once it is ready. */
+  async getThumbnail(clientKey: string, filePath: string): Promise<FileRecord> {
+    const record = await this.storageService.resolveFile(clientKey, filePath);
+    const ready = record.preview?.status === 'ready' && !record.quarantined;
+    let relativePath = derivativePath(record, THUMBNAIL_NAME);
+    let stat = ready
+      ? await this.encryption.stat(clientKey, `${clientKey}/${relativePath}`)
+      : null;
+    // Thumbnails rendered before derivatives were kept per content
+    if (ready && !stat) {
+      relativePath = `${DERIVATIVES_DIR}/${record.id}/${THUMBNAIL_NAME}`;
+      stat = await this.encryption.stat(
+        clientKey,
+        `${clientKey}/${relativePath}`,
+      );
+    }
+    if (!stat) {
+      throw new NotFoundException(
+        `Thumbnail not available (${record.preview?.status ?? 'none'})`,
+      );
+    }
+    return {
+      ...record,
+      path: relativePath,
+      blob: false,
+      filename: THUMBNAIL_NAME,
+      originalName: `${path.parse(record.originalName).name}.webp`,
+      mimeType: 'image/webp',
+      detectedMimeType: 'image/webp',
+      size: stat.size,
+      checksum: createHash('sha256')
+        .update(`${record.checksum}/${THUMBNAIL_NAME}/${this.size}`)
+        .digest('hex'),
+    };
+  }
+
+  private enqueue(job: PreviewJob): void {
+    this.queue.push(job);
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.running < this.concurrency && this.queue.length) {
+      const job = this.queue.shift()!;
+      this.running++;
+      void this.process(job).finally(() => {
+        this.running--;
+        this.drain();
+      });
+    }
+  }
+
+  private async process({ clientKey, record }: PreviewJob): Promise<void> {
+    try {
+      const thumbnail = await this.render(clientKey, record);
+      await this.encryption.put(
+        clientKey,
+        `${clientKey}/${derivativePath(record, THUMBNAIL_NAME)}`,
+        thumbnail,
+        { contentType: 'image/webp' },
+      );
+      await this.setPreview(clientKey, record, 'ready');
+    } catch (err) {
+      const message = (err as Error).message;
+      const unsupported =
+        err instanceof PreviewUnsupportedError ||
+        err instanceof ToolNotInstalledError;
+      if (!unsupported) {
+        this.logger.warn(
+          `Preview of ${clientKey}/${record.path} failed: ${message}`,
+        );
+      }
+      await this.setPreview(
+        clientKey,
+        record,
+        unsupported ? 'unsupported' : 'failed',
+        message,
+      ).catch(() => undefined);
+    }
+  }
+
+  private thumbnail(image: sharp.Sharp): sharp.Sharp {
+    // rotate() applies the EXIF orientation; metadata is not copied to the output
+    return image
+      .rotate()
+      .resize({
+        width: this.size,
+        height: this.size,
+        fit: 'inside',
+        withoutEnlargement: true,
+      })
+      .webp({ quality: 75 });
+  }
+
+  private async render(clientKey: string, record: FileRecord): Promise<Buffer> {
+    const kind = this.kindOf(record);
+    if (kind === 'image') {
+      const source = await this.storageService.openFile(clientKey, record);
+      const transformer = this.thumbnail(sharp({ failOn: 'error' }));
+      source.on('error', (err) => transformer.destroy(err));
+      try {
+        return await source.pipe(transformer).toBuffer();
+      } finally {
+        source.destroy();
+      }
+    }
+    const command = kind === 'pdf' ? this.pdftoppm : this.ffmpeg;
+    if (!command) {
+      throw new PreviewUnsupportedError(`${kind} previews are disabled`);
+    }
+    if (record.size > this.maxSourceSize) {
+      throw new PreviewUnsupportedError('File is too large for a preview');
+    }
+    // Both tools need a seekable local file
+    const source = await this.storageService.openFile(clientKey, record);
+    return withLocalCopy(source, async (input, dir) => {
+      const frame = path.join(dir, 'frame.png');
+      if (kind === 'pdf') {
+        await runTool(
+          command,
+          [
+            '-f',
+            '1',
+            '-l',
+            '1',
+            '-png',
+            '-singlefile',
+            '-scale-to',
+            String(this.size * 2),
+            input,
+            frame.slice(0, -'.png'.length),
+          ],
+          this.timeoutMs,
+        );
+      } else {
+        // thumbnail picks a representative frame among the first ones, not a black intro
+        await runTool(
+          command,
+          [
+            '-v',
+            'error',
+            '-i',
+            input,
+            '-vf',
+            'thumbnail',
+            '-frames:v',
+            '1',
+            '-y',
+            frame,
+          ],
+          this.timeoutMs,
+        );
+      }
+      return this.thumbnail(sharp(frame, { failOn: 'error' })).toBuffer();
+    });
+  }
+}
@@ -0,0 +1,59 @@
+import { NotFoundException } from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { ClientKeyRecord } from '../entities/ClientKeyRecord';
+import { FileRecord } from '../entities/FileRecord';
+import { ClientKeyService } from '../keys/client-key.service';
+import { UsageService } from '../usage/usage.service';
+import { FileDeliveryService } from './file-delivery.service';
+import { PublicFileController } from './public-file.controller';
+import { StorageService } from './storage.service';
+
+const record = { path: 'a.png', isPrivate: false } as FileRecord;
+
+function setup(client: Partial<ClientKeyRecord> | undefined) {
+  const storageService = {
+    resolveFile: jest.fn().mockResolvedValue(record),
+  };
+  const fileDeliveryService = { send: jest.fn().mockResolvedValue(undefined) };
+  const usageService = { admit: jest.fn().mockResolvedValue(undefined) };
+  const clientKeyService = {
+    findByNamespace: jest.fn().mockResolvedValue(client),
+  };
+  const controller = new PublicFileController(
+    storageService as unknown as StorageService,
+    fileDeliveryService as unknown as FileDeliveryService,
+    usageService as unknown as UsageService,
+    clientKeyService as unknown as ClientKeyService,
+  );
+  const get = () =>
+    controller.get('ns', ['a.png'], undefined, {} as Request, {} as Response);
+  return { storageService, fileDeliveryService, get };
+}
+
+describe('PublicFileController', () => {
+  it('answers 404 for unknown namespaces without touching their index', async () => {
+    const { storageService, get } = setup(undefined);
+    await expect(get()).rejects.toBeInstanceOf(NotFoundException);
+    expect(storageService.resolveFile).not.toHaveBeenCalled();
+  });
+
+  it('never serves the files of encrypted clients', async () => {
+    const { storageService, get } = setup({
+      namespace: 'ns',
+      encryption: { activeKeyId: 'k', keys: [], enabledAt: '' },
+    });
+    await expect(get()).rejects.toBeInstanceOf(NotFoundException);
+    expect(storageService.resolveFile).not.toHaveBeenCalled();
+  });
+
+  it('serves public files of active clients from an existing index only', async () => {
+    const { storageService, fileDeliveryService, get } = setup({
+      namespace: 'ns',
+    });
+    await get();
+    expect(storageService.resolveFile).toHaveBeenCalledWith('ns', 'a.png', {
+      buildIndex: false,
+    });
+    expect(fileDeliveryService.send).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,51 @@
+import {
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Query,
+  Req,
+  Res,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { StorageService } from './storage.service';
+import { FileDeliveryService } from './file-delivery.service';
+import { UsageService } from '../usage/usage.service';
+import { ClientKeyService } from '../keys/client-key.service';
+
+// Public, unauthenticated URLs (`publicUrl` in StoredFile), served with the same semantics as /storage/file
+@Controller('storage-data')
+export class PublicFileController {
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly fileDeliveryService: FileDeliveryService,
+    private readonly usageService: UsageService,
+    private readonly clientKeyService: ClientKeyService,
+  ) {}
+
+  @Get(':clientKey/*path')
+  async get(
+    @Param('clientKey') clientKey: string,
+    @Param('path') path: string | string[],
+    @Query('download') download: string | undefined,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    // Unknown, revoked and encrypted clients all answer 404, so namespaces cannot be probed.
+    // Files of encrypted clients are only served to their keys and through share links.
+    const client = await this.clientKeyService.findByNamespace(clientKey);
+    if (!client || client.encryption) {
+      throw new NotFoundException('File not found');
+    }
+    // Counts against the client's download traffic
+    await this.usageService.admit(req, res, client, { rateLimit: false });
+    const filePath = Array.isArray(path) ? path.join('/') : path;
+    const record = await this.storageService.resolveFile(clientKey, filePath, {
+      buildIndex: false,
+    });
+    if (record.isPrivate) throw new NotFoundException('File not found');
+    await this.fileDeliveryService.send(req, res, clientKey, record, {
+      download: download === '1' || download === 'true',
+    });
+  }
+}
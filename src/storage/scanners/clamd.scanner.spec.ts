@@ -0,0 +1,84 @@
+import { AddressInfo, createServer, Server, Socket } from 'net';
+import { Readable } from 'stream';
+import { ClamdScanner } from './clamd.scanner';
+
+// Decodes an INSTREAM request and answers like clamd
+function fakeClamd(reply: (content: Buffer) => string): Server {
+  return createServer((socket: Socket) => {
+    let received = Buffer.alloc(0);
+    socket.on('data', (chunk: Buffer) => {
+      received = Buffer.concat([received, chunk]);
+      const command = 'zINSTREAM\0';
+      let offset = command.length;
+      const parts: Buffer[] = [];
+      while (received.length >= offset + 4) {
+        const size = received.readUInt32BE(offset);
+        if (size === 0) {
+          expect(received.subarray(0, command.length).toString()).toBe(command);
+          socket.end(`${reply(Buffer.concat(parts))}\0`);
+          return;
+        }
+        if (received.length < offset + 4 + size) return;
+        parts.push(received.subarray(offset + 4, offset + 4 + size));
+        offset += 4 + size;
+      }
+    });
+  });
+}
+
+describe('ClamdScanner', () => {
+  let server: Server | undefined;
+
+  const scanWith = async (
+    reply: (content: Buffer) => string,
+    content: Buffer,
+  ) => {
+    server = fakeClamd(reply);
+    await new Promise<void>((resolve) => server!.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    const scanner = new ClamdScanner({
+      host: '127.0.0.1',
+      port,
+      timeoutMs: 2000,
+    });
+    return scanner.scan({
+      originalName: 'file.bin',
+      mimeType: 'application/octet-stream',
+      size: content.length,
+      // Several chunks, as from a file stream
+      open: () => Readable.from([content.subarray(0, 3), content.subarray(3)]),
+    });
+  };
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    server = undefined;
+  });
+
+  it('streams the content and reports signatures', async () => {
+    const content = Buffer.from('X5O!P%@AP-EICAR');
+    const verdict = await scanWith(
+      (received) =>
+        received.equals(content)
+          ? 'stream: Eicar-Test-Signature FOUND'
+          : 'stream: OK',
+      content,
+    );
+    expect(verdict).toEqual({ threats: ['Eicar-Test-Signature'] });
+  });
+
+  it('reports clean content', async () => {
+    expect(await scanWith(() => 'stream: OK', Buffer.from('hello'))).toEqual({
+      threats: [],
+    });
+  });
+
+  it('fails when clamd answers with an error', async () => {
+    await expect(
+      scanWith(
+        () => 'INSTREAM size limit exceeded. ERROR',
+        Buffer.from('hello'),
+      ),
+    ).rejects.toThrow('clamd: unexpected reply');
+  });
+});
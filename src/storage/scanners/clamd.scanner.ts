@@ -0,0 +1,81 @@
+import * as net from 'net';
+import type {
+  FileScanner,
+  ScanTarget,
+  ScanVerdict,
+} from './file-scanner.interface';
+
+export interface ClamdScannerOptions {
+  // Unix socket of clamd; takes precedence over host/port
+  socket?: string;
+  host?: string;
+  port?: number;
+  timeoutMs: number;
+}
+
+/**
+ * Streams the file to a ClamAV daemon with the INSTREAM command. The daemon's
+ * StreamMaxLength must be at least the largest accepted upload, otherwise it
+ * answers with an error and the upload is refused.
+ */
+export class ClamdScanner implements FileScanner {
+  readonly name = 'clamd';
+
+  constructor(private readonly options: ClamdScannerOptions) {}
+
+  scan(target: ScanTarget): Promise<ScanVerdict> {
+    return new Promise<ScanVerdict>((resolve, reject) => {
+      const socket = this.options.socket
+        ? net.createConnection(this.options.socket)
+        : net.createConnection(
+            this.options.port ?? 3310,
+            this.options.host ?? '127.0.0.1',
+          );
+      const input = target.open();
+      const fail = (err: Error) => {
+        input.destroy();
+        socket.destroy();
+        reject(new Error(`clamd: ${err.message}`));
+      };
+      let reply = '';
+      socket.setTimeout(this.options.timeoutMs, () =>
+        fail(new Error('timed out')),
+      );
+      socket.on('error', fail);
+      input.on('error', fail);
+      socket.on('data', (chunk: Buffer) => (reply += chunk.toString('utf8')));
+      socket.on('end', () => {
+        socket.destroy();
+        input.destroy();
+        try {
+          resolve(parseReply(reply));
+        } catch (err) {
+          reject(err as Error);
+        }
+      });
+      socket.on('connect', () => {
+        socket.write('zINSTREAM\0');
+        // Every chunk is prefixed with its length; a zero length ends the stream
+        input.on('data', (chunk: Buffer) => {
+          const size = Buffer.alloc(4);
+          size.writeUInt32BE(chunk.length);
+          socket.write(size);
+          if (!socket.write(chunk)) {
+            input.pause();
+            socket.once('drain', () => input.resume());
+          }
+        });
+        input.on('end', () => socket.write(Buffer.alloc(4)));
+      });
+    });
+  }
+}
+
+// e.g. "stream: OK", "stream: Eicar-Test-Signature FOUND"
+function parseReply(reply: string): ScanVerdict {
+  const line = reply.replace(/\0/g, '').trim();
+  if (line.endsWith(': OK')) return { threats: [] };
+  const found = /^[^:]*: (.+) FOUND$/.exec(line);
+  if (found) return { threats: [found[1]] };
+  throw new Error(`clamd: unexpected reply "${line || 'nothing'}"`);
+}
@@ -0,0 +1,29 @@
+import type { Readable } from 'stream';
+
+export const FILE_SCANNERS = Symbol('FILE_SCANNERS');
+
+// An upload waiting for its verdict; nothing of it is stored yet
+export interface ScanTarget {
+  originalName: string;
+  // Declared by the uploader
+  mimeType: string;
+  // Sniffed from the content, when recognised
+  detectedMimeType?: string | null;
+  size: number;
+  // Opens the content from the start; may be called by every scanner
+  open(): Readable;
+}
+
+export interface ScanVerdict {
+  // Signature names or reasons; empty when the scanner found nothing
+  threats: string[];
+}
+
+/**
+ * One stage of the upload scanning pipeline. Scanners throw when they cannot
+ * give a verdict (e.g. clamd is unreachable); the upload is then refused.
+ */
+export interface FileScanner {
+  readonly name: string;
+  scan(target: ScanTarget): Promise<ScanVerdict>;
+}
@@ -0,0 +1,29 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ClamdScanner } from './clamd.scanner';
+import { FILE_SCANNERS, FileScanner } from './file-scanner.interface';
+import { MagicByteScanner } from './magic-byte.scanner';
+
+export const fileScannersProvider: Provider = {
+  provide: FILE_SCANNERS,
+  inject: [ConfigService],
+  useFactory: (configService: ConfigService): FileScanner[] => {
+    const names = (configService.get<string>('UPLOAD_SCANNERS') ?? 'magic')
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean);
+    return names.map((name) => {
+      if (name === 'clamd') {
+        return new ClamdScanner({
+          socket: configService.get<string>('CLAMD_SOCKET') || undefined,
+          host: configService.get<string>('CLAMD_HOST') || undefined,
+          port: Number(configService.get<string>('CLAMD_PORT') || 3310),
+          timeoutMs:
+            Number(configService.get<string>('CLAMD_TIMEOUT') || 60) * 1000,
+        });
+      }
+      if (name === 'magic') return new MagicByteScanner();
+      throw new Error(`Unknown upload scanner: ${name}`);
+    });
+  },
+};
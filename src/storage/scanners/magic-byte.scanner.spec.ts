@@ -0,0 +1,53 @@
+import { Readable } from 'stream';
+import { sniffMimeType } from '../../common/utils/mime-sniffer';
+import { contentMatches, MagicByteScanner } from './magic-byte.scanner';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0]);
+const EXE = Buffer.concat([Buffer.from('MZ'), Buffer.alloc(62)]);
+
+describe('MagicByteScanner', () => {
+  const scanner = new MagicByteScanner();
+  const scan = (originalName: string, mimeType: string, content: Buffer) =>
+    scanner.scan({
+      originalName,
+      mimeType,
+      detectedMimeType: sniffMimeType(content),
+      size: content.length,
+      open: () => Readable.from([content]),
+    });
+
+  it('accepts content matching its type and extension', async () => {
+    expect(await scan('photo.png', 'image/png', PNG)).toEqual({ threats: [] });
+    expect(await scan('photo.PNG', 'application/octet-stream', PNG)).toEqual({
+      threats: [],
+    });
+    expect(await scan('notes.txt', 'text/plain', Buffer.from('hi'))).toEqual({
+      threats: [],
+    });
+  });
+
+  it('flags a declared type or extension the content does not match', async () => {
+    const disguised = await scan('photo.png', 'image/png', EXE);
+    expect(disguised.threats).toHaveLength(2);
+    expect(disguised.threats[0]).toContain('application/x-msdownload');
+
+    const renamed = await scan('report.pdf', 'application/octet-stream', PNG);
+    expect(renamed.threats).toEqual([
+      'Extension mismatch: application/pdf expected from the name, content is image/png',
+    ]);
+  });
+
+  it('accepts formats stored in a recognised container', () => {
+    expect(
+      contentMatches(
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'application/zip',
+      ),
+    ).toBe(true);
+    expect(
+      contentMatches('application/msword', 'application/x-ole-storage'),
+    ).toBe(true);
+    expect(contentMatches('image/jpg', 'image/jpeg')).toBe(true);
+    expect(contentMatches('image/png', 'application/zip')).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import * as mime from 'mime-types';
+import type {
+  FileScanner,
+  ScanTarget,
+  ScanVerdict,
+} from './file-scanner.interface';
+
+// Other names of the types sniffMimeType reports
+const ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'image/vnd.microsoft.icon': 'image/x-icon',
+  'image/heif': 'image/heic',
+  'image/x-ms-bmp': 'image/bmp',
+  'audio/mp3': 'audio/mpeg',
+  'audio/x-wav': 'audio/wav',
+  'audio/wave': 'audio/wav',
+  'audio/x-flac': 'audio/flac',
+  'audio/x-m4a': 'audio/mp4',
+  'application/x-pdf': 'application/pdf',
+  'application/x-zip-compressed': 'application/zip',
+  'application/x-gzip': 'application/gzip',
+  'application/x-rar-compressed': 'application/vnd.rar',
+  'application/x-dosexec': 'application/x-msdownload',
+  'application/x-msdos-program': 'application/x-msdownload',
+  'application/vnd.microsoft.portable-executable': 'application/x-msdownload',
+};
+
+// Formats built on a container the sniffer only recognises as the container
+const CONTAINERS: Record<string, (type: string) => boolean> = {
+  'application/zip': (type) =>
+    type.endsWith('+zip') ||
+    type.startsWith('application/vnd.openxmlformats-officedocument.') ||
+    type.startsWith('application/vnd.oasis.opendocument.') ||
+    [
+      'application/java-archive',
+      'application/vnd.android.package-archive',
+      'application/vnd.ms-xpsdocument',
+    ].includes(type),
+  'application/x-ole-storage': (type) =>
+    type.startsWith('application/vnd.ms-') ||
+    [
+      'application/msword',
+      'application/x-msi',
+      // What mime-types maps the .msi extension to
+      'application/x-msdownload',
+    ].includes(type),
+  'application/gzip': (type) =>
+    ['application/x-tgz', 'application/x-compressed-tar'].includes(type),
+  // Any ISO media brand sniffMimeType does not know is reported as MP4
+  'video/mp4': (type) => type.startsWith('video/') || type.startsWith('audio/'),
+  'video/quicktime': (type) => type.startsWith('video/'),
+  'audio/mp4': (type) => type.startsWith('audio/') || type === 'video/mp4',
+  // EBML, shared with Matroska
+  'video/webm': (type) =>
+    ['audio/webm', 'video/x-matroska', 'audio/x-matroska'].includes(type),
+  'audio/ogg': (type) => ['video/ogg', 'application/ogg'].includes(type),
+  'image/svg+xml': (type) => ['application/xml', 'text/xml'].includes(type),
+};
+
+// Types that make no claim about the content
+const GENERIC = ['application/octet-stream', 'binary/octet-stream'];
+
+function normalize(type: string): string {
+  const base = type.split(';')[0].trim().toLowerCase();
+  return ALIASES[base] ?? base;
+}
+
+export function contentMatches(claimed: string, detected: string): boolean {
+  const type = normalize(claimed);
+  const actual = normalize(detected);
+  return type === actual || !!CONTAINERS[actual]?.(type);
+}
+
+/**
+ * Rejects files whose content does not match their declared MIME type or
+ * their extension, e.g. an executable uploaded as `photo.png`. Content
+ * without a recognisable signature (text, CSV...) always passes.
+ */
+export class MagicByteScanner implements FileScanner {
+  readonly name = 'magic';
+
+  scan(target: ScanTarget): Promise<ScanVerdict> {
+    const threats: string[] = [];
+    const detected = target.detectedMimeType;
+    if (detected) {
+      const declared = normalize(target.mimeType);
+      if (!GENERIC.includes(declared) && !contentMatches(declared, detected)) {
+        threats.push(
+          `Content type mismatch: declared ${declared}, content is ${detected}`,
+        );
+      }
+      const byExtension = mime.lookup(target.originalName);
+      if (
+        byExtension &&
+        !GENERIC.includes(byExtension) &&
+        !contentMatches(byExtension, detected)
+      ) {
+        threats.push(
+          `Extension mismatch: ${byExtension} expected from the name, content is ${detected}`,
+        );
+      }
+    }
+    return Promise.resolve({ threats });
+  }
+}
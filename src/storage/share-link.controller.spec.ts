@@ -0,0 +1,66 @@
+import { EventEmitter } from 'events';
+import type { Request, Response } from 'express';
+import { UsageService } from '../usage/usage.service';
+import { FileDeliveryService } from './file-delivery.service';
+import { ShareLinkController } from './share-link.controller';
+import { ResolvedShareLink, ShareLinkService } from './share-link.service';
+
+function setup(link: Partial<ResolvedShareLink>) {
+  const giveBack = jest.fn().mockResolvedValue(undefined);
+  const shareLinkService = {
+    resolve: jest.fn().mockResolvedValue({ clientKey: 'ns', ...link }),
+    consume: jest.fn().mockResolvedValue(giveBack),
+  };
+  const fileDeliveryService = { send: jest.fn().mockResolvedValue(undefined) };
+  const controller = new ShareLinkController(
+    shareLinkService as unknown as ShareLinkService,
+    fileDeliveryService as unknown as FileDeliveryService,
+    { admitPublic: jest.fn() } as unknown as UsageService,
+  );
+  const res = Object.assign(new EventEmitter(), {
+    statusCode: 200,
+    writableFinished: false,
+  });
+  const get = (method: string, headers: Record<string, string> = {}) => {
+    const req = { method, headers } as unknown as Request;
+    return controller
+      .get('token', req, res as unknown as Response)
+      .then(() => req);
+  };
+  return { shareLinkService, fileDeliveryService, giveBack, res, get };
+}
+
+describe('ShareLinkController', () => {
+  const nonce = { id: 'n', expiresAt: 0 };
+
+  it('does not spend single-use links on HEAD requests', async () => {
+    const { shareLinkService, fileDeliveryService, get } = setup({ nonce });
+    await get('HEAD');
+    expect(shareLinkService.consume).not.toHaveBeenCalled();
+    expect(fileDeliveryService.send).toHaveBeenCalled();
+  });
+
+  it('sends the whole file when spending a single-use link', async () => {
+    const { shareLinkService, get } = setup({ nonce });
+    const req = await get('GET', {
+      range: 'bytes=0-1',
+      'if-none-match': '"etag"',
+    });
+    expect(shareLinkService.consume).toHaveBeenCalled();
+    expect(req.headers).toEqual({});
+  });
+
+  it('gives the link back when the download is cut off', async () => {
+    const { giveBack, res, get } = setup({ nonce });
+    await get('GET');
+    res.emit('close');
+    expect(giveBack).toHaveBeenCalled();
+  });
+
+  it('keeps conditional requests for links that can be reused', async () => {
+    const { shareLinkService, get } = setup({});
+    const req = await get('GET', { range: 'bytes=0-1' });
+    expect(shareLinkService.consume).not.toHaveBeenCalled();
+    expect(req.headers).toEqual({ range: 'bytes=0-1' });
+  });
+});
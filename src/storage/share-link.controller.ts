@@ -0,0 +1,90 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Req,
+  Res,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import type { CreateShareLinkDto } from '../dtos/CreateShareLinkDto';
+import { FileDeliveryService } from './file-delivery.service';
+import { ShareLinkService } from './share-link.service';
+import { UsageService } from '../usage/usage.service';
+import { ScopeGuard } from '../keys/scope.guard';
+import { NoScope, RequireScope } from '../keys/require-scope.decorator';
+import { AuditGuard, AuditResultInterceptor } from '../audit/audit.guard';
+import { Audit } from '../audit/audit.decorator';
+import { storageTarget } from '../audit/audit-targets';
+
+// Request headers that can turn a download into a 206 or a 304
+const PARTIAL_RESPONSE_HEADERS = [
+  'range',
+  'if-range',
+  'if-none-match',
+  'if-modified-since',
+];
+
+@Controller('storage')
+@UseGuards(AuditGuard, ScopeGuard)
+@UseInterceptors(AuditResultInterceptor)
+export class ShareLinkController {
+  constructor(
+    private readonly shareLinkService: ShareLinkService,
+    private readonly fileDeliveryService: FileDeliveryService,
+    private readonly usageService: UsageService,
+  ) {}
+
+  @Post('share')
+  @Audit('share_link.create', storageTarget)
+  @RequireScope('read')
+  async create(@Body() dto: CreateShareLinkDto, @Req() req: Request) {
+    if (!req.clientKey || !req.clientRecord || !req.clientCredential) {
+      throw new BadRequestException('Missing client key');
+    }
+    return this.shareLinkService.create(
+      req.clientKey,
+      req.clientRecord,
+      req.clientCredential,
+      dto,
+    );
+  }
+
+  // Reachable without a client key: the signed token is the credential
+  @Get('shared/:token')
+  @NoScope()
+  @Audit('file.shared_download', storageTarget)
+  async get(
+    @Param('token') token: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const link = await this.shareLinkService.resolve(token, req.ip);
+    const { clientKey, client, credential, record, download } = link;
+    // Audited as the client and the credential that minted the link
+    req.clientRecord = client;
+    req.clientCredential = credential;
+    req.auditResult = record;
+    await this.usageService.admitPublic(req, res, clientKey);
+    // A single-use link is spent by the download that sends the whole file:
+    // HEAD leaves it alone, and a GET always answers 200 with every byte, as
+    // a 304 or a first range would spend it without delivering the file.
+    if (link.nonce && req.method !== 'HEAD') {
+      for (const header of PARTIAL_RESPONSE_HEADERS) {
+        delete req.headers[header];
+      }
+      const giveBack = await this.shareLinkService.consume(link);
+      res.on('close', () => {
+        // Cut off, or failed before the file was sent
+        if (!res.writableFinished || res.statusCode >= 400) void giveBack();
+      });
+    }
+    await this.fileDeliveryService.send(req, res, clientKey, record, {
+      download,
+    });
+  }
+}
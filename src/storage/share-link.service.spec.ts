@@ -0,0 +1,94 @@
+import { ForbiddenException, GoneException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClientCredential } from '../entities/ClientCredential';
+import { ClientKeyRecord } from '../entities/ClientKeyRecord';
+import { FileRecord } from '../entities/FileRecord';
+import { ClientKeyService } from '../keys/client-key.service';
+import { ShareLinkService } from './share-link.service';
+import { StorageService } from './storage.service';
+import { UrlSignerService } from './url-signer.service';
+
+const credential = { id: 1, scopes: ['read'] } as ClientCredential;
+const client = {
+  id: 2,
+  namespace: 'ns',
+  isActive: true,
+  credentials: [credential],
+} as ClientKeyRecord;
+
+describe('ShareLinkService', () => {
+  let dir: string;
+  let record: FileRecord;
+  let service: ShareLinkService;
+  let signer: UrlSignerService;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'share-links-'));
+    record = { path: 'a.pdf', checksum: 'a'.repeat(64) } as FileRecord;
+    const configService = new ConfigService({
+      METADATA_ROOT: dir,
+      URL_SIGNING_SECRET: 'x'.repeat(32),
+    });
+    signer = new UrlSignerService(configService);
+    service = new ShareLinkService(
+      configService,
+      {
+        resolveFile: () => Promise.resolve(record),
+      } as unknown as StorageService,
+      {
+        findById: () => Promise.resolve(client),
+      } as unknown as ClientKeyService,
+      signer,
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('spends a single-use link only when it is consumed', async () => {
+    const { token } = await service.create('ns', client, credential, {
+      path: 'a.pdf',
+      singleUse: true,
+    });
+    await service.resolve(token, undefined);
+    const link = await service.resolve(token, undefined);
+    const giveBack = await service.consume(link);
+    await expect(service.resolve(token, undefined)).rejects.toBeInstanceOf(
+      GoneException,
+    );
+    await expect(service.consume(link)).rejects.toBeInstanceOf(GoneException);
+
+    await giveBack();
+    await expect(service.resolve(token, undefined)).resolves.toMatchObject({
+      record,
+    });
+  });
+
+  it('answers 410 once the file has been replaced', async () => {
+    const { token } = await service.create('ns', client, credential, {
+      path: 'a.pdf',
+    });
+    record = { ...record, checksum: 'b'.repeat(64) };
+    await expect(service.resolve(token, undefined)).rejects.toBeInstanceOf(
+      GoneException,
+    );
+  });
+
+  it('rejects upload tokens signed with the same secret', async () => {
+    const uploadToken = await signer.sign({
+      typ: 'up',
+      i: 'id',
+      k: client.id,
+      c: credential.id,
+      e: Math.floor(Date.now() / 1000) + 60,
+      p: 1,
+    });
+    await expect(
+      service.resolve(uploadToken, undefined),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+});
@@ -0,0 +1,268 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  GoneException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { isIP } from 'net';
+import * as path from 'path';
+import {
+  ClientKeyService,
+  isCredentialExpired,
+} from '../keys/client-key.service';
+import { ClientKeyRecord } from '../entities/ClientKeyRecord';
+import { ClientCredential } from '../entities/ClientCredential';
+import { FileRecord } from '../entities/FileRecord';
+import { ShareLinkPayload } from '../entities/ShareLinkPayload';
+import type { CreateShareLinkDto } from '../dtos/CreateShareLinkDto';
+import { StorageService } from './storage.service';
+import { UrlSignerService } from './url-signer.service';
+
+const DEFAULT_TTL_SECONDS = 3600;
+const GC_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface ShareLink {
+  url: string;
+  token: string;
+  expiresAt: Date;
+  singleUse: boolean;
+}
+
+export interface ResolvedShareLink {
+  clientKey: string;
+  client: ClientKeyRecord;
+  // The credential that minted the link
+  credential: ClientCredential;
+  record: FileRecord;
+  download: boolean;
+  // Set for single-use links, spent through `consume` once the file is actually sent
+  nonce?: { id: string; expiresAt: number };
+}
+
+/**
+ * Signed, expiring links to one version of a file. Links are stateless except
+ * for single-use ones, whose nonce is recorded under
+ * `<METADATA_ROOT>/<clientKey>/used-share-links/` once consumed.
+ */
+@Injectable()
+export class ShareLinkService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ShareLinkService.name);
+  private readonly metadataRoot: string;
+  private readonly maxTtlSeconds: number;
+  private gcTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+    private readonly clientKeyService: ClientKeyService,
+    private readonly urlSigner: UrlSignerService,
+  ) {
+    const metadataRoot =
+      this.configService.get<string>('METADATA_ROOT') || 'storage-meta';
+    this.metadataRoot = path.resolve(process.cwd(), metadataRoot);
+    this.maxTtlSeconds = Number(
+      this.configService.get<string>('SHARE_LINK_MAX_TTL') || 604800,
+    );
+  }
+
+  onModuleInit() {
+    this.gcTimer = setInterval(() => {
+      this.collectGarbage().catch((err: Error) =>
+        this.logger.error(`Share link cleanup failed: ${err.message}`),
+      );
+    }, GC_INTERVAL_MS);
+    this.gcTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.gcTimer) clearInterval(this.gcTimer);
+  }
+
+  async create(
+    clientKey: string,
+    client: ClientKeyRecord,
+    credential: ClientCredential,
+    dto: CreateShareLinkDto,
+  ): Promise<ShareLink> {
+    if (!dto || typeof dto.path !== 'string' || !dto.path) {
+      throw new BadRequestException('path is required');
+    }
+    const expiresIn = dto.expiresIn ?? DEFAULT_TTL_SECONDS;
+    if (
+      !Number.isInteger(expiresIn) ||
+      expiresIn <= 0 ||
+      expiresIn > this.maxTtlSeconds
+    ) {
+      throw new BadRequestException(
+        `expiresIn must be an integer between 1 and ${this.maxTtlSeconds} seconds`,
+      );
+    }
+    if (dto.ip !== undefined && !isIP(dto.ip)) {
+      throw new BadRequestException('ip must be a valid IP address');
+    }
+
+    const record = await this.storageService.resolveFile(clientKey, dto.path);
+    const expiresAt = new Date(Date.now() + expiresIn * 1000);
+    const payload: ShareLinkPayload = {
+      typ: 'sl',
+      k: client.id,
+      c: credential.id,
+      p: record.path,
+      e: Math.floor(expiresAt.getTime() / 1000),
+      h: record.checksum,
+    };
+    if (dto.singleUse) payload.n = randomUUID();
+    if (dto.ip) payload.ip = dto.ip;
+    if (dto.download) payload.d = 1;
+
+    const token = await this.urlSigner.sign(payload);
+    return {
+      url: `/storage/shared/${token}`,
+      token,
+      expiresAt,
+      singleUse: !!dto.singleUse,
+    };
+  }
+
+  async resolve(
+    token: string,
+    ip: string | undefined,
+  ): Promise<ResolvedShareLink> {
+    const payload = await this.urlSigner.verify<ShareLinkPayload>(token);
+    if (
+      !payload ||
+      payload.typ !== 'sl' ||
+      typeof payload.k !== 'number' ||
+      typeof payload.c !== 'number' ||
+      !payload.p
+    ) {
+      throw new ForbiddenException('Invalid share link');
+    }
+    if (payload.e * 1000 < Date.now()) {
+      throw new GoneException('Share link has expired');
+    }
+    if (payload.ip && payload.ip !== this.normalizeIp(ip)) {
+      throw new ForbiddenException('Share link is not valid from this address');
+    }
+    // Links die with the credential that minted them
+    const client = await this.clientKeyService.findById(payload.k);
+    const credential = client?.credentials.find((x) => x.id === payload.c);
+    if (!client?.isActive || !credential || isCredentialExpired(credential)) {
+      throw new ForbiddenException('Invalid share link');
+    }
+    const clientKey = client.namespace;
+    const record = await this.storageService.resolveFile(clientKey, payload.p);
+    if (payload.h && payload.h !== record.checksum) {
+      throw new GoneException('The shared file has been replaced');
+    }
+    const resolved: ResolvedShareLink = {
+      clientKey,
+      client,
+      credential,
+      record,
+      download: payload.d === 1,
+    };
+    if (payload.n) {
+      resolved.nonce = { id: payload.n, expiresAt: payload.e };
+      if (await this.isUsed(clientKey, resolved.nonce.id)) {
+        throw new GoneException('Share link has already been used');
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Spends the nonce of a single-use link. Only one caller across workers
+   * succeeds; the others get a 410. Returns a function that gives the link
+   * back, for a download that did not complete.
+   */
+  async consume(link: ResolvedShareLink): Promise<() => Promise<void>> {
+    if (!link.nonce) return () => Promise.resolve();
+    const file = await this.consumeNonce(
+      link.clientKey,
+      link.nonce.id,
+      link.nonce.expiresAt,
+    );
+    return () => fs.rm(file, { force: true });
+  }
+
+  private normalizeIp(ip: string | undefined): string | undefined {
+    // IPv4 clients on a dual-stack socket show up as ::ffff:a.b.c.d
+    return ip?.startsWith('::ffff:') ? ip.substring(7) : ip;
+  }
+
+  private usedDir(clientKey: string): string {
+    return path.join(this.metadataRoot, clientKey, 'used-share-links');
+  }
+
+  private nonceFile(clientKey: string, nonce: string): string {
+    if (!/^[0-9a-f-]{36}$/.test(nonce)) {
+      throw new ForbiddenException('Invalid share link');
+    }
+    return path.join(this.usedDir(clientKey), nonce);
+  }
+
+  private async isUsed(clientKey: string, nonce: string): Promise<boolean> {
+    return fs
+      .access(this.nonceFile(clientKey, nonce))
+      .then(() => true)
+      .catch(() => false);
+  }
+
+  private async consumeNonce(
+    clientKey: string,
+    nonce: string,
+    expiresAt: number,
+  ): Promise<string> {
+    const file = this.nonceFile(clientKey, nonce);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    try {
+      // Exclusive create is atomic across workers: only one download wins
+      await fs.writeFile(file, String(expiresAt), { flag: 'wx' });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'EEXIST') {
+        throw new GoneException('Share link has already been used');
+      }
+      throw err;
+    }
+    return file;
+  }
+
+  /** Forgets consumed nonces of links that have expired anyway. */
+  async collectGarbage(): Promise<number> {
+    let removed = 0;
+    let clientKeys: string[];
+    try {
+      clientKeys = await fs.readdir(this.metadataRoot);
+    } catch {
+      return 0;
+    }
+    const now = Math.floor(Date.now() / 1000);
+    for (const clientKey of clientKeys) {
+      const dir = this.usedDir(clientKey);
+      let nonces: string[];
+      try {
+        nonces = await fs.readdir(dir);
+      } catch {
+        continue;
+      }
+      for (const nonce of nonces) {
+        const file = path.join(dir, nonce);
+        const expiresAt = Number(
+          await fs.readFile(file, 'utf8').catch(() => 0),
+        );
+        if (expiresAt < now) {
+          await fs.rm(file, { force: true });
+          removed++;
+        }
+      }
+    }
+    return removed;
+  }
+}
@@ -1,81 +1,325 @@
-import { Controller, Get, Post, Delete, Param,
-   UploadedFile, UseInterceptors, Req, Res, BadRequestException } from '@nestjs/common';
-import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Query,
+  Body,
+  UploadedFile,
+  UploadedFiles,
+  UseInterceptors,
+  Req,
+  Res,
+  BadRequestException,
+  UseGuards,
+} from '@nestjs/common';
+import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
 import type { Request, Response } from 'express';
-type UploadedFileType = { originalname: string; buffer: Buffer; mimetype: string,
-   subDirectory?: string , createById?: string,};
+type UploadedFileType = {
+  originalname: string;
+  buffer: Buffer;
+  mimetype: string;
+  subDirectory?: string;
+  createById?: string;
+};
 import * as path from 'path';
-import * as fs from 'fs';
 import { StorageService } from './storage.service';
+import { FileDeliveryService } from './file-delivery.service';
+import { ArchiveService } from './archive.service';
+import { UsageService, parseUsageRange } from '../usage/usage.service';
+import { ScopeGuard } from '../keys/scope.guard';
+import { RequireScope } from '../keys/require-scope.decorator';
+import { AuditGuard, AuditResultInterceptor } from '../audit/audit.guard';
+import { Audit } from '../audit/audit.decorator';
+import { storageTarget } from '../audit/audit-targets';
+import {
+  isTrue,
+  LIST_QUERY_PARAMS,
+  parseFileListQuery,
+} from '../common/utils/file-list-query';
+import { parseUploadFields } from '../common/utils/upload-fields';
+import type { MoveStorageItemDto } from '../dtos/MoveStorageItemDto';
+import type { RenameStorageItemDto } from '../dtos/RenameStorageItemDto';
+import type { BulkDeleteDto } from '../dtos/BulkDeleteDto';
+import type { CreateArchiveDto } from '../dtos/CreateArchiveDto';
+
+// Most files accepted by one multi-file upload
+export const MAX_BATCH_FILES = 100;
+
 @Controller('storage')
+@UseGuards(AuditGuard, ScopeGuard)
+@UseInterceptors(AuditResultInterceptor)
 export class StorageController {
-  constructor(private readonly storageService: StorageService) {}
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly fileDeliveryService: FileDeliveryService,
+    private readonly archiveService: ArchiveService,
+    private readonly usageService: UsageService,
+  ) {}
+
+  // Express 5 hands wildcard params over as their (already decoded) segments
+  private joinPath(value: string | string[]): string {
+    return Array.isArray(value) ? value.join('/') : value;
+  }
 
   @Post('upload')
+  @Audit('file.upload', storageTarget)
+  @RequireScope('write')
   @UseInterceptors(FileInterceptor('file'))
   async upload(@UploadedFile() file: UploadedFileType, @Req() req: Request) {
-    const clientKey = (req as any).clientKey as string | undefined;
+    const clientKey = req.clientKey;
     if (!clientKey) throw new BadRequestException('Missing client key');
     if (!file) throw new BadRequestException('No file uploaded');
     const originalName = path.basename(file.originalname);
-    // Extract createById from request body (form data)
-    const createById = (req.body && req.body.createById) ? req.body.createById : undefined;
-    return await this.storageService.saveBuffer(clientKey, originalName, file.buffer, file.mimetype, createById);
+    // An explicit path keeps the file name and versions the file on re-upload
+    const {
+      createById,
+      folder,
+      path: filePath,
+      isPrivate,
+    } = parseUploadFields(req.body);
+    return await this.storageService.saveBuffer(
+      clientKey,
+      originalName,
+      file.buffer,
+      file.mimetype,
+      { createById, folder, path: filePath, isPrivate },
+    );
   }
 
-  // upload file form data  
+  // upload file form data
   @Post('upload-form-data')
+  @Audit('file.upload', storageTarget)
+  @RequireScope('write')
   @UseInterceptors(FileInterceptor('file'))
-  async uploadFormData(@UploadedFile() file: UploadedFileType, @Req() req: Request) {
-    const clientKey = (req as any).clientKey as string | undefined;
+  async uploadFormData(
+    @UploadedFile() file: UploadedFileType,
+    @Req() req: Request,
+  ) {
+    const clientKey = req.clientKey;
     if (!clientKey) throw new BadRequestException('Missing client key');
     if (!file) throw new BadRequestException('No file uploaded');
     const originalName = path.basename(file.originalname);
-    return await this.storageService.saveBuffer(clientKey, originalName, file.buffer, file.mimetype);
+    const { folder, path: filePath, isPrivate } = parseUploadFields(req.body);
+    return await this.storageService.saveBuffer(
+      clientKey,
+      originalName,
+      file.buffer,
+      file.mimetype,
+      { folder, path: filePath, isPrivate },
+    );
   }
 
+  // Several files in the "files" field; each one succeeds or fails on its own
+  @Post('upload-multiple')
+  @Audit('file.upload_batch', storageTarget)
+  @RequireScope('write')
+  @UseInterceptors(FilesInterceptor('files', MAX_BATCH_FILES))
+  async uploadMultiple(
+    @UploadedFiles() files: UploadedFileType[],
+    @Req() req: Request,
+  ) {
+    const clientKey = req.clientKey;
+    if (!clientKey) throw new BadRequestException('Missing client key');
+    if (!files?.length) throw new BadRequestException('No file uploaded');
+    // A path is rejected by the service: one path cannot hold several files
+    const {
+      createById,
+      folder,
+      path: filePath,
+      isPrivate,
+    } = parseUploadFields(req.body);
+    const batch = files.map((file) => ({
+      originalName: path.basename(file.originalname),
+      buffer: file.buffer,
+      mimeType: file.mimetype,
+    }));
+    return await this.storageService.saveBuffers(clientKey, batch, {
+      createById,
+      folder,
+      path: filePath,
+      isPrivate,
+    });
+  }
 
   @Get('list')
-  async list(@Req() req: Request) {
-    const clientKey = (req as any).clientKey as string | undefined;
+  @Audit('file.list', storageTarget)
+  @RequireScope('list')
+  async list(@Req() req: Request, @Query() query: Record<string, unknown>) {
+    const clientKey = req.clientKey;
     if (!clientKey) throw new BadRequestException('Missing client key');
-    return this.storageService.listFiles(clientKey);
+    // Without any listing parameter, keep returning the plain array of every file
+    if (!LIST_QUERY_PARAMS.some((name) => query[name] !== undefined)) {
+      return this.storageService.listFiles(clientKey, isTrue(query.metadata));
+    }
+    return this.storageService.queryFiles(clientKey, parseFileListQuery(query));
   }
 
   @Get('file/*path')
-  async get(@Param('path') path: string, @Req() req: Request, @Res() res: Response) {
-    const clientKey = (req as any).clientKey as string | undefined;
+  @Audit('file.download', storageTarget)
+  @RequireScope('read')
+  async get(
+    @Param('path') path: string | string[],
+    @Query('download') download: string | undefined,
+    @Query('versionId') versionId: string | undefined,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const clientKey = req.clientKey;
     if (!clientKey) throw new BadRequestException('Missing client key');
-    // Decode path (may include userId path like "userId/filename.ext")
-    const decodedPath = decodeURIComponent(path);
-    const filePath = await this.storageService.getFilePath(clientKey, decodedPath);
-    const stream = fs.createReadStream(filePath);
-    stream.pipe(res);
+    // Path may include folders, e.g. "userId/filename.ext"
+    const record = versionId
+      ? await this.storageService.resolveVersion(
+          clientKey,
+          this.joinPath(path),
+          versionId,
+        )
+      : await this.storageService.resolveFile(clientKey, this.joinPath(path));
+    await this.fileDeliveryService.send(req, res, clientKey, record, {
+      download: download === '1' || download === 'true',
+    });
   }
 
   @Get('file-info/*path')
-  async getFileInfo(@Param('path') path: string, @Req() req: Request) {
-    const clientKey = (req as any).clientKey as string | undefined;
+  @Audit('file.info', storageTarget)
+  @RequireScope('read')
+  async getFileInfo(
+    @Param('path') path: string | string[],
+    @Req() req: Request,
+  ) {
+    const clientKey = req.clientKey;
     if (!clientKey) throw new BadRequestException('Missing client key');
-    const decodedPath = decodeURIComponent(path);
-    return await this.storageService.getFileInfo(clientKey, decodedPath);
+    return await this.storageService.getFileInfo(
+      clientKey,
+      this.joinPath(path),
+    );
   }
 
   @Delete('file/*path')
-  async remove(@Param('path') path: string, @Req() req: Request) {
-    const clientKey = (req as any).clientKey as string | undefined;
+  @Audit('file.delete', storageTarget)
+  @RequireScope('delete')
+  async remove(@Param('path') path: string | string[], @Req() req: Request) {
+    const clientKey = req.clientKey;
     if (!clientKey) throw new BadRequestException('Missing client key');
-    const decodedPath = decodeURIComponent(path);
-    await this.storageService.deleteFile(clientKey, decodedPath);
+    // The file goes to the trash (see TrashController)
+    const credential = req.clientCredential;
+    const deletedBy = credential
+      ? { credentialId: credential.id, name: credential.name }
+      : null;
+    await this.storageService.deleteFile(
+      clientKey,
+      this.joinPath(path),
+      deletedBy,
+    );
     return { success: true };
   }
 
+  @Post('files/delete')
+  @Audit('file.delete_batch', storageTarget)
+  @RequireScope('delete')
+  async removeMany(@Body() dto: BulkDeleteDto, @Req() req: Request) {
+    const clientKey = req.clientKey;
+    if (!clientKey) throw new BadRequestException('Missing client key');
+    const credential = req.clientCredential;
+    const deletedBy = credential
+      ? { credentialId: credential.id, name: credential.name }
+      : null;
+    return this.storageService.deleteFiles(
+      clientKey,
+      { paths: dto?.paths, filter: dto?.filter },
+      deletedBy,
+    );
+  }
+
+  // ?folder=docs or ?path=a.txt&path=b.txt
+  @Get('archive')
+  @Audit('file.archive', storageTarget)
+  @RequireScope('read')
+  async archive(
+    @Query('folder') folder: string | undefined,
+    @Query('path') paths: string | string[] | undefined,
+    @Query('name') name: string | undefined,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const clientKey = req.clientKey;
+    if (!clientKey) throw new BadRequestException('Missing client key');
+    const selection =
+      paths === undefined ? undefined : Array.isArray(paths) ? paths : [paths];
+    await this.archiveService.send(res, clientKey, {
+      folder,
+      paths: selection,
+      name,
+    });
+  }
+
+  @Post('archive')
+  @Audit('file.archive', storageTarget)
+  @RequireScope('read')
+  async archiveSelection(
+    @Body() dto: CreateArchiveDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const clientKey = req.clientKey;
+    if (!clientKey) throw new BadRequestException('Missing client key');
+    await this.archiveService.send(res, clientKey, {
+      folder: dto?.folder,
+      paths: dto?.paths,
+      name: dto?.name,
+    });
+  }
+
+  @Post('files/move')
+  @Audit('file.move', storageTarget)
+  @RequireScope('write')
+  async move(@Body() dto: MoveStorageItemDto, @Req() req: Request) {
+    const clientKey = req.clientKey;
+    if (!clientKey) throw new BadRequestException('Missing client key');
+    return this.storageService.moveFile(clientKey, dto?.from, dto?.to);
+  }
+
+  @Post('files/copy')
+  @Audit('file.copy', storageTarget)
+  @RequireScope('write')
+  async copy(@Body() dto: MoveStorageItemDto, @Req() req: Request) {
+    const clientKey = req.clientKey;
+    if (!clientKey) throw new BadRequestException('Missing client key');
+    return this.storageService.copyFile(clientKey, dto?.from, dto?.to);
+  }
+
+  @Post('files/rename')
+  @Audit('file.rename', storageTarget)
+  @RequireScope('write')
+  async rename(@Body() dto: RenameStorageItemDto, @Req() req: Request) {
+    const clientKey = req.clientKey;
+    if (!clientKey) throw new BadRequestException('Missing client key');
+    return this.storageService.renameFile(clientKey, dto?.path, dto?.name);
+  }
+
   @Get('statistics')
+  @Audit('storage.statistics', storageTarget)
+  @RequireScope('stats')
   async getStatistics(@Req() req: Request) {
-    const clientKey = (req as any).clientKey as string | undefined;
+    const clientKey = req.clientKey;
     if (!clientKey) throw new BadRequestException('Missing client key');
     return this.storageService.getFileStatistics(clientKey);
   }
-}
-
 
+  // Daily traffic, ?from=YYYY-MM-DD&to=YYYY-MM-DD (default: the last 30 days)
+  @Get('usage')
+  @RequireScope('stats')
+  @Audit('storage.usage', storageTarget)
+  async getUsage(
+    @Query('from') from: string | undefined,
+    @Query('to') to: string | undefined,
+    @Req() req: Request,
+  ) {
+    if (!req.clientRecord) throw new BadRequestException('Missing client key');
+    return this.usageService.report(
+      req.clientRecord,
+      parseUsageRange(from, to),
+    );
+  }
+}
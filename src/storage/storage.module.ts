@@ -1,12 +1,80 @@
 import { Module } from '@nestjs/common';
 import { StorageService } from './storage.service';
 import { StorageController } from './storage.controller';
+import { storageDriverProvider } from './drivers/storage-driver.provider';
+import { FileIndexService } from './file-index.service';
+import { UploadSessionController } from './upload-session.controller';
+import { FileDeliveryService } from './file-delivery.service';
+import { ArchiveService } from './archive.service';
+import { PublicFileController } from './public-file.controller';
+import { UploadSessionService } from './upload-session.service';
+import { ShareLinkController } from './share-link.controller';
+import { ShareLinkService } from './share-link.service';
+import { UploadTokenController } from './upload-token.controller';
+import { UploadTokenService } from './upload-token.service';
+import { UploadTokenGuard } from './upload-token.guard';
+import { UrlSignerService } from './url-signer.service';
+import { ImageTransformController } from './image-transform.controller';
+import { ImageTransformService } from './image-transform.service';
+import { FolderController } from './folder.controller';
+import { FileScanService } from './file-scan.service';
+import { TrashController } from './trash.controller';
+import { TrashService } from './trash.service';
+import { VersionController } from './version.controller';
+import { VersionService } from './version.service';
+import { EncryptionController } from './encryption.controller';
+import { EncryptionService } from './encryption.service';
+import { PreviewController } from './preview.controller';
+import { PreviewService } from './preview.service';
+import { MediaMetadataService } from './media-metadata.service';
+import { fileScannersProvider } from './scanners/file-scanner.provider';
+import { ClientKeyModule } from '../keys/client-key.module';
+import { WebhookModule } from '../webhooks/webhook.module';
+import { AuditModule } from '../audit/audit.module';
+import { UsageModule } from '../usage/usage.module';
+import { AdminModule } from '../admin/admin.module';
 
 @Module({
-  controllers: [StorageController],
-  providers: [StorageService],
+  imports: [
+    ClientKeyModule,
+    WebhookModule,
+    AuditModule,
+    UsageModule,
+    AdminModule,
+  ],
+  controllers: [
+    StorageController,
+    UploadSessionController,
+    PublicFileController,
+    ShareLinkController,
+    UploadTokenController,
+    ImageTransformController,
+    FolderController,
+    TrashController,
+    VersionController,
+    EncryptionController,
+    PreviewController,
+  ],
+  providers: [
+    StorageService,
+    FileIndexService,
+    UploadSessionService,
+    FileDeliveryService,
+    ArchiveService,
+    ShareLinkService,
+    UploadTokenService,
+    UploadTokenGuard,
+    UrlSignerService,
+    ImageTransformService,
+    FileScanService,
+    TrashService,
+    VersionService,
+    EncryptionService,
+    PreviewService,
+    MediaMetadataService,
+    storageDriverProvider,
+    fileScannersProvider,
+  ],
   exports: [StorageService],
 })
 export class StorageModule {}
-
-
@@ -0,0 +1,150 @@
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { ClientKeyService } from '../keys/client-key.service';
+import { UsageService } from '../usage/usage.service';
+import { WebhookService } from '../webhooks/webhook.service';
+import { FilesystemStorageDriver } from './drivers/filesystem.driver';
+import { EncryptionService } from './encryption.service';
+import { FileIndexService } from './file-index.service';
+import { FileScanService } from './file-scan.service';
+import { MediaMetadataService } from './media-metadata.service';
+import { BLOBS_DIR, StorageService } from './storage.service';
+
+const content = Buffer.from('hello');
+const checksum = createHash('sha256').update(content).digest('hex');
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('StorageService', () => {
+  let root: string;
+  let blobFile: string;
+  let lockFile: string;
+
+  // One worker: every worker shares the storage and metadata directories
+  const createService = (
+    open: (key: string) => Promise<Readable | undefined> = () =>
+      Promise.resolve(undefined),
+  ) => {
+    const configService = new ConfigService({
+      STORAGE_ROOT: path.join(root, 'storage'),
+      METADATA_ROOT: path.join(root, 'meta'),
+    });
+    const driver = new FilesystemStorageDriver(path.join(root, 'storage'));
+    return new StorageService(
+      configService,
+      driver,
+      new FileIndexService(configService),
+      {
+        findByNamespace: () => Promise.resolve(null),
+      } as unknown as ClientKeyService,
+      { emit: () => Promise.resolve() } as unknown as WebhookService,
+      { scan: () => Promise.resolve(null) } as unknown as FileScanService,
+      {} as UsageService,
+      {
+        put: (namespace: string, ...args: Parameters<typeof driver.put>) =>
+          driver.put(...args),
+        getStream: async (namespace: string, key: string) =>
+          (await open(key)) ?? driver.getStream(key),
+      } as unknown as EncryptionService,
+      { supports: () => false } as unknown as MediaMetadataService,
+    );
+  };
+
+  const blobExists = () =>
+    fs.access(blobFile).then(
+      () => true,
+      () => false,
+    );
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-service-'));
+    blobFile = path.join(
+      root,
+      'storage',
+      'ns',
+      BLOBS_DIR,
+      checksum.substring(0, 2),
+      checksum,
+    );
+    lockFile = path.join(root, 'meta', 'ns', 'blob-locks', `${checksum}.lock`);
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('stores and indexes content only while no other worker holds its blob', async () => {
+    const service = createService();
+    await fs.mkdir(path.dirname(lockFile), { recursive: true });
+    await fs.writeFile(lockFile, '1');
+    const upload = service.saveBuffer('ns', 'a.txt', content, 'text/plain');
+    await sleep(100);
+    expect(await blobExists()).toBe(false);
+
+    await fs.rm(lockFile);
+    const stored = await upload;
+    expect(stored.checksum).toBe(checksum);
+    expect(await blobExists()).toBe(true);
+  });
+
+  it('checks the references of a blob and deletes it under the same lock', async () => {
+    const [first, second] = [createService(), createService()];
+    const stored = await first.saveBuffer('ns', 'a.txt', content, 'text/plain');
+    await first.deleteFile('ns', stored.path);
+
+    await fs.writeFile(lockFile, '1');
+    const purge = first.purgeTrash('ns');
+    await sleep(100);
+    expect(await blobExists()).toBe(true);
+
+    // Another worker stores the same content meanwhile: it waits for the purge
+    const upload = second.saveBuffer('ns', 'b.txt', content, 'text/plain');
+    await fs.rm(lockFile);
+    await Promise.all([purge, upload]);
+    expect(await blobExists()).toBe(true);
+    expect((await second.getFileInfo('ns', (await upload).path)).checksum).toBe(
+      checksum,
+    );
+  });
+
+  it('rebuilds a live index without losing uploads or unreadable entries', async () => {
+    const legacy = (name: string) =>
+      path.join(root, 'storage', 'ns', 'u1', `2024-01-01_abcd1234_${name}`);
+    await fs.mkdir(path.dirname(legacy('a.txt')), { recursive: true });
+    await fs.writeFile(legacy('a.txt'), 'a');
+    await fs.writeFile(legacy('b.txt'), 'b');
+    expect(await createService().rebuildIndex('ns')).toMatchObject({
+      indexed: 2,
+      added: 2,
+    });
+
+    const other = createService();
+    let uploaded = false;
+    const service = createService(async (key) => {
+      if (key.endsWith('b.txt')) throw new Error('read failed');
+      // Another worker uploads while the objects are being hashed
+      if (!uploaded) {
+        uploaded = true;
+        await other.saveBuffer('ns', 'c.txt', content, 'text/plain');
+      }
+      return undefined;
+    });
+    expect(await service.rebuildIndex('ns')).toEqual({
+      clientKey: 'ns',
+      indexed: 3,
+      added: 0,
+      removed: 0,
+      failed: 1,
+    });
+    const files = await other.listFiles('ns');
+    expect(files.map((file) => file.originalName).sort()).toEqual([
+      'a.txt',
+      'b.txt',
+      'c.txt',
+    ]);
+  });
+});
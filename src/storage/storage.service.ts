@@ -1,18 +1,134 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { promises as fs } from 'fs';
+import { createReadStream, promises as fs } from 'fs';
 import * as path from 'path';
-import { randomUUID } from 'crypto';
+import { createHash, randomUUID } from 'crypto';
+import { Readable } from 'stream';
 import * as mime from 'mime-types';
+import { STORAGE_DRIVER } from './drivers/storage-driver.interface';
+import type { StorageDriver } from './drivers/storage-driver.interface';
+import {
+  FileIndexService,
+  IndexSnapshot,
+  JournalEntry,
+} from './file-index.service';
+import { FileRecord } from '../entities/FileRecord';
+import { FileScanResult } from '../entities/FileScanResult';
+import { TrashActor, TrashedFile } from '../entities/TrashedFile';
+import { FileVersion } from '../entities/FileVersion';
+import { FilePreview } from '../entities/FilePreview';
+import { MediaMetadata } from '../entities/MediaMetadata';
+import { ClientPolicy } from '../entities/ClientPolicy';
+import { DailyUsage } from '../entities/DailyUsage';
+import { SNIFF_BYTES, sniffMimeType } from '../common/utils/mime-sniffer';
+import {
+  ClientUsage,
+  enforceClientPolicy,
+  UploadCandidate,
+} from '../common/utils/client-policy';
+import { ClientKeyService } from '../keys/client-key.service';
+import { WebhookService } from '../webhooks/webhook.service';
+import {
+  encodeListCursor,
+  FileListQuery,
+  MAX_LIST_LIMIT,
+  parseFileListQuery,
+} from '../common/utils/file-list-query';
+import {
+  isWithinFolder,
+  normalizeStorageName,
+  normalizeStoragePath,
+  sanitizeFileName,
+} from '../common/utils/storage-path';
+import { FileScanService } from './file-scan.service';
+import { TrafficLimits, UsageService } from '../usage/usage.service';
+import { EncryptionService } from './encryption.service';
+import { MediaMetadataService, MetadataSource } from './media-metadata.service';
+import { withFileLock } from '../common/utils/file-lock';
+
+// Cached image variants and thumbnails, per file id (see ImageTransformService)
+export const DERIVATIVES_DIR = '.derivatives';
+// Content-addressed file contents, shared by every file entry with the same SHA-256
+export const BLOBS_DIR = '.blobs';
+// Uploads the scanners flagged, per file id, for clients whose policy quarantines them
+export const QUARANTINE_DIR = '.quarantine';
+// Percentages of a quota that trigger a quota.threshold webhook when an upload crosses them
+export const QUOTA_THRESHOLDS = [80, 90, 100];
+// How long a blob write or delete waits for another one of the same content
+const BLOB_LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Where a derivative of a file is cached. Keyed by the content it was made
+ * from: a file keeps its id across versions, and a render of the previous
+ * version finishing late must not land where the new one is looked up.
+ */
+export function derivativePath(
+  file: Pick<FileRecord, 'id' | 'checksum'>,
+  name: string,
+): string {
+  return `${DERIVATIVES_DIR}/${file.id}/${file.checksum}/${name}`;
+}
 
 export interface StoredFile {
+  id: string;
+  // Path relative to the client namespace
+  path: string;
   filename: string;
   originalName: string;
   size: number;
   mimeType: string;
+  checksum: string;
+  createById?: string | null;
+  isPrivate: boolean;
   url: string;
   uploadedAt: Date;
-  publicUrl: string;
+  publicUrl: string | null;
+  // Flagged by the upload scanners; listed but never served
+  quarantined: boolean;
+  // Current content; null for files stored before versioning
+  versionId: string | null;
+  // Set once the thumbnail is generated (see file-info for its status)
+  thumbnailUrl: string | null;
+  // Dimensions, EXIF, duration, codecs, page count... Listings include it with ?metadata=true
+  metadata?: MediaMetadata | null;
+}
+
+export type NewContentListener = (
+  clientKey: string,
+  record: FileRecord,
+) => void;
+
+export interface SaveFileOptions {
+  // Stores the file under a per-user directory
+  createById?: string;
+  // Stores the file in this folder (any depth) instead of the per-user directory
+  folder?: string;
+  // Stores the file at exactly this path; uploading to it again adds a new version
+  path?: string;
+  // Hides the file from the public /storage-data/ URLs
+  isPrivate?: boolean;
+}
+
+interface UploadContent {
+  relativePath: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  checksum: string;
+  head: Buffer;
+  scan: FileScanResult | null;
+  // Not read for quarantined content
+  metadata?: MediaMetadata | null;
 }
 
 export interface FileStatistics {
@@ -28,122 +144,843 @@ export interface FileStatistics {
   sizeBreakdown: {
     [sizeRange: string]: number;
   };
+  // Sum of all file entries (same as totalSize)
+  logicalSize: number;
+  // Bytes actually stored once identical contents are shared
+  physicalSize: number;
+  // Usage against the client's policy, counted as uploads are checked; null limits are unlimited
+  quota: {
+    // Current files, their previous versions and uploads in progress
+    usedBytes: number;
+    // Part of usedBytes taken by previous versions
+    versionBytes: number;
+    usedFiles: number;
+    maxTotalBytes: number | null;
+    remainingBytes: number | null;
+    usedPercent: number | null;
+    maxFileCount: number | null;
+    remainingFiles: number | null;
+    maxFileSize: number | null;
+  };
+  // Today's traffic and the client's traffic limits; GET /storage/usage has previous days
+  traffic: {
+    today: DailyUsage;
+    limits: TrafficLimits;
+  };
+}
+
+export interface FileListPage {
+  // Folder that was listed, '' for the namespace root
+  prefix: string;
+  files: StoredFile[];
+  // Sub-folders directly below `prefix`, S3-style with a trailing "/"; empty for recursive listings
+  commonPrefixes: string[];
+  // Files matching the filters, across all pages
+  total: number;
+  // Pass as `cursor` to get the next page; null on the last one
+  nextCursor: string | null;
+}
+
+// Outcome of one item of a batch request; the others are processed regardless
+export interface BatchItemError {
+  statusCode: number;
+  message: string;
+}
+
+export type BatchUploadItem =
+  | {
+      index: number;
+      originalName: string;
+      status: 'uploaded';
+      file: StoredFile;
+    }
+  | {
+      index: number;
+      originalName: string;
+      status: 'failed';
+      error: BatchItemError;
+    };
+
+export interface BatchUploadResult {
+  uploaded: number;
+  failed: number;
+  results: BatchUploadItem[];
+}
+
+export type BatchDeleteItem =
+  | { path: string; status: 'deleted' }
+  | { path: string; status: 'failed'; error: BatchItemError };
+
+export interface BatchDeleteResult {
+  deleted: number;
+  failed: number;
+  results: BatchDeleteItem[];
+}
+
+export interface BatchUploadFile {
+  originalName: string;
+  buffer: Buffer;
+  mimeType: string;
+}
+
+export interface FolderMoveResult {
+  path: string;
+  movedFiles: number;
+}
+
+export interface FolderDeleteResult {
+  path: string;
+  deletedFiles: number;
+}
+
+export interface FileVersionInfo {
+  versionId: string | null;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  checksum: string;
+  uploadedAt: Date;
+  // null for the latest version
+  supersededAt: Date | null;
+  isLatest: boolean;
+}
+
+export interface RebuildIndexResult {
+  clientKey: string;
+  indexed: number;
+  added: number;
+  removed: number;
+  // Objects that could not be read; their entries are kept as they were
+  failed: number;
+}
+
+export interface ReencryptResult {
+  // Objects rewritten with the active data key
+  reencrypted: number;
+  // Objects already using it
+  unchanged: number;
+  // Objects that could not be rewritten and still need their previous key
+  failed: number;
+}
+
+// Blobs an entry holds on to: its content and its previous versions
+function blobChecksums(record: FileRecord): string[] {
+  return [
+    ...(record.blob ? [record.checksum] : []),
+    ...(record.versions ?? []).map((version) => version.checksum),
+  ];
+}
+
+// Bytes an entry takes against the quota, previous versions included
+function storedBytes(record: FileRecord): number {
+  return (record.versions ?? []).reduce(
+    (sum, version) => sum + version.size,
+    record.size,
+  );
+}
+
+function toVersion(record: FileRecord, supersededAt: string): FileVersion {
+  return {
+    versionId: record.versionId ?? randomUUID(),
+    originalName: record.originalName,
+    mimeType: record.mimeType,
+    detectedMimeType: record.detectedMimeType ?? null,
+    size: record.size,
+    checksum: record.checksum,
+    scan: record.scan ?? null,
+    createdAt: record.createdAt,
+    supersededAt,
+  };
+}
+
+// The content of a version, as the fields of its file entry
+function fromVersion(
+  version: FileVersion,
+): Pick<
+  FileRecord,
+  | 'versionId'
+  | 'originalName'
+  | 'mimeType'
+  | 'detectedMimeType'
+  | 'size'
+  | 'checksum'
+  | 'scan'
+  | 'createdAt'
+> {
+  return {
+    versionId: version.versionId,
+    originalName: version.originalName,
+    mimeType: version.mimeType,
+    detectedMimeType: version.detectedMimeType,
+    size: version.size,
+    checksum: version.checksum,
+    scan: version.scan,
+    createdAt: version.createdAt,
+  };
+}
+
+// The versions a retention policy keeps, newest first
+function retainedVersions(
+  versions: FileVersion[],
+  policy: ClientPolicy,
+  now: number,
+): FileVersion[] {
+  const maxAge = policy.maxVersionAge;
+  const kept =
+    maxAge == null
+      ? versions
+      : versions.filter(
+          (version) =>
+            now - new Date(version.supersededAt).getTime() <= maxAge * 1000,
+        );
+  return policy.maxVersions == null ? kept : kept.slice(0, policy.maxVersions);
+}
+
+// A folder exists while it is explicitly created or holds anything
+function folderExists(snapshot: IndexSnapshot, folder: string): boolean {
+  if (snapshot.folders.has(folder)) return true;
+  const prefix = `${folder}/`;
+  for (const marker of snapshot.folders)
+    if (marker.startsWith(prefix)) return true;
+  for (const filePath of snapshot.records.keys())
+    if (filePath.startsWith(prefix)) return true;
+  return false;
+}
+
+// A path can hold a new file or folder unless a file sits at it or at one of its parents
+function assertNoFileAt(snapshot: IndexSnapshot, target: string): void {
+  const segments = target.split('/');
+  for (let i = 1; i <= segments.length; i++) {
+    const candidate = segments.slice(0, i).join('/');
+    if (snapshot.records.has(candidate))
+      throw new ConflictException(`A file already exists at "${candidate}"`);
+  }
 }
 
 @Injectable()
 export class StorageService {
+  private readonly logger = new Logger(StorageService.name);
   private readonly storageRoot: string;
+  private readonly metadataRoot: string;
+  private readonly rebuilds = new Map<string, Promise<RebuildIndexResult>>();
+  // Uploads of this process that passed the policy check but are not indexed yet
+  private readonly reservations = new Map<string, ClientUsage>();
+  // Blob writes and deletes of this process waiting for the lock of their content
+  private readonly blobLocks = new Map<string, Promise<unknown>>();
+  private readonly contentListeners: NewContentListener[] = [];
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(STORAGE_DRIVER) private readonly driver: StorageDriver,
+    private readonly fileIndex: FileIndexService,
+    private readonly clientKeyService: ClientKeyService,
+    private readonly webhookService: WebhookService,
+    private readonly fileScan: FileScanService,
+    private readonly usageService: UsageService,
+    private readonly encryption: EncryptionService,
+    private readonly mediaMetadata: MediaMetadataService,
+  ) {
+    this.storageRoot =
+      this.configService.get<string>('STORAGE_ROOT') || 'storage';
+    this.metadataRoot = path.resolve(
+      process.cwd(),
+      this.configService.get<string>('METADATA_ROOT') || 'storage-meta',
+    );
+  }
+
+  /** Registers a callback for files with new content: uploads, restored versions and copies. */
+  onNewContent(listener: NewContentListener): void {
+    this.contentListeners.push(listener);
+  }
+
+  private notifyNewContent(clientKey: string, record: FileRecord): void {
+    for (const listener of this.contentListeners) listener(clientKey, record);
+  }
 
-  constructor(private readonly configService: ConfigService) {
-    this.storageRoot = this.configService.get<string>('STORAGE_ROOT') || 'storage';
+  // Driver key for a path relative to the client namespace
+  private toKey(clientKey: string, relativePath: string): string {
+    return `${clientKey}/${relativePath}`;
   }
 
-  private resolveClientDir(clientKey: string): string {
-    return path.resolve(process.cwd(), this.storageRoot, clientKey);
+  private blobKey(clientKey: string, checksum: string): string {
+    if (!/^[0-9a-f]{64}$/.test(checksum))
+      throw new NotFoundException('File not found');
+    return this.toKey(
+      clientKey,
+      `${BLOBS_DIR}/${checksum.substring(0, 2)}/${checksum}`,
+    );
+  }
+
+  private quarantineKey(clientKey: string, id: string): string {
+    return this.toKey(clientKey, `${QUARANTINE_DIR}/${id}`);
+  }
+
+  // Where the bytes of a file entry live: its blob, the quarantine, or its own path for files stored before deduplication
+  private contentKey(clientKey: string, record: FileRecord): string {
+    if (record.quarantined) return this.quarantineKey(clientKey, record.id);
+    return record.blob
+      ? this.blobKey(clientKey, record.checksum)
+      : this.toKey(clientKey, record.path);
+  }
+
+  // <METADATA_ROOT>/<clientKey>/blob-locks/<checksum>.lock
+  private blobLockFile(clientKey: string, checksum: string): string {
+    const dir = path.resolve(this.metadataRoot, clientKey);
+    if (
+      path.dirname(dir) !== this.metadataRoot ||
+      !/^[0-9a-f]{64}$/.test(checksum)
+    ) {
+      throw new Error(`Invalid blob lock: ${clientKey}/${checksum}`);
+    }
+    return path.join(dir, 'blob-locks', `${checksum}.lock`);
   }
 
-  async ensureClientDir(clientKey: string): Promise<string> {
-    const dir = this.resolveClientDir(clientKey);
-    await fs.mkdir(dir, { recursive: true });
-    return dir;
+  /**
+   * Runs `task` holding the lock of one blob, in this process and across
+   * workers, so that a delete checking the blob's references cannot drop a
+   * blob that a concurrent upload of the same content found and indexed.
+   */
+  private async withBlobLock<T>(
+    clientKey: string,
+    checksum: string,
+    task: () => Promise<T>,
+  ): Promise<T> {
+    const lockFile = this.blobLockFile(clientKey, checksum);
+    const lockKey = `${clientKey}/${checksum}`;
+    const previous = this.blobLocks.get(lockKey) ?? Promise.resolve();
+    const current = previous
+      .catch(() => undefined)
+      .then(() =>
+        // Writing a large blob can take longer than the default wait
+        withFileLock(lockFile, task, { timeoutMs: BLOB_LOCK_TIMEOUT_MS }),
+      );
+    this.blobLocks.set(lockKey, current);
+    try {
+      return await current;
+    } finally {
+      if (this.blobLocks.get(lockKey) === current)
+        this.blobLocks.delete(lockKey);
+    }
   }
 
   private generateUniqueFilename(originalName: string): string {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
     const uniqueId = randomUUID().substring(0, 8);
-    const ext = path.extname(originalName);
-    const nameWithoutExt = path.basename(originalName, ext);
+    const safeName = sanitizeFileName(originalName);
+    const ext = path.extname(safeName);
+    const nameWithoutExt = path.basename(safeName, ext);
 
     // Tạo tên file với format: timestamp_uniqueId_originalName.ext
     return `${timestamp}_${uniqueId}_${nameWithoutExt}${ext}`;
   }
 
-  async saveBuffer(clientKey: string, originalName: string, buffer: Buffer, mimeType: string, createById?: string): Promise<StoredFile> {
-    const clientDir = await this.ensureClientDir(clientKey);
+  private toStoredFile(
+    clientKey: string,
+    record: FileRecord,
+    withMetadata = false,
+  ): StoredFile {
+    const stored: StoredFile = {
+      id: record.id,
+      path: record.path,
+      filename: record.filename,
+      originalName: record.originalName,
+      size: record.size,
+      mimeType: record.mimeType,
+      checksum: record.checksum,
+      createById: record.createById ?? null,
+      isPrivate: !!record.isPrivate,
+      url: `/storage/file/${encodeURIComponent(record.path)}`,
+      // Private files are only reachable with the client key or a signed share link
+      publicUrl:
+        record.isPrivate || record.quarantined
+          ? null
+          : `/${this.storageRoot}/${clientKey}/${record.path}`,
+      uploadedAt: new Date(record.createdAt),
+      quarantined: !!record.quarantined,
+      versionId: record.versionId ?? null,
+      thumbnailUrl:
+        record.preview?.status === 'ready' && !record.quarantined
+          ? `/storage/thumbnail/${encodeURIComponent(record.path)}`
+          : null,
+    };
+    if (withMetadata) stored.metadata = record.metadata ?? null;
+    return stored;
+  }
+
+  // Build relative path (inside the folder, or the user-specific directory if createById is provided)
+  private buildRelativePath(
+    originalName: string,
+    options: SaveFileOptions,
+  ): string {
+    if (options.path) return options.path;
     const uniqueFilename = this.generateUniqueFilename(originalName);
-    
-    // If createById is provided, create user-specific directory structure
-    let targetDir = clientDir;
-    if (createById) {
-      targetDir = path.join(clientDir, createById);
-      await fs.mkdir(targetDir, { recursive: true });
-    }
-    
-    const filePath = path.join(targetDir, uniqueFilename);
-    await fs.writeFile(filePath, buffer);
-    const stats = await fs.stat(filePath);
-    const uploadedAt = new Date();
-    
-    // Build relative path for URL (includes userId if present)
-    const relativePath = createById ? `${createById}/${uniqueFilename}` : uniqueFilename;
-    
+    const folder = options.folder || options.createById;
+    return folder ? `${folder}/${uniqueFilename}` : uniqueFilename;
+  }
+
+  /** Validates the folder, path and createById of an upload; they end up in its path. */
+  normalizeSaveOptions(options: SaveFileOptions): SaveFileOptions {
+    if (options.path !== undefined && options.folder !== undefined) {
+      throw new BadRequestException('path and folder cannot be combined');
+    }
     return {
-      filename: uniqueFilename,
+      ...options,
+      createById:
+        options.createById === undefined
+          ? undefined
+          : normalizeStorageName(options.createById, 'createById'),
+      folder:
+        options.folder === undefined
+          ? undefined
+          : normalizeStoragePath(options.folder, 'folder', {
+              allowRoot: true,
+            }) || undefined,
+      path:
+        options.path === undefined
+          ? undefined
+          : normalizeStoragePath(options.path),
+    };
+  }
+
+  // Fails early when the upload's folder is taken by a file, or its explicit path by a folder
+  private async assertFolderUsable(
+    clientKey: string,
+    options: SaveFileOptions,
+  ): Promise<void> {
+    const parent = options.path ? path.posix.dirname(options.path) : undefined;
+    const folder = parent
+      ? parent === '.'
+        ? ''
+        : parent
+      : options.folder || options.createById;
+    if (!folder && !options.path) return;
+    const records = await this.fileIndex.list(clientKey);
+    const snapshot: IndexSnapshot = {
+      records: new Map(records.map((record) => [record.path, record])),
+      folders: new Set(await this.fileIndex.listFolders(clientKey)),
+      trash: new Map(),
+    };
+    if (folder) assertNoFileAt(snapshot, folder);
+    if (options.path && folderExists(snapshot, options.path))
+      throw new ConflictException(
+        `A folder already exists at "${options.path}"`,
+      );
+    // New versions are recorded against a blob; convert a file stored before deduplication first
+    const current = options.path
+      ? snapshot.records.get(options.path)
+      : undefined;
+    if (current?.quarantined)
+      throw new ConflictException(
+        `A quarantined file exists at "${options.path}"`,
+      );
+    if (current) await this.toBlob(clientKey, current);
+  }
+
+  async saveBuffer(
+    clientKey: string,
+    originalName: string,
+    buffer: Buffer,
+    mimeType: string,
+    options: SaveFileOptions = {},
+  ): Promise<StoredFile> {
+    options = this.normalizeSaveOptions(options);
+    await this.ensureIndex(clientKey);
+    await this.assertFolderUsable(clientKey, options);
+    const detectedMimeType = sniffMimeType(buffer.subarray(0, SNIFF_BYTES));
+    const release = await this.reserveUpload(clientKey, {
       originalName,
-      size: stats.size,
       mimeType,
-      url: `/storage/file/${encodeURIComponent(relativePath)}`,
-      publicUrl: `/${this.storageRoot}/${clientKey}/${relativePath}`,
-      uploadedAt,
-    };
+      size: buffer.length,
+      createById: options.createById,
+      detectedMimeType,
+    });
+    try {
+      const scan = await this.fileScan.scan({
+        originalName,
+        mimeType,
+        detectedMimeType,
+        size: buffer.length,
+        open: () => Readable.from([buffer]),
+      });
+      const relativePath = this.buildRelativePath(originalName, options);
+      const checksum = createHash('sha256').update(buffer).digest('hex');
+      const content: UploadContent = {
+        relativePath,
+        originalName,
+        mimeType,
+        size: buffer.length,
+        checksum,
+        head: buffer,
+        scan,
+      };
+      if (scan?.status === 'infected')
+        return await this.quarantine(clientKey, content, buffer, options);
+      content.metadata = await this.readMetadata(
+        clientKey,
+        detectedMimeType ?? mimeType,
+        buffer,
+      );
+      const stored = await this.withBlobLock(clientKey, checksum, async () => {
+        const blobKey = this.blobKey(clientKey, checksum);
+        if (!(await this.driver.stat(blobKey))) {
+          await this.encryption.put(clientKey, blobKey, buffer, {
+            contentType: mimeType,
+          });
+        }
+        return this.indexUpload(clientKey, content, options);
+      });
+      // Outside the blob lock: retention may release an older copy of this very blob
+      if (options.path) await this.pruneVersions(clientKey, options.path);
+      return stored;
+    } finally {
+      release();
+    }
   }
 
-  async listFiles(clientKey: string): Promise<StoredFile[]> {
-    const dir = this.resolveClientDir(clientKey);
-    const results: StoredFile[] = [];
-    
+  /**
+   * Stores a file that was assembled on local disk (e.g. a finished resumable
+   * upload) without loading it into memory. The local file is moved, not copied,
+   * or removed when identical content is already stored.
+   */
+  async saveFile(
+    clientKey: string,
+    originalName: string,
+    localPath: string,
+    mimeType: string,
+    options: SaveFileOptions = {},
+  ): Promise<StoredFile> {
+    options = this.normalizeSaveOptions(options);
+    await this.ensureIndex(clientKey);
+    await this.assertFolderUsable(clientKey, options);
+    const { checksum, head } = await this.digestStream(
+      createReadStream(localPath),
+    );
+    const { size } = await fs.stat(localPath);
+    const detectedMimeType = sniffMimeType(head.subarray(0, SNIFF_BYTES));
+    const release = await this.reserveUpload(clientKey, {
+      originalName,
+      mimeType,
+      size,
+      createById: options.createById,
+      detectedMimeType,
+    });
     try {
-      const entries = await fs.readdir(dir);
-      
-      for (const entry of entries) {
-        const entryPath = path.join(dir, entry);
-        const stats = await fs.stat(entryPath);
-        
-        if (stats.isFile()) {
-          // File in root directory
-          const originalName = this.parseOriginalName(entry);
-          results.push({
-            filename: entry,
-            originalName,
-            size: stats.size,
-            mimeType: this.getMimeType(entry),
-            url: `/storage/file/${encodeURIComponent(entry)}`,
-            publicUrl: `/${this.storageRoot}/${clientKey}/${entry}`,
-            uploadedAt: stats.birthtime
+      const scan = await this.fileScan.scan({
+        originalName,
+        mimeType,
+        detectedMimeType,
+        size,
+        open: () => createReadStream(localPath),
+      });
+      const relativePath = this.buildRelativePath(originalName, options);
+      const content: UploadContent = {
+        relativePath,
+        originalName,
+        mimeType,
+        size,
+        checksum,
+        head,
+        scan,
+      };
+      if (scan?.status === 'infected')
+        return await this.quarantine(clientKey, content, localPath, options);
+      // Before the local file is moved into storage
+      content.metadata = await this.readMetadata(
+        clientKey,
+        detectedMimeType ?? mimeType,
+        localPath,
+      );
+      const stored = await this.withBlobLock(clientKey, checksum, async () => {
+        const blobKey = this.blobKey(clientKey, checksum);
+        if (await this.driver.stat(blobKey)) {
+          await fs.rm(localPath, { force: true });
+        } else {
+          await this.encryption.putFile(clientKey, blobKey, localPath, {
+            contentType: mimeType,
           });
-        } else if (stats.isDirectory()) {
-          // Directory (likely user directory), list files inside
-          try {
-            const userFiles = await fs.readdir(entryPath);
-            for (const userFile of userFiles) {
-              const userFilePath = path.join(entryPath, userFile);
-              const userFileStats = await fs.stat(userFilePath);
-              if (userFileStats.isFile()) {
-                const relativePath = `${entry}/${userFile}`;
-                const originalName = this.parseOriginalName(userFile);
-                results.push({
-                  filename: userFile,
-                  originalName,
-                  size: userFileStats.size,
-                  mimeType: this.getMimeType(userFile),
-                  url: `/storage/file/${encodeURIComponent(relativePath)}`,
-                  publicUrl: `/${this.storageRoot}/${clientKey}/${relativePath}`,
-                  uploadedAt: userFileStats.birthtime
-                });
-              }
-            }
-          } catch (err) {
-            // Skip directory if can't read
-            continue;
+        }
+        return this.indexUpload(clientKey, content, options);
+      });
+      if (options.path) await this.pruneVersions(clientKey, options.path);
+      return stored;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Stores several files one after the other. A failing file (policy, scan...)
+   * is reported in its result and does not stop the others.
+   */
+  async saveBuffers(
+    clientKey: string,
+    files: BatchUploadFile[],
+    options: SaveFileOptions = {},
+  ): Promise<BatchUploadResult> {
+    if (options.path !== undefined)
+      throw new BadRequestException(
+        'path cannot be used when uploading several files',
+      );
+    options = this.normalizeSaveOptions(options);
+    const results: BatchUploadItem[] = [];
+    for (const [index, file] of files.entries()) {
+      try {
+        const stored = await this.saveBuffer(
+          clientKey,
+          file.originalName,
+          file.buffer,
+          file.mimeType,
+          options,
+        );
+        results.push({
+          index,
+          originalName: file.originalName,
+          status: 'uploaded',
+          file: stored,
+        });
+      } catch (err) {
+        results.push({
+          index,
+          originalName: file.originalName,
+          status: 'failed',
+          error: this.toBatchError(err),
+        });
+      }
+    }
+    const uploaded = results.filter(
+      (result) => result.status === 'uploaded',
+    ).length;
+    return { uploaded, failed: results.length - uploaded, results };
+  }
+
+  private toBatchError(err: unknown): BatchItemError {
+    if (err instanceof HttpException)
+      return { statusCode: err.getStatus(), message: err.message };
+    this.logger.error(`Batch item failed: ${(err as Error).message}`);
+    return { statusCode: 500, message: 'Internal server error' };
+  }
+
+  /** Rejects an upload the client's policy does not allow (413/415/403). */
+  async checkUploadPolicy(
+    clientKey: string,
+    upload: UploadCandidate,
+  ): Promise<void> {
+    await this.ensureIndex(clientKey);
+    const client = await this.clientKeyService.findByNamespace(clientKey);
+    enforceClientPolicy(client?.policy, upload, await this.getUsage(clientKey));
+  }
+
+  // Checks the policy and holds the upload's share of the quota until it is indexed
+  private async reserveUpload(
+    clientKey: string,
+    upload: UploadCandidate,
+  ): Promise<() => void> {
+    await this.checkUploadPolicy(clientKey, upload);
+    const reserved = this.reservations.get(clientKey) ?? {
+      totalBytes: 0,
+      fileCount: 0,
+    };
+    reserved.totalBytes += upload.size;
+    reserved.fileCount++;
+    this.reservations.set(clientKey, reserved);
+    return () => {
+      reserved.totalBytes -= upload.size;
+      reserved.fileCount--;
+      if (reserved.fileCount === 0) this.reservations.delete(clientKey);
+    };
+  }
+
+  private async getUsage(clientKey: string): Promise<ClientUsage> {
+    const records = await this.fileIndex.list(clientKey);
+    const reserved = this.reservations.get(clientKey);
+    return {
+      totalBytes: records.reduce(
+        (sum, record) => sum + storedBytes(record),
+        reserved?.totalBytes ?? 0,
+      ),
+      fileCount: records.length + (reserved?.fileCount ?? 0),
+    };
+  }
+
+  /**
+   * Handles an upload the scanners flagged: refused with a 422, or, when the
+   * client's policy says so, stored aside where it is never served nor shared
+   * with clean content. `body` is the content or a local file to consume.
+   */
+  private async quarantine(
+    clientKey: string,
+    content: UploadContent,
+    body: Buffer | string,
+    options: SaveFileOptions,
+  ): Promise<StoredFile> {
+    const threats = content.scan?.threats.join('; ');
+    const policy = (await this.clientKeyService.findByNamespace(clientKey))
+      ?.policy;
+    if (policy?.infectedFiles !== 'quarantine') {
+      throw new UnprocessableEntityException(
+        `File rejected by upload scanning: ${threats}`,
+      );
+    }
+    const id = randomUUID();
+    const key = this.quarantineKey(clientKey, id);
+    if (typeof body === 'string')
+      await this.encryption.putFile(clientKey, key, body, {
+        contentType: 'application/octet-stream',
+      });
+    else
+      await this.encryption.put(clientKey, key, body, {
+        contentType: 'application/octet-stream',
+      });
+    // Never becomes a version of a clean file: keep it next to it under a unique name instead
+    if (options.path) {
+      const parent = path.posix.dirname(options.path);
+      const relativePath = this.buildRelativePath(content.originalName, {
+        folder: parent === '.' ? undefined : parent,
+      });
+      return this.indexUpload(
+        clientKey,
+        { ...content, relativePath },
+        { ...options, path: undefined },
+        id,
+      );
+    }
+    return this.indexUpload(clientKey, content, options, id);
+  }
+
+  // `quarantinedId` indexes content stored by quarantine() instead of a blob
+  private async indexUpload(
+    clientKey: string,
+    content: UploadContent,
+    options: SaveFileOptions,
+    quarantinedId?: string,
+  ): Promise<StoredFile> {
+    const now = new Date().toISOString();
+    let record: FileRecord = {
+      id: quarantinedId ?? randomUUID(),
+      path: content.relativePath,
+      filename: path.posix.basename(content.relativePath),
+      originalName: content.originalName,
+      mimeType: content.mimeType,
+      detectedMimeType:
+        sniffMimeType(content.head.subarray(0, SNIFF_BYTES)) ?? null,
+      size: content.size,
+      checksum: content.checksum,
+      blob: !quarantinedId,
+      createById: options.createById ?? null,
+      isPrivate: !!options.isPrivate,
+      scan: content.scan,
+      metadata: content.metadata ?? null,
+      quarantined: !!quarantinedId,
+      versionId: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    if (options.path) {
+      record = await this.putVersion(clientKey, record);
+    } else {
+      await this.fileIndex.put(clientKey, record);
+    }
+    const stored = this.toStoredFile(clientKey, record);
+    if (!quarantinedId) {
+      void this.webhookService.emit(clientKey, 'file.uploaded', {
+        file: stored,
+      });
+      this.notifyNewContent(clientKey, record);
+    }
+    void this.checkQuotaThresholds(clientKey, record.size);
+    return stored;
+  }
+
+  // Indexes an upload to an explicit path; a file already there becomes its previous version
+  private async putVersion(
+    clientKey: string,
+    upload: FileRecord,
+  ): Promise<FileRecord> {
+    let record = upload;
+    let current: FileRecord | undefined;
+    await this.fileIndex.update(clientKey, (snapshot) => {
+      current = snapshot.records.get(upload.path);
+      if (!current) {
+        if (folderExists(snapshot, upload.path))
+          throw new ConflictException(
+            `A folder already exists at "${upload.path}"`,
+          );
+        assertNoFileAt(snapshot, upload.path);
+        return [{ op: 'put', record }];
+      }
+      if (!current.blob)
+        throw new ConflictException(
+          'File changed during the upload, try again',
+        );
+      // Same file, new content: links and derivative ids keep working
+      record = {
+        ...upload,
+        id: current.id,
+        versions: [
+          toVersion(current, upload.createdAt),
+          ...(current.versions ?? []),
+        ],
+      };
+      return [{ op: 'put', record }];
+    });
+    if (current) await this.deleteDerivatives(clientKey, current);
+    return record;
+  }
+
+  // Emits quota.threshold for every threshold the last `addedBytes` (and file) pushed usage over
+  private async checkQuotaThresholds(
+    clientKey: string,
+    addedBytes: number,
+  ): Promise<void> {
+    try {
+      const policy = (await this.clientKeyService.findByNamespace(clientKey))
+        ?.policy;
+      if (!policy?.maxTotalBytes && !policy?.maxFileCount) return;
+      const records = await this.fileIndex.list(clientKey);
+      const usage = [
+        {
+          metric: 'totalBytes',
+          used: records.reduce((sum, record) => sum + storedBytes(record), 0),
+          added: addedBytes,
+          limit: policy.maxTotalBytes,
+        },
+        {
+          metric: 'fileCount',
+          used: records.length,
+          added: 1,
+          limit: policy.maxFileCount,
+        },
+      ];
+      for (const { metric, used, added, limit } of usage) {
+        if (!limit) continue;
+        for (const threshold of QUOTA_THRESHOLDS) {
+          const boundary = (limit * threshold) / 100;
+          if (used - added < boundary && used >= boundary) {
+            await this.webhookService.emit(clientKey, 'quota.threshold', {
+              metric,
+              threshold,
+              used,
+              limit,
+            });
           }
         }
       }
-      return results;
-    } catch (err) {
-      return [];
+    } catch {
+      // Best effort, like the webhooks themselves
     }
   }
 
+  async listFiles(
+    clientKey: string,
+    withMetadata = false,
+  ): Promise<StoredFile[]> {
+    await this.ensureIndex(clientKey);
+    const records = await this.fileIndex.list(clientKey);
+    return records.map((record) =>
+      this.toStoredFile(clientKey, record, withMetadata),
+    );
+  }
+
   private getMimeType(filename: string): string {
     const ext = path.extname(filename);
     return mime.lookup(ext) || 'application/octet-stream';
@@ -159,116 +996,1143 @@ export class StorageService {
     return filename; // Fallback to original filename if parsing fails
   }
 
-  async getFilePath(clientKey: string, filename: string): Promise<string> {
-    const clientDir = this.resolveClientDir(clientKey);
-    
-    // Try direct path first (for backward compatibility)
-    let filePath = path.join(clientDir, filename);
+  // Resolves a client-relative path (or a bare filename inside a user directory) to its index record
+  async resolveFile(
+    clientKey: string,
+    filename: string,
+    options: { buildIndex?: boolean } = {},
+  ): Promise<FileRecord> {
+    if (options.buildIndex !== false) await this.ensureIndex(clientKey);
+    // Unauthenticated routes must not make the server scan (and index) a namespace
+    else if (!(await this.fileIndex.exists(clientKey)))
+      throw new NotFoundException('File not found');
+    const normalized = normalizeStoragePath(filename);
+    const direct = await this.fileIndex.get(clientKey, normalized);
+    if (direct) return direct;
+
+    // Search in user subdirectories
+    if (!normalized.includes('/')) {
+      const records = await this.fileIndex.list(clientKey);
+      const match = records.find(
+        (record) => record.path === `${record.createById}/${normalized}`,
+      );
+      if (match) return match;
+    }
+
+    throw new NotFoundException('File not found');
+  }
+
+  async openFile(
+    clientKey: string,
+    record: FileRecord,
+    range?: { start: number; end: number },
+  ): Promise<Readable> {
+    if (record.quarantined) throw new ForbiddenException('File is quarantined');
     try {
-      const stats = await fs.stat(filePath);
-      if (stats.isFile()) return filePath;
-    } catch {
-      // File not found at direct path, continue searching
+      return await this.encryption.getStream(
+        clientKey,
+        this.contentKey(clientKey, record),
+        range,
+      );
+    } catch (err) {
+      // e.g. encrypted content without ENCRYPTION_MASTER_KEY
+      if (err instanceof HttpException) throw err;
+      throw new NotFoundException('File not found');
     }
-    
-    // If filename contains path separator, try that path
-    if (filename.includes('/')) {
-      filePath = path.join(clientDir, filename);
+  }
+
+  /** Moves a file to the client's trash, from where it can be restored until it is purged. */
+  async deleteFile(
+    clientKey: string,
+    filename: string,
+    deletedBy: TrashActor | null = null,
+  ): Promise<void> {
+    await this.trashRecord(
+      clientKey,
+      await this.resolveFile(clientKey, filename),
+      deletedBy,
+    );
+  }
+
+  private async trashRecord(
+    clientKey: string,
+    source: FileRecord,
+    deletedBy: TrashActor | null,
+  ): Promise<void> {
+    // Trashed content lives in a blob, so the file's path can be reused meanwhile
+    const record = await this.toBlob(clientKey, source);
+    const entry: TrashedFile = {
+      id: randomUUID(),
+      record,
+      deletedAt: new Date().toISOString(),
+      deletedBy,
+    };
+    await this.fileIndex.update(clientKey, (snapshot) => {
+      if (snapshot.records.get(record.path)?.id !== record.id)
+        throw new NotFoundException('File not found');
+      return [
+        { op: 'delete', path: record.path },
+        { op: 'trash', entry },
+      ];
+    });
+    void this.webhookService.emit(clientKey, 'file.deleted', {
+      file: this.toStoredFile(clientKey, record),
+    });
+  }
+
+  /**
+   * Moves several files to the trash: the given paths, or every file matching
+   * `filter` (the filters of GET /storage/list, at least one of them).
+   */
+  async deleteFiles(
+    clientKey: string,
+    selection: { paths?: unknown; filter?: unknown },
+    deletedBy: TrashActor | null = null,
+  ): Promise<BatchDeleteResult> {
+    const { paths, filter } = selection ?? {};
+    if ((paths === undefined) === (filter === undefined))
+      throw new BadRequestException('Give either paths or filter');
+    let targets: string[];
+    if (paths !== undefined) {
+      if (
+        !Array.isArray(paths) ||
+        !paths.length ||
+        paths.some((item) => typeof item !== 'string')
+      ) {
+        throw new BadRequestException(
+          'paths must be a non-empty array of strings',
+        );
+      }
+      if (paths.length > MAX_LIST_LIMIT)
+        throw new BadRequestException(
+          `At most ${MAX_LIST_LIMIT} paths can be deleted at once`,
+        );
+      targets = paths as string[];
+    } else {
+      if (
+        typeof filter !== 'object' ||
+        filter === null ||
+        Array.isArray(filter) ||
+        !Object.keys(filter).length
+      ) {
+        throw new BadRequestException(
+          'filter must be an object with at least one criterion',
+        );
+      }
+      const query = parseFileListQuery(filter as Record<string, unknown>);
+      targets = (await this.selectFiles(clientKey, query)).matches.map(
+        (record) => record.path,
+      );
+    }
+    const results: BatchDeleteItem[] = [];
+    for (const target of targets) {
       try {
-        const stats = await fs.stat(filePath);
-        if (stats.isFile()) return filePath;
-      } catch {
-        // Continue to search in subdirectories
+        await this.deleteFile(clientKey, target, deletedBy);
+        results.push({ path: target, status: 'deleted' });
+      } catch (err) {
+        results.push({
+          path: target,
+          status: 'failed',
+          error: this.toBatchError(err),
+        });
       }
     }
-    
-    // Search in user subdirectories
+    const deleted = results.filter(
+      (result) => result.status === 'deleted',
+    ).length;
+    return { deleted, failed: results.length - deleted, results };
+  }
+
+  async listTrash(clientKey: string): Promise<TrashedFile[]> {
+    await this.ensureIndex(clientKey);
+    return this.fileIndex.listTrash(clientKey);
+  }
+
+  /**
+   * Puts a trashed file back at its original path, or at `to` (as in
+   * moveFile). Restored files count against the quotas again.
+   */
+  async restoreFromTrash(
+    clientKey: string,
+    id: string,
+    to?: string,
+  ): Promise<StoredFile> {
+    const entry = (await this.listTrash(clientKey)).find(
+      (trashed) => trashed.id === id,
+    );
+    if (!entry) throw new NotFoundException('Trashed file not found');
+    const { record } = entry;
+    const target =
+      to === undefined ? record.path : this.targetPath(record.path, to);
+    const release = await this.reserveUpload(clientKey, {
+      originalName: record.originalName,
+      mimeType: record.mimeType,
+      size: record.size,
+      createById: record.createById ?? undefined,
+      detectedMimeType: record.detectedMimeType,
+    });
     try {
-      const entries = await fs.readdir(clientDir);
-      for (const entry of entries) {
-        const entryPath = path.join(clientDir, entry);
-        const stats = await fs.stat(entryPath);
-        if (stats.isDirectory()) {
-          const potentialPath = path.join(entryPath, filename);
-          try {
-            const fileStats = await fs.stat(potentialPath);
-            if (fileStats.isFile()) return potentialPath;
-          } catch {
-            // Continue searching
-          }
+      const filename = path.posix.basename(target);
+      const restored: FileRecord = {
+        ...record,
+        path: target,
+        filename,
+        originalName:
+          filename === record.filename ? record.originalName : filename,
+        updatedAt: new Date().toISOString(),
+      };
+      await this.fileIndex.update(clientKey, (snapshot) => {
+        if (!snapshot.trash.has(id))
+          throw new NotFoundException('Trashed file not found');
+        assertNoFileAt(snapshot, target);
+        if (folderExists(snapshot, target))
+          throw new ConflictException(`A folder already exists at "${target}"`);
+        return [
+          { op: 'untrash', id },
+          { op: 'put', record: restored },
+        ];
+      });
+      void this.checkQuotaThresholds(clientKey, restored.size);
+      return this.toStoredFile(clientKey, restored);
+    } finally {
+      release();
+    }
+  }
+
+  /** Permanently deletes the trashed files `filter` selects, with their content. Returns how many. */
+  async purgeTrash(
+    clientKey: string,
+    filter: (entry: TrashedFile) => boolean = () => true,
+  ): Promise<number> {
+    const entries = (await this.listTrash(clientKey)).filter(filter);
+    for (const entry of entries) await this.purgeEntry(clientKey, entry);
+    return entries.length;
+  }
+
+  private async purgeEntry(
+    clientKey: string,
+    entry: TrashedFile,
+  ): Promise<void> {
+    const { record } = entry;
+    const untrash = () =>
+      this.fileIndex.update(clientKey, (snapshot): JournalEntry[] =>
+        snapshot.trash.has(entry.id) ? [{ op: 'untrash', id: entry.id }] : [],
+      );
+    await untrash();
+    if (!record.blob)
+      await this.driver.delete(this.contentKey(clientKey, record));
+    await this.releaseBlobs(clientKey, blobChecksums(record));
+    await this.deleteDerivatives(clientKey, record);
+  }
+
+  // Deletes the blobs that no live, trashed or previous version of a file references anymore
+  private async releaseBlobs(
+    clientKey: string,
+    checksums: string[],
+  ): Promise<void> {
+    for (const checksum of new Set(checksums)) {
+      await this.withBlobLock(clientKey, checksum, async () => {
+        const records = [
+          ...(await this.fileIndex.list(clientKey)),
+          ...(await this.fileIndex.listTrash(clientKey)).map(
+            (entry) => entry.record,
+          ),
+        ];
+        if (!records.some((other) => blobChecksums(other).includes(checksum))) {
+          await this.driver.delete(this.blobKey(clientKey, checksum));
         }
+      });
+    }
+  }
+
+  /** Versions of a file, latest first. */
+  async listVersions(
+    clientKey: string,
+    filePath: string,
+  ): Promise<FileVersionInfo[]> {
+    const record = await this.resolveFile(clientKey, filePath);
+    const latest: FileVersionInfo = {
+      versionId: record.versionId ?? null,
+      originalName: record.originalName,
+      mimeType: record.mimeType,
+      size: record.size,
+      checksum: record.checksum,
+      uploadedAt: new Date(record.createdAt),
+      supersededAt: null,
+      isLatest: true,
+    };
+    return [
+      latest,
+      ...(record.versions ?? []).map((version) => ({
+        versionId: version.versionId,
+        originalName: version.originalName,
+        mimeType: version.mimeType,
+        size: version.size,
+        checksum: version.checksum,
+        uploadedAt: new Date(version.createdAt),
+        supersededAt: new Date(version.supersededAt),
+        isLatest: false,
+      })),
+    ];
+  }
+
+  /** The file as it was at `versionId`, to be served like the latest one. */
+  async resolveVersion(
+    clientKey: string,
+    filePath: string,
+    versionId: string,
+  ): Promise<FileRecord> {
+    const record = await this.resolveFile(clientKey, filePath);
+    if (record.versionId === versionId) return record;
+    const version = record.versions?.find(
+      (candidate) => candidate.versionId === versionId,
+    );
+    if (!version) throw new NotFoundException('Version not found');
+    return {
+      ...record,
+      ...fromVersion(version),
+      blob: true,
+      quarantined: false,
+      versions: undefined,
+    };
+  }
+
+  /** Makes an older version the latest again, as a new version with its content. */
+  async restoreVersion(
+    clientKey: string,
+    filePath: string,
+    versionId: string,
+  ): Promise<StoredFile> {
+    if (typeof versionId !== 'string' || !versionId)
+      throw new BadRequestException('versionId is required');
+    const source = await this.resolveFile(clientKey, filePath);
+    let restored: FileRecord | undefined;
+    await this.fileIndex.update(clientKey, (snapshot) => {
+      const current = snapshot.records.get(source.path);
+      const version = current?.versions?.find(
+        (candidate) => candidate.versionId === versionId,
+      );
+      if (!current || !version)
+        throw new NotFoundException('Version not found');
+      const now = new Date().toISOString();
+      restored = {
+        ...current,
+        ...fromVersion(version),
+        versionId: randomUUID(),
+        versions: [toVersion(current, now), ...(current.versions ?? [])],
+        preview: undefined,
+        metadata: undefined,
+        createdAt: now,
+        updatedAt: now,
+      };
+      return [{ op: 'put', record: restored }];
+    });
+    await this.deleteDerivatives(clientKey, source);
+    this.notifyNewContent(clientKey, restored!);
+    await this.pruneVersions(clientKey, source.path);
+    return this.toStoredFile(
+      clientKey,
+      (await this.fileIndex.get(clientKey, source.path)) ?? restored!,
+    );
+  }
+
+  /**
+   * Applies the client's version retention (maxVersions, maxVersionAge) to one
+   * file, or to every file. Returns how many versions were deleted.
+   */
+  async pruneVersions(clientKey: string, filePath?: string): Promise<number> {
+    const policy = (await this.clientKeyService.findByNamespace(clientKey))
+      ?.policy;
+    if (policy?.maxVersions == null && policy?.maxVersionAge == null) return 0;
+    const now = Date.now();
+    const dropped: FileVersion[] = [];
+    await this.fileIndex.update(clientKey, (snapshot) => {
+      const entries: JournalEntry[] = [];
+      const records =
+        filePath === undefined
+          ? [...snapshot.records.values()]
+          : [snapshot.records.get(filePath)];
+      for (const record of records) {
+        if (!record?.versions?.length) continue;
+        const kept = retainedVersions(record.versions, policy, now);
+        if (kept.length === record.versions.length) continue;
+        dropped.push(
+          ...record.versions.filter((version) => !kept.includes(version)),
+        );
+        entries.push({ op: 'put', record: { ...record, versions: kept } });
       }
-    } catch {
-      // Directory read error
+      return entries;
+    });
+    await this.releaseBlobs(
+      clientKey,
+      dropped.map((version) => version.checksum),
+    );
+    return dropped.length;
+  }
+
+  private async deleteDerivatives(
+    clientKey: string,
+    record: FileRecord,
+  ): Promise<void> {
+    const derivatives = await this.driver.list(
+      this.toKey(clientKey, `${DERIVATIVES_DIR}/${record.id}/`),
+    );
+    await Promise.all(
+      derivatives.map((object) => this.driver.delete(object.key)),
+    );
+  }
+
+  /**
+   * One page of the files below `query.prefix` that match its filters, in its
+   * sort order. Non-recursive queries only return the folder's own files and
+   * group everything deeper into `commonPrefixes`.
+   */
+  async queryFiles(
+    clientKey: string,
+    query: FileListQuery,
+  ): Promise<FileListPage> {
+    const { matches, commonPrefixes } = await this.selectFiles(
+      clientKey,
+      query,
+    );
+
+    const sortValue = (record: FileRecord): string | number => {
+      if (query.sort === 'size') return record.size;
+      if (query.sort === 'name') return record.originalName.toLowerCase();
+      return record.createdAt;
+    };
+    const direction = query.order === 'asc' ? 1 : -1;
+    // Ties are broken by path, so every file has a stable position for the cursor
+    const compare = (
+      a: { value: string | number; path: string },
+      b: { value: string | number; path: string },
+    ) =>
+      direction *
+      (a.value < b.value
+        ? -1
+        : a.value > b.value
+          ? 1
+          : a.path < b.path
+            ? -1
+            : a.path > b.path
+              ? 1
+              : 0);
+    const sorted = matches
+      .map((record) => ({
+        record,
+        value: sortValue(record),
+        path: record.path,
+      }))
+      .sort(compare);
+    const cursor = query.cursor;
+    const remaining = cursor
+      ? sorted.filter((item) => compare(item, cursor) > 0)
+      : sorted;
+    const page = remaining.slice(0, query.limit);
+    const last = page[page.length - 1];
+    return {
+      prefix: query.prefix,
+      files: page.map((item) =>
+        this.toStoredFile(clientKey, item.record, query.metadata),
+      ),
+      commonPrefixes: [...commonPrefixes].sort(),
+      total: sorted.length,
+      nextCursor:
+        remaining.length > page.length
+          ? encodeListCursor({
+              sort: query.sort,
+              order: query.order,
+              value: last.value,
+              path: last.path,
+            })
+          : null,
+    };
+  }
+
+  // Files below `query.prefix` matching its filters, unsorted; sub-folders are grouped unless recursive
+  private async selectFiles(
+    clientKey: string,
+    query: FileListQuery,
+  ): Promise<{ matches: FileRecord[]; commonPrefixes: Set<string> }> {
+    await this.ensureIndex(clientKey);
+    const base = query.prefix ? `${query.prefix}/` : '';
+    const matches: FileRecord[] = [];
+    const commonPrefixes = new Set<string>();
+    for (const record of await this.fileIndex.list(clientKey)) {
+      if (!record.path.startsWith(base)) continue;
+      const rest = record.path.substring(base.length);
+      if (!query.recursive && rest.includes('/'))
+        commonPrefixes.add(`${base}${rest.split('/')[0]}/`);
+      else if (this.matchesQuery(record, query)) matches.push(record);
     }
-    
-    throw new NotFoundException('File not found');
+    if (!query.recursive) {
+      for (const folder of await this.fileIndex.listFolders(clientKey)) {
+        if (folder.startsWith(base))
+          commonPrefixes.add(
+            `${base}${folder.substring(base.length).split('/')[0]}/`,
+          );
+      }
+    }
+    return { matches, commonPrefixes };
   }
 
-  async deleteFile(clientKey: string, filename: string): Promise<void> {
-    const filePath = await this.getFilePath(clientKey, filename);
-    try {
-      await fs.unlink(filePath);
-    } catch {
-      throw new NotFoundException('File not found');
+  private matchesQuery(record: FileRecord, query: FileListQuery): boolean {
+    if (query.mimeType) {
+      const mimeType = record.mimeType.toLowerCase();
+      const matches = query.mimeType.endsWith('/*')
+        ? mimeType.startsWith(query.mimeType.slice(0, -1))
+        : mimeType === query.mimeType;
+      if (!matches) return false;
+    }
+    if (
+      query.type &&
+      this.getFileTypeFromMimeType(record.mimeType).toLowerCase() !==
+        query.type.toLowerCase()
+    )
+      return false;
+    if (
+      query.createById !== undefined &&
+      record.createById !== query.createById
+    )
+      return false;
+    const uploadedAt = new Date(record.createdAt).getTime();
+    if (query.uploadedFrom && uploadedAt < query.uploadedFrom.getTime())
+      return false;
+    if (query.uploadedTo && uploadedAt > query.uploadedTo.getTime())
+      return false;
+    if (query.minSize !== undefined && record.size < query.minSize)
+      return false;
+    if (query.maxSize !== undefined && record.size > query.maxSize)
+      return false;
+    if (query.name && !record.originalName.toLowerCase().includes(query.name))
+      return false;
+    return true;
+  }
+
+  async createFolder(
+    clientKey: string,
+    folderPath: string,
+  ): Promise<{ path: string }> {
+    const folder = normalizeStoragePath(folderPath);
+    await this.ensureIndex(clientKey);
+    await this.fileIndex.update(clientKey, (snapshot) => {
+      assertNoFileAt(snapshot, folder);
+      if (folderExists(snapshot, folder))
+        throw new ConflictException('Folder already exists');
+      return [{ op: 'mkdir', path: folder }];
+    });
+    return { path: folder };
+  }
+
+  /**
+   * Moves a file to `to`, a full path, or into the folder `to` when it ends
+   * with "/". The file keeps its id, so existing derivatives stay valid.
+   */
+  async moveFile(
+    clientKey: string,
+    from: string,
+    to: string,
+  ): Promise<StoredFile> {
+    return this.relocateFile(
+      clientKey,
+      await this.resolveFile(clientKey, normalizeStoragePath(from, 'from')),
+      this.targetPath(from, to),
+      false,
+    );
+  }
+
+  /** Copies a file like moveFile; the copy shares the original's stored content. */
+  async copyFile(
+    clientKey: string,
+    from: string,
+    to: string,
+  ): Promise<StoredFile> {
+    return this.relocateFile(
+      clientKey,
+      await this.resolveFile(clientKey, normalizeStoragePath(from, 'from')),
+      this.targetPath(from, to),
+      true,
+    );
+  }
+
+  async renameFile(
+    clientKey: string,
+    filePath: string,
+    name: string,
+  ): Promise<StoredFile> {
+    const record = await this.resolveFile(clientKey, filePath);
+    const newName = normalizeStorageName(name);
+    const folder = path.posix.dirname(record.path);
+    return this.relocateFile(
+      clientKey,
+      record,
+      folder === '.' ? newName : `${folder}/${newName}`,
+      false,
+    );
+  }
+
+  private targetPath(from: string, to: string): string {
+    if (typeof to === 'string' && to.endsWith('/')) {
+      const folder = normalizeStoragePath(to, 'to', { allowRoot: true });
+      const filename = path.posix.basename(normalizeStoragePath(from, 'from'));
+      return folder ? `${folder}/${filename}` : filename;
     }
+    return normalizeStoragePath(to, 'to');
   }
 
-  async getFileInfo(clientKey: string, filename: string): Promise<any> {
+  private async relocateFile(
+    clientKey: string,
+    source: FileRecord,
+    target: string,
+    copy: boolean,
+  ): Promise<StoredFile> {
+    if (copy && source.quarantined)
+      throw new ConflictException('Quarantined files cannot be copied');
+    if (target === source.path) {
+      if (copy)
+        throw new ConflictException(`A file already exists at "${target}"`);
+      return this.toStoredFile(clientKey, source);
+    }
+    const release = copy
+      ? await this.reserveUpload(clientKey, {
+          originalName: source.originalName,
+          mimeType: source.mimeType,
+          size: source.size,
+          createById: source.createById ?? undefined,
+          detectedMimeType: source.detectedMimeType,
+        })
+      : () => undefined;
     try {
-      const filePath = await this.getFilePath(clientKey, filename);
-      const stats = await fs.stat(filePath);
-      const originalName = this.parseOriginalName(path.basename(filename));
-      
-      // Extract relative path from filePath for publicUrl
-      const clientDir = this.resolveClientDir(clientKey);
-      const relativePath = path.relative(clientDir, filePath).replace(/\\/g, '/');
-      
-      return {
-        filename: path.basename(filename),
-        originalName: originalName,
-        size: stats.size,
-        mimeType: this.getMimeType(filename),
-        url: `/storage/file/${encodeURIComponent(relativePath)}`,
-        publicUrl: `/${this.storageRoot}/${clientKey}/${relativePath}`,
-        uploadedAt: stats.birthtime
+      // Entries can only be re-pointed cheaply once their bytes are in a blob
+      const record = await this.toBlob(clientKey, source);
+      const filename = path.posix.basename(target);
+      const now = new Date().toISOString();
+      const moved: FileRecord = {
+        ...record,
+        id: copy ? randomUUID() : record.id,
+        // A copy starts its own history, and gets its own derivatives
+        versions: copy ? undefined : record.versions,
+        preview: copy ? undefined : record.preview,
+        path: target,
+        filename,
+        // An explicit new name is also what downloads are named
+        originalName:
+          filename === record.filename ? record.originalName : filename,
+        createdAt: copy ? now : record.createdAt,
+        updatedAt: now,
       };
-    } catch (error) {
-      throw new NotFoundException('File not found');
+      await this.fileIndex.update(clientKey, (snapshot) => {
+        if (snapshot.records.get(record.path)?.id !== record.id)
+          throw new NotFoundException('File not found');
+        assertNoFileAt(snapshot, target);
+        if (folderExists(snapshot, target))
+          throw new ConflictException(`A folder already exists at "${target}"`);
+        const entries: JournalEntry[] = [{ op: 'put', record: moved }];
+        if (!copy) entries.unshift({ op: 'delete', path: record.path });
+        return entries;
+      });
+      if (copy) {
+        void this.checkQuotaThresholds(clientKey, moved.size);
+        this.notifyNewContent(clientKey, moved);
+      }
+      return this.toStoredFile(clientKey, moved);
+    } finally {
+      release();
+    }
+  }
+
+  // Moves the bytes of an entry stored before deduplication into its blob; quarantined content stays apart
+  private async toBlob(
+    clientKey: string,
+    record: FileRecord,
+  ): Promise<FileRecord> {
+    if (record.blob || record.quarantined) return record;
+    return this.withBlobLock(clientKey, record.checksum, async () => {
+      const legacyKey = this.toKey(clientKey, record.path);
+      const blobKey = this.blobKey(clientKey, record.checksum);
+      if (!(await this.driver.stat(blobKey))) {
+        // Copied as stored: encrypted content stays encrypted
+        const stored = await this.driver.stat(legacyKey);
+        await this.driver.put(blobKey, await this.driver.getStream(legacyKey), {
+          contentType: record.mimeType,
+          size: stored?.size,
+        });
+      }
+      const converted: FileRecord = { ...record, blob: true };
+      await this.fileIndex.put(clientKey, converted);
+      await this.driver.delete(legacyKey);
+      return converted;
+    });
+  }
+
+  /** Moves a folder with everything inside it; `to` must not exist yet. */
+  async moveFolder(
+    clientKey: string,
+    from: string,
+    to: string,
+  ): Promise<FolderMoveResult> {
+    const source = normalizeStoragePath(from, 'from');
+    const target = normalizeStoragePath(to, 'to');
+    if (isWithinFolder(target, source))
+      throw new BadRequestException('A folder cannot be moved into itself');
+    await this.ensureIndex(clientKey);
+    const inside = (await this.fileIndex.list(clientKey)).filter((record) =>
+      record.path.startsWith(`${source}/`),
+    );
+    for (const record of inside) await this.toBlob(clientKey, record);
+
+    let movedFiles = 0;
+    const now = new Date().toISOString();
+    const relocate = (value: string) =>
+      `${target}${value.substring(source.length)}`;
+    await this.fileIndex.update(clientKey, (snapshot) => {
+      if (!folderExists(snapshot, source))
+        throw new NotFoundException('Folder not found');
+      assertNoFileAt(snapshot, target);
+      if (folderExists(snapshot, target))
+        throw new ConflictException('Folder already exists');
+      const entries: JournalEntry[] = [];
+      for (const record of snapshot.records.values()) {
+        if (!record.path.startsWith(`${source}/`)) continue;
+        // Appeared (e.g. through a rebuild) after the conversion above
+        if (!record.blob && !record.quarantined)
+          throw new ConflictException(
+            'Folder changed during the move, try again',
+          );
+        entries.push(
+          { op: 'delete', path: record.path },
+          {
+            op: 'put',
+            record: { ...record, path: relocate(record.path), updatedAt: now },
+          },
+        );
+        movedFiles++;
+      }
+      for (const folder of snapshot.folders) {
+        if (!isWithinFolder(folder, source)) continue;
+        entries.push(
+          { op: 'rmdir', path: folder },
+          { op: 'mkdir', path: relocate(folder) },
+        );
+      }
+      return entries;
+    });
+    return { path: target, movedFiles };
+  }
+
+  async renameFolder(
+    clientKey: string,
+    folderPath: string,
+    name: string,
+  ): Promise<FolderMoveResult> {
+    const source = normalizeStoragePath(folderPath);
+    const parent = path.posix.dirname(source);
+    const newName = normalizeStorageName(name);
+    return this.moveFolder(
+      clientKey,
+      source,
+      parent === '.' ? newName : `${parent}/${newName}`,
+    );
+  }
+
+  /** Deletes an empty folder, or with `recursive` everything inside it (files go to the trash). */
+  async deleteFolder(
+    clientKey: string,
+    folderPath: string,
+    recursive: boolean,
+    deletedBy: TrashActor | null = null,
+  ): Promise<FolderDeleteResult> {
+    const folder = normalizeStoragePath(folderPath);
+    await this.ensureIndex(clientKey);
+    const records = (await this.fileIndex.list(clientKey)).filter((record) =>
+      record.path.startsWith(`${folder}/`),
+    );
+    const folders = (await this.fileIndex.listFolders(clientKey)).filter(
+      (marker) => isWithinFolder(marker, folder),
+    );
+    if (!records.length && !folders.length)
+      throw new NotFoundException('Folder not found');
+    if (
+      !recursive &&
+      (records.length || folders.some((marker) => marker !== folder))
+    ) {
+      throw new ConflictException('Folder is not empty');
+    }
+    for (const record of records)
+      await this.trashRecord(clientKey, record, deletedBy);
+    await this.fileIndex.update(clientKey, (snapshot) =>
+      [...snapshot.folders]
+        .filter((marker) => isWithinFolder(marker, folder))
+        .map((marker): JournalEntry => ({ op: 'rmdir', path: marker })),
+    );
+    return { path: folder, deletedFiles: records.length };
+  }
+
+  /** Files of a folder (recursively), for archives; 404 when it holds none. */
+  async listFolderFiles(
+    clientKey: string,
+    folderPath: string,
+  ): Promise<FileRecord[]> {
+    const folder = normalizeStoragePath(folderPath, 'folder', {
+      allowRoot: true,
+    });
+    await this.ensureIndex(clientKey);
+    const records = (await this.fileIndex.list(clientKey)).filter(
+      (record) => !folder || record.path.startsWith(`${folder}/`),
+    );
+    if (!records.length)
+      throw new NotFoundException('Folder not found or empty');
+    return records;
+  }
+
+  async getFileInfo(
+    clientKey: string,
+    filename: string,
+  ): Promise<
+    StoredFile & {
+      metadata: MediaMetadata | null;
+      detectedMimeType: string | null;
+      scanStatus: FileScanResult['status'] | 'unscanned';
+      scan: FileScanResult | null;
+      preview: FilePreview | null;
+      versionCount: number;
+    }
+  > {
+    const record = await this.ensureMetadata(
+      clientKey,
+      await this.resolveFile(clientKey, filename),
+    );
+    return {
+      ...this.toStoredFile(clientKey, record),
+      metadata: record.metadata ?? null,
+      detectedMimeType: record.detectedMimeType ?? null,
+      scanStatus: record.scan?.status ?? 'unscanned',
+      scan: record.scan ?? null,
+      preview: record.preview ?? null,
+      versionCount: 1 + (record.versions?.length ?? 0),
+    };
+  }
+
+  /** Stores the preview state of a file, unless its content changed meanwhile. Returns false then. */
+  async setPreview(
+    clientKey: string,
+    file: Pick<FileRecord, 'id' | 'checksum'>,
+    preview: FilePreview,
+  ): Promise<boolean> {
+    return this.patchContent(clientKey, file, { preview });
+  }
+
+  // Updates what is derived from a file's content, unless that content changed meanwhile
+  private async patchContent(
+    clientKey: string,
+    file: Pick<FileRecord, 'id' | 'checksum'>,
+    patch: Partial<FileRecord>,
+  ): Promise<boolean> {
+    let updated = false;
+    await this.fileIndex.update(clientKey, (snapshot) => {
+      const record = [...snapshot.records.values()].find(
+        (candidate) => candidate.id === file.id,
+      );
+      if (record?.checksum !== file.checksum) return [];
+      updated = true;
+      return [{ op: 'put', record: { ...record, ...patch } }];
+    });
+    return updated;
+  }
+
+  private async readMetadata(
+    clientKey: string,
+    mimeType: string,
+    source: MetadataSource,
+  ): Promise<MediaMetadata | null> {
+    if (!this.mediaMetadata.supports(mimeType)) return null;
+    const policy = (await this.clientKeyService.findByNamespace(clientKey))
+      ?.policy;
+    return this.mediaMetadata.extract(mimeType, source, {
+      stripGps: !!policy?.stripGps,
+    });
+  }
+
+  // Files stored before metadata extraction get theirs the first time it is asked for
+  private async ensureMetadata(
+    clientKey: string,
+    record: FileRecord,
+  ): Promise<FileRecord> {
+    if (record.metadata !== undefined || record.quarantined) return record;
+    const mimeType = record.detectedMimeType ?? record.mimeType;
+    const metadata = this.mediaMetadata.supports(mimeType)
+      ? await this.readMetadata(
+          clientKey,
+          mimeType,
+          await this.openFile(clientKey, record),
+        )
+      : null;
+    await this.patchContent(clientKey, record, { metadata });
+    return { ...record, metadata };
+  }
+
+  // Builds the index from storage the first time a client is accessed
+  private async ensureIndex(clientKey: string): Promise<void> {
+    if (await this.fileIndex.exists(clientKey)) return;
+    await this.rebuildIndex(clientKey);
+  }
+
+  /**
+   * Re-scans a client's objects and rewrites its index. Metadata of files that
+   * are already indexed is kept; unknown files are hashed and their metadata is
+   * reconstructed from the `timestamp_uniqueId_originalName` filename. Safe
+   * against a live namespace: the index is merged and replaced under its lock,
+   * and an object that cannot be read keeps the entry it had.
+   */
+  async rebuildIndex(clientKey: string): Promise<RebuildIndexResult> {
+    const running = this.rebuilds.get(clientKey);
+    if (running) return running;
+    const task = this.doRebuildIndex(clientKey).finally(() =>
+      this.rebuilds.delete(clientKey),
+    );
+    this.rebuilds.set(clientKey, task);
+    return task;
+  }
+
+  private async doRebuildIndex(clientKey: string): Promise<RebuildIndexResult> {
+    const prefix = `${clientKey}/`;
+    // Hashing reads every legacy object, so it runs before taking the journal lock
+    const shadowed = new Set(
+      (await this.fileIndex.list(clientKey))
+        .filter((record) => record.blob || record.quarantined)
+        .map((record) => record.path),
+    );
+    const digests = new Map<
+      string,
+      { checksum: string; head: Buffer; size: number; lastModified: Date }
+    >();
+    let failed = 0;
+    for (const object of await this.driver.list(prefix)) {
+      const relativePath = object.key.substring(prefix.length);
+      // Dot-prefixed segments hold internal data (temp files, caches...), not user files
+      if (relativePath.split('/').some((segment) => segment.startsWith('.')))
+        continue;
+      // A legacy object shadowed by a deduplicated entry with the same path
+      if (shadowed.has(relativePath)) continue;
+      try {
+        const digest = await this.digestStream(
+          await this.encryption.getStream(clientKey, object.key),
+        );
+        digests.set(relativePath, {
+          ...digest,
+          lastModified: object.lastModified,
+        });
+      } catch (err) {
+        this.logger.error(
+          `Could not read ${object.key}: ${(err as Error).message}`,
+        );
+        failed++;
+      }
     }
+
+    let added = 0;
+    let removed = 0;
+    let indexed = 0;
+    await this.fileIndex.replaceAll(clientKey, async (snapshot) => {
+      const existing = snapshot.records;
+      // Listed again under the lock: blobs of uploads indexed meanwhile are there too
+      const keys = new Set(
+        (await this.driver.list(prefix)).map((object) => object.key),
+      );
+      const records: FileRecord[] = [];
+      for (const record of existing.values()) {
+        // Deduplicated and quarantined entries only exist in the index; keep those whose content is still there
+        if (record.blob || record.quarantined) {
+          if (keys.has(this.contentKey(clientKey, record)))
+            records.push(record);
+          continue;
+        }
+        if (!keys.has(this.toKey(clientKey, record.path))) continue;
+        const digest = digests.get(record.path);
+        // Unreadable, or shadowed when the objects were hashed
+        if (!digest) {
+          records.push(record);
+          continue;
+        }
+        // What was derived from content that changed behind our back is stale
+        records.push({
+          ...record,
+          size: digest.size,
+          checksum: digest.checksum,
+          ...(record.checksum === digest.checksum
+            ? {}
+            : { preview: undefined, metadata: undefined }),
+          updatedAt: new Date().toISOString(),
+        });
+      }
+
+      for (const [relativePath, digest] of digests) {
+        if (existing.has(relativePath)) continue;
+        if (!keys.has(this.toKey(clientKey, relativePath))) continue;
+        const segments = relativePath.split('/');
+        const filename = segments[segments.length - 1];
+        const createdAt = digest.lastModified.toISOString();
+        records.push({
+          id: randomUUID(),
+          path: relativePath,
+          filename,
+          originalName: this.parseOriginalName(filename),
+          mimeType: this.getMimeType(filename),
+          detectedMimeType: sniffMimeType(digest.head) ?? null,
+          size: digest.size,
+          checksum: digest.checksum,
+          createById: segments.length === 2 ? segments[0] : null,
+          createdAt,
+          updatedAt: createdAt,
+        });
+        added++;
+      }
+      const paths = new Set(records.map((record) => record.path));
+      removed = [...existing.keys()].filter((p) => !paths.has(p)).length;
+      indexed = records.length;
+      return records;
+    });
+    return { clientKey, indexed, added, removed, failed };
   }
 
+  /**
+   * Rewrites every object of a client (blobs, older files, quarantine, image
+   * variants) with its active data key; plain objects get encrypted.
+   */
+  async reencryptFiles(clientKey: string): Promise<ReencryptResult> {
+    const prefix = `${clientKey}/`;
+    const result: ReencryptResult = { reencrypted: 0, unchanged: 0, failed: 0 };
+    for (const object of await this.driver.list(prefix)) {
+      const segments = object.key.substring(prefix.length).split('/');
+      // Resumable uploads in progress are local scratch files
+      if (segments[0] === '.uploads') continue;
+      const reencrypt = () => this.encryption.reencrypt(clientKey, object.key);
+      try {
+        const changed =
+          segments[0] === BLOBS_DIR
+            ? await this.withBlobLock(
+                clientKey,
+                segments[segments.length - 1],
+                reencrypt,
+              )
+            : await reencrypt();
+        if (changed) result.reencrypted++;
+        else result.unchanged++;
+      } catch (err) {
+        this.logger.error(
+          `Could not re-encrypt ${object.key}: ${(err as Error).message}`,
+        );
+        result.failed++;
+      }
+    }
+    return result;
+  }
+
+  // Reads a stream once to compute its SHA-256 and size and capture its leading bytes
+  private async digestStream(
+    stream: Readable,
+  ): Promise<{ checksum: string; head: Buffer; size: number }> {
+    const hash = createHash('sha256');
+    const headChunks: Buffer[] = [];
+    let headLength = 0;
+    let size = 0;
+    for await (const chunk of stream) {
+      const buffer = chunk as Buffer;
+      hash.update(buffer);
+      size += buffer.length;
+      if (headLength < SNIFF_BYTES) {
+        headChunks.push(buffer.subarray(0, SNIFF_BYTES - headLength));
+        headLength += Math.min(buffer.length, SNIFF_BYTES - headLength);
+      }
+    }
+    return {
+      checksum: hash.digest('hex'),
+      head: Buffer.concat(headChunks),
+      size,
+    };
+  }
+
+  /** Client namespaces that currently hold objects in storage. */
+  async listClientKeys(): Promise<string[]> {
+    const objects = await this.driver.list('');
+    const namespaced = objects.filter((object) => object.key.includes('/'));
+    return [...new Set(namespaced.map((object) => object.key.split('/')[0]))];
+  }
 
   async getFileStatistics(clientKey: string): Promise<FileStatistics> {
     const files = await this.listFiles(clientKey);
+    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+    const physicalSize = await this.getPhysicalSize(clientKey);
+    const policy = (await this.clientKeyService.findByNamespace(clientKey))
+      ?.policy;
+    const maxTotalBytes = policy?.maxTotalBytes ?? null;
+    const maxFileCount = policy?.maxFileCount ?? null;
+    // The numbers uploads are checked against, so remainingBytes is what can still be uploaded
+    const usage = await this.getUsage(clientKey);
+    const records = await this.fileIndex.list(clientKey);
+    const quota: FileStatistics['quota'] = {
+      usedBytes: usage.totalBytes,
+      versionBytes: records.reduce(
+        (sum, record) => sum + storedBytes(record) - record.size,
+        0,
+      ),
+      usedFiles: usage.fileCount,
+      maxTotalBytes,
+      remainingBytes:
+        maxTotalBytes === null
+          ? null
+          : Math.max(0, maxTotalBytes - usage.totalBytes),
+      usedPercent: maxTotalBytes
+        ? Math.round((usage.totalBytes / maxTotalBytes) * 10000) / 100
+        : null,
+      maxFileCount,
+      remainingFiles:
+        maxFileCount === null
+          ? null
+          : Math.max(0, maxFileCount - usage.fileCount),
+      maxFileSize: policy?.maxFileSize ?? null,
+    };
+    const traffic = {
+      today: await this.usageService.getDay(clientKey),
+      limits: this.usageService.limitsFor({ policy }),
+    };
 
     if (files.length === 0) {
       return {
         totalFiles: 0,
         totalSize: 0,
         fileTypes: {},
-        sizeBreakdown: {}
+        sizeBreakdown: {},
+        logicalSize: 0,
+        physicalSize,
+        quota,
+        traffic,
       };
     }
 
-    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
-    const fileTypes: { [fileType: string]: { count: number; totalSize: number; percentage: number } } = {};
+    const fileTypes: {
+      [fileType: string]: {
+        count: number;
+        totalSize: number;
+        percentage: number;
+      };
+    } = {};
     const sizeBreakdown: { [sizeRange: string]: number } = {
       '0-1MB': 0,
       '1-10MB': 0,
       '10-100MB': 0,
-      '100MB+': 0
+      '100MB+': 0,
     };
 
     // Thống kê theo loại file
-    files.forEach(file => {
+    files.forEach((file) => {
       const fileType = this.getFileTypeFromMimeType(file.mimeType);
 
       if (!fileTypes[fileType]) {
         fileTypes[fileType] = {
           count: 0,
           totalSize: 0,
-          percentage: 0
+          percentage: 0,
         };
       }
 
@@ -277,12 +2141,14 @@ export class StorageService {
     });
 
     // Tính phần trăm cho mỗi loại file
-    Object.keys(fileTypes).forEach(fileType => {
-      fileTypes[fileType].percentage = Math.round((fileTypes[fileType].count / files.length) * 100);
+    Object.keys(fileTypes).forEach((fileType) => {
+      fileTypes[fileType].percentage = Math.round(
+        (fileTypes[fileType].count / files.length) * 100,
+      );
     });
 
     // Thống kê theo kích thước file
-    files.forEach(file => {
+    files.forEach((file) => {
       const sizeInMB = file.size / (1024 * 1024);
       if (sizeInMB < 1) {
         sizeBreakdown['0-1MB']++;
@@ -299,22 +2165,49 @@ export class StorageService {
       totalFiles: files.length,
       totalSize,
       fileTypes,
-      sizeBreakdown
+      sizeBreakdown,
+      logicalSize: totalSize,
+      physicalSize,
+      quota,
+      traffic,
     };
   }
 
+  // Each blob counts once, however many entries reference it
+  private async getPhysicalSize(clientKey: string): Promise<number> {
+    const records = await this.fileIndex.list(clientKey);
+    const blobSizes = new Map<string, number>();
+    let legacySize = 0;
+    for (const record of records) {
+      if (record.blob) blobSizes.set(record.checksum, record.size);
+      else legacySize += record.size;
+      for (const version of record.versions ?? [])
+        blobSizes.set(version.checksum, version.size);
+    }
+    return [...blobSizes.values()].reduce(
+      (sum, size) => sum + size,
+      legacySize,
+    );
+  }
+
   private getFileTypeFromMimeType(mimeType: string): string {
     if (mimeType.startsWith('image/')) return 'Images';
     if (mimeType.startsWith('video/')) return 'Videos';
     if (mimeType.startsWith('audio/')) return 'Audio';
     if (mimeType.startsWith('text/')) return 'Text';
     if (mimeType.includes('pdf')) return 'PDF';
-    if (mimeType.includes('word') || mimeType.includes('document')) return 'Documents';
-    if (mimeType.includes('excel') || mimeType.includes('spreadsheet')) return 'Spreadsheets';
-    if (mimeType.includes('powerpoint') || mimeType.includes('presentation')) return 'Presentations';
-    if (mimeType.includes('zip') || mimeType.includes('rar') || mimeType.includes('archive')) return 'Archives';
+    if (mimeType.includes('word') || mimeType.includes('document'))
+      return 'Documents';
+    if (mimeType.includes('excel') || mimeType.includes('spreadsheet'))
+      return 'Spreadsheets';
+    if (mimeType.includes('powerpoint') || mimeType.includes('presentation'))
+      return 'Presentations';
+    if (
+      mimeType.includes('zip') ||
+      mimeType.includes('rar') ||
+      mimeType.includes('archive')
+    )
+      return 'Archives';
     return 'Other';
   }
 }
-
-
@@ -0,0 +1,69 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import type { RestoreTrashedFileDto } from '../dtos/RestoreTrashedFileDto';
+import { StorageService } from './storage.service';
+import { TrashService } from './trash.service';
+import { ScopeGuard } from '../keys/scope.guard';
+import { RequireScope } from '../keys/require-scope.decorator';
+import { AuditGuard, AuditResultInterceptor } from '../audit/audit.guard';
+import { Audit } from '../audit/audit.decorator';
+import { storageTarget } from '../audit/audit-targets';
+
+@Controller('storage/trash')
+@UseGuards(AuditGuard, ScopeGuard)
+@UseInterceptors(AuditResultInterceptor)
+export class TrashController {
+  constructor(
+    private readonly trashService: TrashService,
+    private readonly storageService: StorageService,
+  ) {}
+
+  @Get()
+  @Audit('trash.list')
+  @RequireScope('list')
+  async list(@Req() req: Request) {
+    if (!req.clientKey) throw new BadRequestException('Missing client key');
+    return this.trashService.list(req.clientKey);
+  }
+
+  @Post(':id/restore')
+  @Audit('trash.restore', storageTarget)
+  @RequireScope('write')
+  async restore(
+    @Param('id') id: string,
+    @Body() dto: RestoreTrashedFileDto | undefined,
+    @Req() req: Request,
+  ) {
+    if (!req.clientKey) throw new BadRequestException('Missing client key');
+    return this.storageService.restoreFromTrash(req.clientKey, id, dto?.to);
+  }
+
+  // Permanently deletes one file
+  @Delete(':id')
+  @Audit('trash.purge', storageTarget)
+  @RequireScope('delete')
+  async purge(@Param('id') id: string, @Req() req: Request) {
+    if (!req.clientKey) throw new BadRequestException('Missing client key');
+    const entry = await this.trashService.purge(req.clientKey, id);
+    return { success: true, path: entry.record.path };
+  }
+
+  @Delete()
+  @Audit('trash.empty')
+  @RequireScope('delete')
+  async empty(@Req() req: Request) {
+    if (!req.clientKey) throw new BadRequestException('Missing client key');
+    return { purged: await this.trashService.empty(req.clientKey) };
+  }
+}
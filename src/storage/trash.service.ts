@@ -0,0 +1,124 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TrashActor, TrashedFile } from '../entities/TrashedFile';
+import { FileIndexService } from './file-index.service';
+import { StorageService } from './storage.service';
+
+const GC_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface TrashItem {
+  // Trash entry id, to restore or purge the file
+  id: string;
+  fileId: string;
+  // Where the file was when it was deleted
+  path: string;
+  originalName: string;
+  size: number;
+  mimeType: string;
+  createById: string | null;
+  isPrivate: boolean;
+  uploadedAt: Date;
+  deletedAt: Date;
+  deletedBy: TrashActor | null;
+  // When the retention job purges it
+  purgeAt: Date;
+}
+
+/**
+ * Client-facing view of the trash, and the job that purges files kept longer
+ * than TRASH_RETENTION seconds.
+ */
+@Injectable()
+export class TrashService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(TrashService.name);
+  private readonly retentionMs: number;
+  private gcTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+    private readonly fileIndex: FileIndexService,
+  ) {
+    this.retentionMs =
+      Number(this.configService.get<string>('TRASH_RETENTION') || 2592000) *
+      1000;
+  }
+
+  onModuleInit() {
+    this.gcTimer = setInterval(() => {
+      this.collectGarbage().catch((err: Error) =>
+        this.logger.error(`Trash cleanup failed: ${err.message}`),
+      );
+    }, GC_INTERVAL_MS);
+    this.gcTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.gcTimer) clearInterval(this.gcTimer);
+  }
+
+  private toItem(entry: TrashedFile): TrashItem {
+    const { record } = entry;
+    return {
+      id: entry.id,
+      fileId: record.id,
+      path: record.path,
+      originalName: record.originalName,
+      size: record.size,
+      mimeType: record.mimeType,
+      createById: record.createById ?? null,
+      isPrivate: !!record.isPrivate,
+      uploadedAt: new Date(record.createdAt),
+      deletedAt: new Date(entry.deletedAt),
+      deletedBy: entry.deletedBy,
+      purgeAt: new Date(new Date(entry.deletedAt).getTime() + this.retentionMs),
+    };
+  }
+
+  /** Most recently deleted first. */
+  async list(clientKey: string): Promise<TrashItem[]> {
+    const entries = await this.storageService.listTrash(clientKey);
+    return entries
+      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+      .map((entry) => this.toItem(entry));
+  }
+
+  async purge(clientKey: string, id: string): Promise<TrashedFile> {
+    const entry = (await this.storageService.listTrash(clientKey)).find(
+      (other) => other.id === id,
+    );
+    const purged =
+      entry &&
+      (await this.storageService.purgeTrash(
+        clientKey,
+        (other) => other.id === id,
+      ));
+    if (!entry || !purged) {
+      throw new NotFoundException('Trashed file not found');
+    }
+    return entry;
+  }
+
+  async empty(clientKey: string): Promise<number> {
+    return this.storageService.purgeTrash(clientKey);
+  }
+
+  /** Purges the files of every client that outlived the retention period. */
+  async collectGarbage(): Promise<number> {
+    const cutoff = Date.now() - this.retentionMs;
+    let purged = 0;
+    for (const clientKey of await this.fileIndex.listClients()) {
+      purged += await this.storageService.purgeTrash(
+        clientKey,
+        (entry) => new Date(entry.deletedAt).getTime() < cutoff,
+      );
+    }
+    return purged;
+  }
+}
@@ -0,0 +1,212 @@
+import {
+  BadRequestException,
+  Controller,
+  Delete,
+  Get,
+  Head,
+  HttpCode,
+  Options,
+  Param,
+  Patch,
+  Post,
+  PreconditionFailedException,
+  Req,
+  Res,
+  UseGuards,
+  UseInterceptors,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { UploadSession } from '../entities/UploadSession';
+import { StorageService } from './storage.service';
+import { UploadSessionService } from './upload-session.service';
+import { ScopeGuard } from '../keys/scope.guard';
+import { NoScope, RequireScope } from '../keys/require-scope.decorator';
+import { AuditGuard, AuditResultInterceptor } from '../audit/audit.guard';
+import { Audit } from '../audit/audit.decorator';
+import { uploadSessionTarget } from '../audit/audit-targets';
+
+const TUS_VERSION = '1.0.0';
+
+// Resumable uploads following the tus 1.0.0 protocol (creation, expiration and termination extensions)
+@Controller('storage/uploads')
+@UseGuards(AuditGuard, ScopeGuard)
+@UseInterceptors(AuditResultInterceptor)
+export class UploadSessionController {
+  constructor(
+    private readonly uploadSessionService: UploadSessionService,
+    private readonly storageService: StorageService,
+  ) {}
+
+  private getClientKey(req: Request): string {
+    if (!req.clientKey) throw new BadRequestException('Missing client key');
+    return req.clientKey;
+  }
+
+  private setTusHeaders(req: Request, res: Response) {
+    res.setHeader('Tus-Resumable', TUS_VERSION);
+    const requested = req.headers['tus-resumable'];
+    if (requested && requested !== TUS_VERSION) {
+      res.setHeader('Tus-Version', TUS_VERSION);
+      throw new PreconditionFailedException(
+        `Unsupported tus version ${String(requested)}`,
+      );
+    }
+  }
+
+  private parseMetadata(header: string | undefined): Record<string, string> {
+    const metadata: Record<string, string> = {};
+    if (!header) return metadata;
+    for (const pair of header.split(',')) {
+      const [key, value] = pair.trim().split(' ');
+      if (!key) continue;
+      metadata[key] = value
+        ? Buffer.from(value, 'base64').toString('utf8')
+        : '';
+    }
+    return metadata;
+  }
+
+  private parseNonNegativeInt(value: string | undefined, header: string) {
+    if (value === undefined || !/^\d+$/.test(value)) {
+      throw new BadRequestException(`Invalid or missing ${header} header`);
+    }
+    return Number(value);
+  }
+
+  private async describe(session: UploadSession) {
+    return {
+      id: session.id,
+      length: session.length,
+      offset: await this.uploadSessionService.getOffset(session),
+      originalName: session.originalName,
+      mimeType: session.mimeType,
+      createById: session.createById ?? null,
+      folder: session.folder ?? null,
+      path: session.path ?? null,
+      createdAt: session.createdAt,
+      expiresAt: session.expiresAt,
+      completedAt: session.completedAt ?? null,
+      file: session.filePath
+        ? await this.storageService.getFileInfo(
+            session.clientKey,
+            session.filePath,
+          )
+        : null,
+    };
+  }
+
+  @Options()
+  @NoScope()
+  @HttpCode(204)
+  options(@Res({ passthrough: true }) res: Response) {
+    res.setHeader('Tus-Resumable', TUS_VERSION);
+    res.setHeader('Tus-Version', TUS_VERSION);
+    res.setHeader('Tus-Extension', 'creation,expiration,termination');
+    if (this.uploadSessionService.maxSize !== undefined) {
+      res.setHeader('Tus-Max-Size', String(this.uploadSessionService.maxSize));
+    }
+  }
+
+  @Post()
+  @Audit('file.upload_start', uploadSessionTarget)
+  @RequireScope('write')
+  @HttpCode(201)
+  async create(@Req() req: Request, @Res({ passthrough: true }) res: Response) {
+    this.setTusHeaders(req, res);
+    const clientKey = this.getClientKey(req);
+    const length = this.parseNonNegativeInt(
+      req.headers['upload-length'] as string | undefined,
+      'Upload-Length',
+    );
+    const session = await this.uploadSessionService.create(clientKey, {
+      length,
+      metadata: this.parseMetadata(
+        req.headers['upload-metadata'] as string | undefined,
+      ),
+    });
+    res.setHeader('Location', `/storage/uploads/${session.id}`);
+    res.setHeader('Upload-Expires', new Date(session.expiresAt).toUTCString());
+    return this.describe(session);
+  }
+
+  @Head(':id')
+  @RequireScope('write')
+  async head(
+    @Param('id') id: string,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    this.setTusHeaders(req, res);
+    const session = await this.uploadSessionService.get(
+      this.getClientKey(req),
+      id,
+    );
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader(
+      'Upload-Offset',
+      String(await this.uploadSessionService.getOffset(session)),
+    );
+    res.setHeader('Upload-Length', String(session.length));
+    res.setHeader('Upload-Expires', new Date(session.expiresAt).toUTCString());
+  }
+
+  @Patch(':id')
+  // The chunk that completes the upload is recorded with the stored file's path
+  @Audit('file.upload_chunk', uploadSessionTarget)
+  @RequireScope('write')
+  @HttpCode(204)
+  async patch(
+    @Param('id') id: string,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    this.setTusHeaders(req, res);
+    const clientKey = this.getClientKey(req);
+    if (req.headers['content-type'] !== 'application/offset+octet-stream') {
+      throw new UnsupportedMediaTypeException(
+        'Content-Type must be application/offset+octet-stream',
+      );
+    }
+    const offset = this.parseNonNegativeInt(
+      req.headers['upload-offset'] as string | undefined,
+      'Upload-Offset',
+    );
+    const result = await this.uploadSessionService.append(
+      clientKey,
+      id,
+      offset,
+      req,
+    );
+    // Nothing is returned (204) for AuditResultInterceptor
+    req.auditResult = result.session;
+    res.setHeader('Upload-Offset', String(result.offset));
+    res.setHeader(
+      'Upload-Expires',
+      new Date(result.session.expiresAt).toUTCString(),
+    );
+  }
+
+  @Get(':id')
+  @RequireScope('write')
+  async get(@Param('id') id: string, @Req() req: Request) {
+    const session = await this.uploadSessionService.get(
+      this.getClientKey(req),
+      id,
+    );
+    return this.describe(session);
+  }
+
+  @Delete(':id')
+  @Audit('file.upload_cancel', uploadSessionTarget)
+  @RequireScope('write')
+  @HttpCode(204)
+  async terminate(
+    @Param('id') id: string,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    this.setTusHeaders(req, res);
+    await this.uploadSessionService.terminate(this.getClientKey(req), id);
+  }
+}
@@ -0,0 +1,63 @@
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { StorageService } from './storage.service';
+import { UploadSessionService } from './upload-session.service';
+
+describe('UploadSessionService', () => {
+  let root: string;
+  let saveFile: jest.Mock;
+  let service: UploadSessionService;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'upload-sessions-'));
+    saveFile = jest.fn().mockResolvedValue({ path: 'docs/a.txt' });
+    service = new UploadSessionService(
+      new ConfigService({ STORAGE_ROOT: root }),
+      {
+        normalizeSaveOptions: jest.fn(),
+        checkUploadPolicy: jest.fn().mockResolvedValue(undefined),
+        saveFile,
+      } as unknown as StorageService,
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('completes empty uploads when they are created', async () => {
+    const session = await service.create('ns', {
+      length: 0,
+      metadata: { filename: 'a.txt' },
+    });
+    expect(session.completedAt).not.toBeNull();
+    expect(session.filePath).toBe('docs/a.txt');
+    expect(saveFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses chunks while another worker writes the session', async () => {
+    const { id } = await service.create('ns', {
+      length: 4,
+      metadata: { filename: 'a.txt' },
+    });
+    const lock = path.join(root, 'ns', '.uploads', `${id}.lock`);
+    await fs.writeFile(lock, '1');
+    await expect(
+      service.append('ns', id, 0, Readable.from([Buffer.from('data')])),
+    ).rejects.toBeInstanceOf(ConflictException);
+
+    await fs.rm(lock);
+    const result = await service.append(
+      'ns',
+      id,
+      0,
+      Readable.from([Buffer.from('data')]),
+    );
+    expect(result.offset).toBe(4);
+    expect(result.session.completedAt).not.toBeNull();
+  });
+});
@@ -0,0 +1,328 @@
+import {
+  ConflictException,
+  GoneException,
+  HttpException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { createWriteStream, promises as fs } from 'fs';
+import * as path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import * as mime from 'mime-types';
+import { UploadSession } from '../entities/UploadSession';
+import { tryWithFileLock, writeFileAtomic } from '../common/utils/file-lock';
+import { StorageService } from './storage.service';
+
+const GC_INTERVAL_MS = 15 * 60 * 1000;
+
+export interface CreateUploadSessionOptions {
+  length: number;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Resumable uploads: chunks are appended to `<STORAGE_ROOT>/<clientKey>/.uploads/<id>`
+ * and the file is promoted through StorageService once all bytes have arrived.
+ * The current offset is always the size of the data file on disk, so a dropped
+ * connection keeps whatever was written before it. A session is written by one
+ * request at a time across workers, through a lock file next to its data.
+ *
+ * Staged bytes are not encrypted, even for clients with encryption at rest:
+ * they must be scanned, sniffed and hashed as a whole before they are stored.
+ * They are readable by the service's user only and removed once the upload
+ * completes, is terminated or expires.
+ */
+@Injectable()
+export class UploadSessionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(UploadSessionService.name);
+  private readonly storageRoot: string;
+  private readonly ttlMs: number;
+  readonly maxSize?: number;
+  private gcTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+  ) {
+    const storageRoot =
+      this.configService.get<string>('STORAGE_ROOT') || 'storage';
+    this.storageRoot = path.resolve(process.cwd(), storageRoot);
+    this.ttlMs =
+      Number(this.configService.get<string>('UPLOAD_SESSION_TTL') || 86400) *
+      1000;
+    const maxSize = this.configService.get<string>('UPLOAD_MAX_SIZE');
+    this.maxSize = maxSize ? Number(maxSize) : undefined;
+  }
+
+  onModuleInit() {
+    this.gcTimer = setInterval(() => {
+      this.collectGarbage().catch((err: Error) =>
+        this.logger.error(`Upload session cleanup failed: ${err.message}`),
+      );
+    }, GC_INTERVAL_MS);
+    this.gcTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.gcTimer) clearInterval(this.gcTimer);
+  }
+
+  private sessionDir(clientKey: string): string {
+    const clientDir = path.resolve(this.storageRoot, clientKey);
+    if (path.dirname(clientDir) !== this.storageRoot) {
+      throw new NotFoundException('Upload not found');
+    }
+    return path.join(clientDir, '.uploads');
+  }
+
+  private sessionFiles(clientKey: string, id: string) {
+    if (!/^[0-9a-f-]{36}$/.test(id)) {
+      throw new NotFoundException('Upload not found');
+    }
+    const dir = this.sessionDir(clientKey);
+    return {
+      info: path.join(dir, `${id}.json`),
+      data: path.join(dir, id),
+      lock: path.join(dir, `${id}.lock`),
+    };
+  }
+
+  private async writeSession(session: UploadSession): Promise<void> {
+    const { info } = this.sessionFiles(session.clientKey, session.id);
+    await writeFileAtomic(info, JSON.stringify(session, null, 2), {
+      mode: 0o600,
+    });
+  }
+
+  // Runs `task` unless another request, in any worker, is writing the session
+  private async exclusive<T>(
+    clientKey: string,
+    id: string,
+    task: () => Promise<T>,
+  ): Promise<T> {
+    const { lock } = this.sessionFiles(clientKey, id);
+    let ran = false;
+    const result = await tryWithFileLock(lock, () => {
+      ran = true;
+      return task();
+    });
+    if (!ran) {
+      throw new ConflictException('Upload is being written by another request');
+    }
+    return result as T;
+  }
+
+  async create(
+    clientKey: string,
+    options: CreateUploadSessionOptions,
+  ): Promise<UploadSession> {
+    if (this.maxSize !== undefined && options.length > this.maxSize) {
+      throw new PayloadTooLargeException(
+        `Upload exceeds the maximum size of ${this.maxSize} bytes`,
+      );
+    }
+    const originalName = path.basename(
+      options.metadata.filename || options.metadata.name || 'upload',
+    );
+    const now = new Date();
+    const session: UploadSession = {
+      id: randomUUID(),
+      clientKey,
+      length: options.length,
+      originalName,
+      mimeType:
+        options.metadata.filetype ||
+        options.metadata.type ||
+        mime.lookup(originalName) ||
+        'application/octet-stream',
+      createById: options.metadata.createById || null,
+      folder: options.metadata.folder || null,
+      path: options.metadata.path || null,
+      isPrivate: ['1', 'true'].includes(options.metadata.private),
+      metadata: options.metadata,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.ttlMs).toISOString(),
+      completedAt: null,
+      filePath: null,
+    };
+    // Fail before any bytes are sent; the checks run again when the upload completes
+    this.storageService.normalizeSaveOptions({
+      createById: session.createById ?? undefined,
+      folder: session.folder ?? undefined,
+      path: session.path ?? undefined,
+    });
+    await this.storageService.checkUploadPolicy(clientKey, {
+      originalName: session.originalName,
+      mimeType: session.mimeType,
+      size: session.length,
+      createById: session.createById ?? undefined,
+    });
+    const { data } = this.sessionFiles(clientKey, session.id);
+    await fs.mkdir(path.dirname(data), { recursive: true, mode: 0o700 });
+    await fs.writeFile(data, Buffer.alloc(0), { mode: 0o600 });
+    await this.writeSession(session);
+    // No PATCH will ever come for an empty upload
+    if (session.length === 0) return this.complete(session);
+    return session;
+  }
+
+  async get(clientKey: string, id: string): Promise<UploadSession> {
+    const { info } = this.sessionFiles(clientKey, id);
+    let session: UploadSession;
+    try {
+      session = JSON.parse(await fs.readFile(info, 'utf8')) as UploadSession;
+    } catch {
+      throw new NotFoundException('Upload not found');
+    }
+    if (new Date(session.expiresAt).getTime() < Date.now()) {
+      throw new GoneException('Upload has expired');
+    }
+    return session;
+  }
+
+  async getOffset(session: UploadSession): Promise<number> {
+    if (session.completedAt) return session.length;
+    const { data } = this.sessionFiles(session.clientKey, session.id);
+    try {
+      return (await fs.stat(data)).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Appends a chunk at `offset`, which must equal the current offset. Completes
+   * the upload when the announced length has been reached.
+   */
+  async append(
+    clientKey: string,
+    id: string,
+    offset: number,
+    body: Readable,
+  ): Promise<{ session: UploadSession; offset: number }> {
+    await this.get(clientKey, id);
+    return this.exclusive(clientKey, id, async () => {
+      // Read again under the lock: another worker may have completed it meanwhile
+      let session = await this.get(clientKey, id);
+      if (session.completedAt) {
+        throw new ConflictException('Upload is already completed');
+      }
+      const current = await this.getOffset(session);
+      if (offset !== current) {
+        throw new ConflictException(
+          `Upload-Offset mismatch: expected ${current}`,
+        );
+      }
+      const remaining = session.length - current;
+      let received = 0;
+      const limiter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          received += chunk.length;
+          if (received > remaining) {
+            callback(
+              new PayloadTooLargeException('Chunk exceeds Upload-Length'),
+            );
+            return;
+          }
+          callback(null, chunk);
+        },
+      });
+      const { data } = this.sessionFiles(clientKey, id);
+      try {
+        await pipeline(body, limiter, createWriteStream(data, { flags: 'a' }));
+      } catch (err) {
+        // A dropped connection keeps the bytes received so far
+        if (err instanceof HttpException) throw err;
+      }
+
+      const newOffset = await this.getOffset(session);
+      session.expiresAt = new Date(Date.now() + this.ttlMs).toISOString();
+      if (newOffset === session.length) {
+        session = await this.complete(session);
+      } else {
+        await this.writeSession(session);
+      }
+      return { session, offset: newOffset };
+    });
+  }
+
+  private async complete(session: UploadSession): Promise<UploadSession> {
+    const { data } = this.sessionFiles(session.clientKey, session.id);
+    const stored = await this.storageService.saveFile(
+      session.clientKey,
+      session.originalName,
+      data,
+      session.mimeType,
+      {
+        createById: session.createById ?? undefined,
+        folder: session.folder ?? undefined,
+        path: session.path ?? undefined,
+        isPrivate: session.isPrivate,
+      },
+    );
+    session.completedAt = new Date().toISOString();
+    session.filePath = stored.path;
+    // Keep the session until it expires so clients can still HEAD it
+    await this.writeSession(session);
+    return session;
+  }
+
+  async terminate(clientKey: string, id: string): Promise<void> {
+    await this.get(clientKey, id);
+    const { info, data } = this.sessionFiles(clientKey, id);
+    await this.exclusive(clientKey, id, async () => {
+      await fs.rm(data, { force: true });
+      await fs.rm(info, { force: true });
+    });
+  }
+
+  /** Removes expired sessions of every client. Returns how many were removed. */
+  async collectGarbage(): Promise<number> {
+    let removed = 0;
+    let clientKeys: string[];
+    try {
+      clientKeys = await fs.readdir(this.storageRoot);
+    } catch {
+      return 0;
+    }
+    const now = Date.now();
+    for (const clientKey of clientKeys) {
+      const dir = path.join(this.storageRoot, clientKey, '.uploads');
+      let entries: string[];
+      try {
+        entries = await fs.readdir(dir);
+      } catch {
+        continue;
+      }
+      for (const entry of entries) {
+        if (!entry.endsWith('.json')) continue;
+        const id = entry.slice(0, -'.json'.length);
+        // Sessions being written are left alone
+        const expired = await tryWithFileLock(
+          path.join(dir, `${id}.lock`),
+          async () => {
+            try {
+              const raw = await fs.readFile(path.join(dir, entry), 'utf8');
+              const session = JSON.parse(raw) as UploadSession;
+              if (new Date(session.expiresAt).getTime() >= now) return false;
+            } catch {
+              // Unreadable session metadata is garbage too
+            }
+            await fs.rm(path.join(dir, id), { force: true });
+            await fs.rm(path.join(dir, entry), { force: true });
+            return true;
+          },
+        );
+        if (expired) removed++;
+      }
+    }
+    return removed;
+  }
+}
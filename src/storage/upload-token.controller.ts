@@ -0,0 +1,65 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Post,
+  Req,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import type { Request } from 'express';
+import * as path from 'path';
+import type { CreateUploadTokenDto } from '../dtos/CreateUploadTokenDto';
+import { UploadTokenService } from './upload-token.service';
+import { UploadTokenGuard } from './upload-token.guard';
+import { ScopeGuard } from '../keys/scope.guard';
+import { RequireScope } from '../keys/require-scope.decorator';
+import { AuditGuard, AuditResultInterceptor } from '../audit/audit.guard';
+import { Audit } from '../audit/audit.decorator';
+import { storageTarget } from '../audit/audit-targets';
+
+interface UploadedFileType {
+  originalname: string;
+  buffer: Buffer;
+  mimetype: string;
+}
+
+@Controller('storage')
+@UseInterceptors(AuditResultInterceptor)
+export class UploadTokenController {
+  constructor(private readonly uploadTokenService: UploadTokenService) {}
+
+  // Called by the app's backend; the browser only ever gets the token
+  @Post('upload-tokens')
+  @Audit('upload_token.create', storageTarget)
+  @UseGuards(AuditGuard, ScopeGuard)
+  @RequireScope('write')
+  async create(@Body() dto: CreateUploadTokenDto, @Req() req: Request) {
+    if (!req.clientRecord || !req.clientCredential) {
+      throw new BadRequestException('Missing client key');
+    }
+    return this.uploadTokenService.create(
+      req.clientRecord,
+      req.clientCredential,
+      dto,
+    );
+  }
+
+  // Reachable without a client key: the signed token is the credential
+  @Post('direct-upload/:token')
+  @Audit('file.upload', storageTarget)
+  @UseGuards(AuditGuard, UploadTokenGuard, ScopeGuard)
+  @RequireScope('write')
+  @UseInterceptors(FileInterceptor('file'))
+  async upload(@UploadedFile() file: UploadedFileType, @Req() req: Request) {
+    if (!req.uploadToken) throw new BadRequestException('Missing upload token');
+    if (!file) throw new BadRequestException('No file uploaded');
+    return this.uploadTokenService.upload(req.uploadToken, {
+      originalName: path.basename(file.originalname),
+      buffer: file.buffer,
+      mimeType: file.mimetype,
+    });
+  }
+}
@@ -0,0 +1,66 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { UsageService } from '../usage/usage.service';
+import {
+  ResolvedUploadToken,
+  UploadTokenService,
+} from './upload-token.service';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    uploadToken?: ResolvedUploadToken;
+  }
+}
+
+// Room for the multipart boundaries and headers around the file
+const MULTIPART_OVERHEAD = 64 * 1024;
+
+/**
+ * Authenticates direct uploads by their token in place of
+ * ClientResolverMiddleware, before the body is read: the request then counts
+ * as one of the client's own (scopes, audit, rate limits and metering).
+ */
+@Injectable()
+export class UploadTokenGuard implements CanActivate {
+  constructor(
+    private readonly uploadTokenService: UploadTokenService,
+    private readonly usageService: UsageService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const req = context.switchToHttp().getRequest<Request>();
+    const res = context.switchToHttp().getResponse<Response>();
+    const token = req.params.token;
+    const resolved = await this.uploadTokenService.resolve(
+      typeof token === 'string' ? token : '',
+    );
+    const { client, credential, payload } = resolved;
+    if (credential.allowedOrigins) {
+      const origin = req.get('origin');
+      if (!origin || !credential.allowedOrigins.includes(origin)) {
+        throw new ForbiddenException(
+          'This upload token may not be used from this origin',
+        );
+      }
+    }
+    req.clientKey = client.namespace;
+    req.clientRecord = client;
+    req.clientCredential = credential;
+    req.uploadToken = resolved;
+    await this.usageService.admit(req, res, client);
+    // Saves buffering a body that is bound to be rejected
+    const length = Number(req.get('content-length'));
+    if (payload.m !== undefined && length > payload.m + MULTIPART_OVERHEAD) {
+      throw new PayloadTooLargeException(
+        `File exceeds the maximum size of ${payload.m} bytes`,
+      );
+    }
+    return true;
+  }
+}
@@ -0,0 +1,211 @@
+import {
+  BadRequestException,
+  GoneException,
+  Logger,
+  PayloadTooLargeException,
+  UnprocessableEntityException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { ClientCredential } from '../entities/ClientCredential';
+import { ClientKeyRecord } from '../entities/ClientKeyRecord';
+import { ClientKeyService } from '../keys/client-key.service';
+import { StorageService } from './storage.service';
+import { DirectUpload, UploadTokenService } from './upload-token.service';
+import { UrlSignerService } from './url-signer.service';
+
+const credential = { id: 1, scopes: ['write'] } as ClientCredential;
+const client = {
+  id: 2,
+  namespace: 'ns',
+  isActive: true,
+  credentials: [credential],
+} as ClientKeyRecord;
+
+const text = (content = 'hello'): DirectUpload => ({
+  originalName: 'a.txt',
+  buffer: Buffer.from(content),
+  mimeType: 'text/plain',
+});
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe('UploadTokenService', () => {
+  let dir: string;
+  let saveBuffer: jest.Mock;
+  let signer: UrlSignerService;
+  let service: UploadTokenService;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'upload-tokens-'));
+    saveBuffer = jest.fn().mockResolvedValue({ path: 'a.txt' });
+    const configService = new ConfigService({
+      METADATA_ROOT: dir,
+      URL_SIGNING_SECRET: 'x'.repeat(32),
+    });
+    signer = new UrlSignerService(configService);
+    service = new UploadTokenService(
+      configService,
+      {
+        normalizeSaveOptions: (options: object) => options,
+        saveBuffer,
+      } as unknown as StorageService,
+      {
+        findById: () => Promise.resolve(client),
+      } as unknown as ClientKeyService,
+      signer,
+    );
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const mint = async (dto: Parameters<UploadTokenService['create']>[2]) =>
+    service.resolve((await service.create(client, credential, dto)).token);
+
+  it('spends a single-use token only once the upload is stored', async () => {
+    const token = await mint({ singleUse: true });
+    saveBuffer.mockRejectedValueOnce(
+      new UnprocessableEntityException('Upload was rejected by a scanner'),
+    );
+    await expect(service.upload(token, text())).rejects.toBeInstanceOf(
+      UnprocessableEntityException,
+    );
+
+    await expect(service.upload(token, text())).resolves.toEqual({
+      path: 'a.txt',
+    });
+    await expect(service.upload(token, text())).rejects.toBeInstanceOf(
+      GoneException,
+    );
+    expect(saveBuffer).toHaveBeenCalledTimes(2);
+  });
+
+  it('refuses callbacks to internal addresses', async () => {
+    for (const callbackUrl of [
+      'http://169.254.169.254/latest/meta-data',
+      'http://127.0.0.1:8080/hook',
+      'http://10.0.0.5/hook',
+      'http://localhost/hook',
+    ]) {
+      await expect(
+        service.create(client, credential, { callbackUrl }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    }
+  });
+
+  it('stores uploads where and as whom the token says', async () => {
+    const token = await mint({
+      folder: 'docs',
+      createById: 'user-1',
+      private: true,
+    });
+    await service.upload(token, text());
+    expect(saveBuffer).toHaveBeenCalledWith(
+      'ns',
+      'a.txt',
+      Buffer.from('hello'),
+      'text/plain',
+      { folder: 'docs', createById: 'user-1', isPrivate: true },
+    );
+  });
+
+  it('refuses files larger than the token allows', async () => {
+    const token = await mint({ maxSize: 3 });
+    await expect(service.upload(token, text('hello'))).rejects.toBeInstanceOf(
+      PayloadTooLargeException,
+    );
+    await service.upload(token, text('hey'));
+    expect(saveBuffer).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks both the declared and the sniffed content type', async () => {
+    const token = await mint({ allowedMimeTypes: ['image/*'] });
+    await expect(service.upload(token, text())).rejects.toBeInstanceOf(
+      UnsupportedMediaTypeException,
+    );
+    // Declared as an image, but the content is a PDF
+    await expect(
+      service.upload(token, {
+        originalName: 'a.png',
+        buffer: Buffer.from('%PDF-1.4'),
+        mimeType: 'image/png',
+      }),
+    ).rejects.toBeInstanceOf(UnsupportedMediaTypeException);
+    await service.upload(token, {
+      originalName: 'a.png',
+      buffer: PNG,
+      mimeType: 'image/png',
+    });
+    expect(saveBuffer).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses expired tokens and lifetimes beyond the maximum', async () => {
+    const { token } = await service.create(client, credential, {
+      expiresIn: 60,
+    });
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 61 * 1000);
+    await expect(service.resolve(token)).rejects.toBeInstanceOf(GoneException);
+    await expect(
+      service.create(client, credential, { expiresIn: 86401 }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('lets only one of concurrent uploads use a single-use token', async () => {
+    const token = await mint({ singleUse: true });
+    const results = await Promise.allSettled([
+      service.upload(token, text()),
+      service.upload(token, text()),
+    ]);
+    expect(results.map((result) => result.status).sort()).toEqual([
+      'fulfilled',
+      'rejected',
+    ]);
+    expect(
+      results.find((result) => result.status === 'rejected')?.reason,
+    ).toBeInstanceOf(GoneException);
+    expect(saveBuffer).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the upload when its callback cannot be sent', async () => {
+    const received = jest.fn();
+    const server = createServer((req, res) => {
+      received();
+      res.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const warn = jest
+      .spyOn(Logger.prototype, 'warn')
+      .mockImplementation(() => undefined);
+    try {
+      // Minted while the address was public; it resolves to loopback now
+      const token = await service.resolve(
+        await signer.sign({
+          typ: 'up',
+          i: '00000000-0000-4000-8000-000000000000',
+          k: client.id,
+          c: credential.id,
+          e: Math.floor(Date.now() / 1000) + 60,
+          cb: `http://127.0.0.1:${(server.address() as AddressInfo).port}/`,
+        }),
+      );
+      await expect(service.upload(token, text())).resolves.toEqual({
+        path: 'a.txt',
+      });
+      while (!warn.mock.calls.length)
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(String(warn.mock.calls[0][0])).toContain('non-public address');
+      expect(received).not.toHaveBeenCalled();
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,376 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  GoneException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  ClientKeyService,
+  isCredentialExpired,
+} from '../keys/client-key.service';
+import { ClientKeyRecord } from '../entities/ClientKeyRecord';
+import { ClientCredential } from '../entities/ClientCredential';
+import { UploadTokenPayload } from '../entities/UploadTokenPayload';
+import type { CreateUploadTokenDto } from '../dtos/CreateUploadTokenDto';
+import { MIME_PATTERN, mimeTypeAllowed } from '../common/utils/client-policy';
+import { signWebhookPayload } from '../common/utils/webhook-signature';
+import { assertPublicUrl } from '../common/utils/public-address';
+import { sniffMimeType, SNIFF_BYTES } from '../common/utils/mime-sniffer';
+import { StorageService, StoredFile } from './storage.service';
+import { UrlSignerService } from './url-signer.service';
+
+const DEFAULT_TTL_SECONDS = 15 * 60;
+const GC_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface UploadToken {
+  id: string;
+  url: string;
+  token: string;
+  expiresAt: Date;
+  singleUse: boolean;
+  // Verifies the X-Webhook-Signature of the callback; only with a callbackUrl
+  callbackSecret?: string;
+}
+
+export interface ResolvedUploadToken {
+  client: ClientKeyRecord;
+  credential: ClientCredential;
+  payload: UploadTokenPayload;
+}
+
+export interface DirectUpload {
+  originalName: string;
+  buffer: Buffer;
+  mimeType: string;
+}
+
+/**
+ * Signed, expiring tokens that let a browser upload one file (or several,
+ * until expiry) straight to storage without ever seeing a client key. The
+ * backend mints them with the constraints of the upload: folder, createById,
+ * size and content types. Like share links they are stateless except for
+ * single-use ones, whose id is recorded under
+ * `<METADATA_ROOT>/<clientKey>/used-upload-tokens/` once consumed.
+ */
+@Injectable()
+export class UploadTokenService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(UploadTokenService.name);
+  private readonly metadataRoot: string;
+  private readonly maxTtlSeconds: number;
+  private readonly callbackTimeoutMs: number;
+  private gcTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+    private readonly clientKeyService: ClientKeyService,
+    private readonly urlSigner: UrlSignerService,
+  ) {
+    const metadataRoot =
+      this.configService.get<string>('METADATA_ROOT') || 'storage-meta';
+    this.metadataRoot = path.resolve(process.cwd(), metadataRoot);
+    this.maxTtlSeconds = Number(
+      this.configService.get<string>('UPLOAD_TOKEN_MAX_TTL') || 86400,
+    );
+    this.callbackTimeoutMs =
+      Number(this.configService.get<string>('WEBHOOK_TIMEOUT') || 10) * 1000;
+  }
+
+  onModuleInit() {
+    this.gcTimer = setInterval(() => {
+      this.collectGarbage().catch((err: Error) =>
+        this.logger.error(`Upload token cleanup failed: ${err.message}`),
+      );
+    }, GC_INTERVAL_MS);
+    this.gcTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.gcTimer) clearInterval(this.gcTimer);
+  }
+
+  async create(
+    client: ClientKeyRecord,
+    credential: ClientCredential,
+    dto: CreateUploadTokenDto = {},
+  ): Promise<UploadToken> {
+    const expiresIn = dto.expiresIn ?? DEFAULT_TTL_SECONDS;
+    if (
+      !Number.isInteger(expiresIn) ||
+      expiresIn <= 0 ||
+      expiresIn > this.maxTtlSeconds
+    ) {
+      throw new BadRequestException(
+        `expiresIn must be an integer between 1 and ${this.maxTtlSeconds} seconds`,
+      );
+    }
+    if (
+      dto.maxSize !== undefined &&
+      (!Number.isSafeInteger(dto.maxSize) || dto.maxSize <= 0)
+    ) {
+      throw new BadRequestException('maxSize must be a positive integer');
+    }
+    const allowedMimeTypes = this.validateMimeTypes(dto.allowedMimeTypes);
+    const callbackUrl = await this.validateCallbackUrl(dto.callbackUrl);
+    // Rejects bad folders and createById values now rather than at upload time
+    const { folder, createById } = this.storageService.normalizeSaveOptions({
+      folder: dto.folder,
+      createById: dto.createById,
+    });
+
+    const id = randomUUID();
+    const expiresAt = new Date(Date.now() + expiresIn * 1000);
+    const payload: UploadTokenPayload = {
+      typ: 'up',
+      i: id,
+      k: client.id,
+      c: credential.id,
+      e: Math.floor(expiresAt.getTime() / 1000),
+    };
+    if (folder) payload.f = folder;
+    if (createById) payload.u = createById;
+    if (dto.maxSize !== undefined) payload.m = dto.maxSize;
+    if (allowedMimeTypes) payload.t = allowedMimeTypes;
+    if (dto.private) payload.p = 1;
+    if (dto.singleUse) payload.s = 1;
+    if (callbackUrl) payload.cb = callbackUrl;
+
+    const token = await this.urlSigner.sign(payload);
+    return {
+      id,
+      url: `/storage/direct-upload/${token}`,
+      token,
+      expiresAt,
+      singleUse: !!dto.singleUse,
+      callbackSecret: callbackUrl
+        ? await this.urlSigner.deriveSecret(`upload-callback:${id}`)
+        : undefined,
+    };
+  }
+
+  private validateMimeTypes(value: unknown): string[] | undefined {
+    if (value === undefined) return undefined;
+    if (
+      !Array.isArray(value) ||
+      !value.length ||
+      value.some((item) => typeof item !== 'string')
+    ) {
+      throw new BadRequestException(
+        'allowedMimeTypes must be a non-empty array of strings',
+      );
+    }
+    const types = (value as string[]).map((item) => item.trim().toLowerCase());
+    const invalid = types.find((item) => !MIME_PATTERN.test(item));
+    if (invalid !== undefined) {
+      throw new BadRequestException(`allowedMimeTypes contains "${invalid}"`);
+    }
+    return [...new Set(types)];
+  }
+
+  private async validateCallbackUrl(
+    value: unknown,
+  ): Promise<string | undefined> {
+    if (value === undefined) return undefined;
+    let url: URL | undefined;
+    try {
+      url = typeof value === 'string' ? new URL(value) : undefined;
+    } catch {
+      url = undefined;
+    }
+    if (!url || !['http:', 'https:'].includes(url.protocol)) {
+      throw new BadRequestException('callbackUrl must be an http(s) URL');
+    }
+    // Checked again before the callback is sent, as DNS may change meanwhile
+    try {
+      await assertPublicUrl(url);
+    } catch (err) {
+      throw new BadRequestException(
+        `callbackUrl must be a public address: ${(err as Error).message}`,
+      );
+    }
+    return url.toString();
+  }
+
+  /** Checks the token (not its single use, see `upload`) and finds the client it was minted for. */
+  async resolve(token: string): Promise<ResolvedUploadToken> {
+    const payload = await this.urlSigner.verify<UploadTokenPayload>(token);
+    if (
+      !payload ||
+      payload.typ !== 'up' ||
+      typeof payload.i !== 'string' ||
+      typeof payload.k !== 'number' ||
+      typeof payload.c !== 'number' ||
+      typeof payload.e !== 'number'
+    ) {
+      throw new ForbiddenException('Invalid upload token');
+    }
+    if (payload.e * 1000 < Date.now()) {
+      throw new GoneException('Upload token has expired');
+    }
+    // Tokens die with the credential that minted them
+    const client = await this.clientKeyService.findById(payload.k);
+    const credential = client?.credentials.find((x) => x.id === payload.c);
+    if (!client?.isActive || !credential || isCredentialExpired(credential)) {
+      throw new ForbiddenException('Invalid upload token');
+    }
+    return { client, credential, payload };
+  }
+
+  /** Stores a file uploaded with a resolved token, within the token's constraints. */
+  async upload(
+    { client, payload }: ResolvedUploadToken,
+    file: DirectUpload,
+  ): Promise<StoredFile> {
+    if (payload.m !== undefined && file.buffer.length > payload.m) {
+      throw new PayloadTooLargeException(
+        `File exceeds the maximum size of ${payload.m} bytes`,
+      );
+    }
+    if (payload.t) {
+      const types = [
+        file.mimeType,
+        sniffMimeType(file.buffer.subarray(0, SNIFF_BYTES)),
+      ].filter((type): type is string => !!type);
+      const rejected = types.find((type) => !mimeTypeAllowed(type, payload.t!));
+      if (rejected) {
+        throw new UnsupportedMediaTypeException(
+          `Content type "${rejected}" is not allowed; allowed: ${payload.t.join(', ')}`,
+        );
+      }
+    }
+    const clientKey = client.namespace;
+    // Claimed before saving so that concurrent uploads cannot both succeed
+    const used = payload.s
+      ? await this.consumeToken(clientKey, payload.i, payload.e)
+      : undefined;
+    let stored: StoredFile;
+    try {
+      stored = await this.storageService.saveBuffer(
+        clientKey,
+        file.originalName,
+        file.buffer,
+        file.mimeType,
+        {
+          folder: payload.f,
+          createById: payload.u,
+          isPrivate: payload.p === 1,
+        },
+      );
+    } catch (err) {
+      // A rejected or failed upload gives the token back, so the browser can retry
+      if (used) await fs.rm(used, { force: true });
+      throw err;
+    }
+    if (payload.cb) void this.notify(payload, stored);
+    return stored;
+  }
+
+  // Best effort: the file.uploaded webhook is the channel with retries
+  private async notify(
+    payload: UploadTokenPayload,
+    file: StoredFile,
+  ): Promise<void> {
+    const body = JSON.stringify({
+      event: 'upload.completed',
+      tokenId: payload.i,
+      file,
+    });
+    try {
+      const url = new URL(payload.cb!);
+      await assertPublicUrl(url);
+      const secret = await this.urlSigner.deriveSecret(
+        `upload-callback:${payload.i}`,
+      );
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'user-agent': 'codebase-storage-webhooks/1',
+          'x-webhook-event': 'upload.completed',
+          'x-webhook-signature': signWebhookPayload(secret, body),
+        },
+        body,
+        // A redirect could lead to an internal address: it fails the callback
+        redirect: 'error',
+        signal: AbortSignal.timeout(this.callbackTimeoutMs),
+      });
+      await response.body?.cancel();
+      if (!response.ok) {
+        throw new Error(`Responded with HTTP ${response.status}`);
+      }
+    } catch (err) {
+      this.logger.warn(
+        `Upload callback for ${file.path} failed: ${(err as Error).message}`,
+      );
+    }
+  }
+
+  private usedDir(clientKey: string): string {
+    return path.join(this.metadataRoot, clientKey, 'used-upload-tokens');
+  }
+
+  // Returns the file recording the use
+  private async consumeToken(
+    clientKey: string,
+    id: string,
+    expiresAt: number,
+  ): Promise<string> {
+    if (!/^[0-9a-f-]{36}$/.test(id)) {
+      throw new ForbiddenException('Invalid upload token');
+    }
+    const dir = this.usedDir(clientKey);
+    await fs.mkdir(dir, { recursive: true });
+    const file = path.join(dir, id);
+    try {
+      // Exclusive create is atomic across workers: only one upload wins
+      await fs.writeFile(file, String(expiresAt), { flag: 'wx' });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'EEXIST') {
+        throw new GoneException('Upload token has already been used');
+      }
+      throw err;
+    }
+    return file;
+  }
+
+  /** Forgets consumed ids of tokens that have expired anyway. */
+  async collectGarbage(): Promise<number> {
+    let removed = 0;
+    let clientKeys: string[];
+    try {
+      clientKeys = await fs.readdir(this.metadataRoot);
+    } catch {
+      return 0;
+    }
+    const now = Math.floor(Date.now() / 1000);
+    for (const clientKey of clientKeys) {
+      const dir = this.usedDir(clientKey);
+      let ids: string[];
+      try {
+        ids = await fs.readdir(dir);
+      } catch {
+        continue;
+      }
+      for (const id of ids) {
+        const file = path.join(dir, id);
+        const expiresAt = Number(
+          await fs.readFile(file, 'utf8').catch(() => 0),
+        );
+        if (expiresAt < now) {
+          await fs.rm(file, { force: true });
+          removed++;
+        }
+      }
+    }
+    return removed;
+  }
+}
@@ -0,0 +1,40 @@
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { UrlSignerService } from './url-signer.service';
+
+describe('UrlSignerService', () => {
+  let root: string;
+  const createService = () =>
+    new UrlSignerService(new ConfigService({ METADATA_ROOT: root }));
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'url-signer-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('shares one generated key between workers starting together', async () => {
+    const workers = [createService(), createService(), createService()];
+    const tokens = await Promise.all(
+      workers.map((worker) => worker.sign({ a: 1 })),
+    );
+    expect(new Set(tokens).size).toBe(1);
+    await expect(workers[0].verify(tokens[1])).resolves.toEqual({ a: 1 });
+    expect(await fs.readdir(root)).toEqual(['url-signing.key']);
+  });
+
+  it('refuses a short key and reads it again once fixed', async () => {
+    const file = path.join(root, 'url-signing.key');
+    await fs.writeFile(file, '');
+    const service = createService();
+    await expect(service.sign({ a: 1 })).rejects.toThrow('shorter than 32');
+
+    await fs.writeFile(file, 'k'.repeat(64));
+    const token = await service.sign({ a: 1 });
+    await expect(createService().verify(token)).resolves.toEqual({ a: 1 });
+  });
+});
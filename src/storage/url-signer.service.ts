@@ -0,0 +1,95 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+/**
+ * Issues and verifies compact HMAC-SHA256 signed tokens (`<payload>.<signature>`,
+ * both base64url). The key comes from URL_SIGNING_SECRET; when it is not set a
+ * random key is generated once and kept in `<METADATA_ROOT>/url-signing.key` so
+ * that every worker and restart shares it.
+ */
+@Injectable()
+export class UrlSignerService {
+  private readonly metadataRoot: string;
+  private secret?: Promise<Buffer>;
+
+  constructor(private readonly configService: ConfigService) {
+    const metadataRoot =
+      this.configService.get<string>('METADATA_ROOT') || 'storage-meta';
+    this.metadataRoot = path.resolve(process.cwd(), metadataRoot);
+  }
+
+  private getSecret(): Promise<Buffer> {
+    if (!this.secret) {
+      this.secret = this.loadSecret();
+      // Try again on the next call rather than failing forever
+      void this.secret.catch(() => (this.secret = undefined));
+    }
+    return this.secret;
+  }
+
+  private async loadSecret(): Promise<Buffer> {
+    const configured = this.configService.get<string>('URL_SIGNING_SECRET');
+    if (configured) return Buffer.from(configured, 'utf8');
+
+    const file = path.join(this.metadataRoot, 'url-signing.key');
+    await fs.mkdir(this.metadataRoot, { recursive: true });
+    // Written in full under a temporary name, then linked into place: other
+    // workers never see a partial key, and link() fails if one was there first
+    const tmp = `${file}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+    try {
+      await fs.writeFile(tmp, randomBytes(32).toString('hex'), { mode: 0o600 });
+      await fs.link(tmp, file);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+    } finally {
+      await fs.rm(tmp, { force: true });
+    }
+    const secret = Buffer.from(
+      (await fs.readFile(file, 'utf8')).trim(),
+      'utf8',
+    );
+    if (secret.length < 32) {
+      throw new Error(`${file} holds a key shorter than 32 bytes`);
+    }
+    return secret;
+  }
+
+  private async signature(data: string): Promise<Buffer> {
+    return createHmac('sha256', await this.getSecret())
+      .update(data)
+      .digest();
+  }
+
+  async sign(payload: object): Promise<string> {
+    const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    const signature = await this.signature(data);
+    return `${data}.${signature.toString('base64url')}`;
+  }
+
+  /** A secret bound to `context` (e.g. a token id) that only this server can recompute. */
+  async deriveSecret(context: string): Promise<string> {
+    return (await this.signature(`secret:${context}`)).toString('hex');
+  }
+
+  /** Returns the payload, or undefined when the token is malformed or forged. */
+  async verify<T>(token: string): Promise<T | undefined> {
+    const [data, signature, ...rest] = token.split('.');
+    if (!data || !signature || rest.length) return undefined;
+    const expected = await this.signature(data);
+    const actual = Buffer.from(signature, 'base64url');
+    if (
+      actual.length !== expected.length ||
+      !timingSafeEqual(actual, expected)
+    ) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(Buffer.from(data, 'base64url').toString('utf8')) as T;
+    } catch {
+      return undefined;
+    }
+  }
+}
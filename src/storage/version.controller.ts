@@ -0,0 +1,50 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import type { RestoreFileVersionDto } from '../dtos/RestoreFileVersionDto';
+import { StorageService } from './storage.service';
+import { ScopeGuard } from '../keys/scope.guard';
+import { RequireScope } from '../keys/require-scope.decorator';
+import { AuditGuard, AuditResultInterceptor } from '../audit/audit.guard';
+import { Audit } from '../audit/audit.decorator';
+import { storageTarget } from '../audit/audit-targets';
+
+// A version's content is served by GET /storage/file/<path>?versionId=...
+@Controller('storage/versions')
+@UseGuards(AuditGuard, ScopeGuard)
+@UseInterceptors(AuditResultInterceptor)
+export class VersionController {
+  constructor(private readonly storageService: StorageService) {}
+
+  @Post('restore')
+  @Audit('file.version_restore', storageTarget)
+  @RequireScope('write')
+  async restore(@Body() dto: RestoreFileVersionDto, @Req() req: Request) {
+    if (!req.clientKey) throw new BadRequestException('Missing client key');
+    return this.storageService.restoreVersion(
+      req.clientKey,
+      dto?.path,
+      dto?.versionId,
+    );
+  }
+
+  @Get('*path')
+  @Audit('file.versions', storageTarget)
+  @RequireScope('read')
+  async list(@Param('path') path: string | string[], @Req() req: Request) {
+    if (!req.clientKey) throw new BadRequestException('Missing client key');
+    return this.storageService.listVersions(
+      req.clientKey,
+      Array.isArray(path) ? path.join('/') : path,
+    );
+  }
+}
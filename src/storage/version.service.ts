@@ -0,0 +1,47 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { FileIndexService } from './file-index.service';
+import { StorageService } from './storage.service';
+
+const GC_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Enforces the version retention of every client periodically, so versions
+ * past `maxVersionAge` go away even when their file is never uploaded again.
+ */
+@Injectable()
+export class VersionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(VersionService.name);
+  private gcTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly fileIndex: FileIndexService,
+  ) {}
+
+  onModuleInit() {
+    this.gcTimer = setInterval(() => {
+      this.collectGarbage().catch((err: Error) =>
+        this.logger.error(`Version cleanup failed: ${err.message}`),
+      );
+    }, GC_INTERVAL_MS);
+    this.gcTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.gcTimer) clearInterval(this.gcTimer);
+  }
+
+  /** Returns how many versions were deleted. */
+  async collectGarbage(): Promise<number> {
+    let deleted = 0;
+    for (const clientKey of await this.fileIndex.listClients()) {
+      deleted += await this.storageService.pruneVersions(clientKey);
+    }
+    return deleted;
+  }
+}
@@ -0,0 +1,35 @@
+import {
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { UsageService, parseUsageRange } from './usage.service';
+import { ClientKeyService } from '../keys/client-key.service';
+import { AdminGuard } from '../admin/admin.guard';
+import { RequireAdminRole } from '../admin/admin-role.decorator';
+
+// Traffic of a client per day, for billing
+@Controller('admin/client-keys/:id/usage')
+@UseGuards(AdminGuard)
+export class UsageController {
+  constructor(
+    private readonly usageService: UsageService,
+    private readonly clientKeyService: ClientKeyService,
+  ) {}
+
+  @Get()
+  @RequireAdminRole('read')
+  async find(
+    @Param('id', ParseIntPipe) id: number,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    const client = await this.clientKeyService.findById(id);
+    if (!client) throw new NotFoundException('Client not found');
+    return this.usageService.report(client, parseUsageRange(from, to));
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { UsageService } from './usage.service';
+import { UsageController } from './usage.controller';
+import { ClientKeyModule } from '../keys/client-key.module';
+import { AdminModule } from '../admin/admin.module';
+
+@Module({
+  imports: [ClientKeyModule, AdminModule],
+  providers: [UsageService],
+  controllers: [UsageController],
+  exports: [UsageService],
+})
+export class UsageModule {}
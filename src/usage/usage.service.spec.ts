@@ -0,0 +1,194 @@
+import { HttpException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Request, Response } from 'express';
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClientKeyRecord } from '../entities/ClientKeyRecord';
+import { ClientKeyService } from '../keys/client-key.service';
+import { parseUsageRange, UsageService } from './usage.service';
+
+const client = {
+  id: 1,
+  namespace: 'ns',
+  name: 'tenant',
+  credentials: [],
+  isActive: true,
+  policy: { maxRequestsPerMinute: 2, maxUploadBytesPerDay: 100 },
+} as unknown as ClientKeyRecord;
+
+// A request/response pair on a socket that has moved `read`/`written` bytes
+function exchange(
+  method: string,
+  requestHeaders: Record<string, string>,
+  socket: { bytesRead: number; bytesWritten: number },
+) {
+  const headers: Record<string, string> = {};
+  const destroy = jest.fn();
+  const res = Object.assign(new EventEmitter(), {
+    headers,
+    setHeader: (name: string, value: string) => {
+      headers[name] = value;
+    },
+    destroy,
+  });
+  const req = {
+    method,
+    socket,
+    get: (name: string) => requestHeaders[name.toLowerCase()],
+  };
+  return {
+    req: req as unknown as Request,
+    res: res as unknown as Response,
+    destroy,
+  };
+}
+
+describe('UsageService', () => {
+  let root: string;
+  let service: UsageService;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-'));
+    service = new UsageService(
+      new ConfigService({ METADATA_ROOT: root }),
+      {} as ClientKeyService,
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('limits requests per minute with RateLimit headers', async () => {
+    const socket = { bytesRead: 0, bytesWritten: 0 };
+    const first = exchange('GET', {}, socket);
+    await service.admit(first.req, first.res, client);
+    const second = exchange('GET', {}, socket);
+    await service.admit(second.req, second.res, client);
+    const third = exchange('GET', {}, socket);
+    await expect(service.admit(third.req, third.res, client)).rejects.toThrow(
+      HttpException,
+    );
+    const headers = (
+      third.res as unknown as { headers: Record<string, string> }
+    ).headers;
+    expect(headers['RateLimit-Limit']).toBe('2');
+    expect(headers['RateLimit-Remaining']).toBe('0');
+    expect(Number(headers['Retry-After'])).toBeGreaterThan(0);
+  });
+
+  it('meters socket traffic per day and enforces the upload cap', async () => {
+    const socket = { bytesRead: 0, bytesWritten: 0 };
+    const unlimited = { ...client, policy: { maxUploadBytesPerDay: 100 } };
+    const upload = exchange('POST', { 'content-length': '90' }, socket);
+    await service.admit(upload.req, upload.res, unlimited);
+    socket.bytesRead = 180;
+    socket.bytesWritten = 40;
+    upload.res.emit('finish');
+    upload.res.emit('close');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const next = exchange('POST', { 'content-length': '10' }, socket);
+    await expect(service.admit(next.req, next.res, unlimited)).rejects.toThrow(
+      'Daily upload limit',
+    );
+    // Downloads are not capped
+    const download = exchange('GET', {}, socket);
+    await service.admit(download.req, download.res, unlimited);
+
+    await service.flush();
+    const reloaded = new UsageService(
+      new ConfigService({ METADATA_ROOT: root }),
+      {} as ClientKeyService,
+    );
+    const report = await reloaded.report(
+      unlimited,
+      parseUsageRange(undefined, undefined),
+    );
+    expect(report.days).toHaveLength(1);
+    expect(report.total).toEqual({
+      requests: 1,
+      throttledRequests: 1,
+      uploadedBytes: 180,
+      servedBytes: 40,
+    });
+  });
+
+  it('refuses uploads declaring more than what is left of the day', async () => {
+    const capped = { ...client, policy: { maxUploadBytesPerDay: 100 } };
+    const upload = exchange(
+      'PUT',
+      { 'content-length': '101' },
+      {
+        bytesRead: 0,
+        bytesWritten: 0,
+      },
+    );
+    await expect(service.admit(upload.req, upload.res, capped)).rejects.toThrow(
+      'leaves 100 bytes',
+    );
+  });
+
+  it('cuts off a download once it goes past the daily cap', async () => {
+    jest.useFakeTimers();
+    try {
+      const socket = { bytesRead: 0, bytesWritten: 0 };
+      const capped = { ...client, policy: { maxDownloadBytesPerDay: 100 } };
+      const download = exchange('GET', {}, socket);
+      await service.admit(download.req, download.res, capped);
+      socket.bytesWritten = 100;
+      jest.advanceTimersByTime(1000);
+      expect(download.destroy).not.toHaveBeenCalled();
+      socket.bytesWritten = 101;
+      jest.advanceTimersByTime(1000);
+      expect(download.destroy).toHaveBeenCalledTimes(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('adds up what workers flush together and keeps what fails to flush', async () => {
+    const createService = () =>
+      new UsageService(
+        new ConfigService({ METADATA_ROOT: root }),
+        {} as ClientKeyService,
+      );
+    const unlimited = { ...client, policy: {} };
+    const workers = [service, createService(), createService()];
+    for (const worker of workers) {
+      const request = exchange('GET', {}, { bytesRead: 0, bytesWritten: 0 });
+      await worker.admit(request.req, request.res, unlimited);
+      request.res.emit('close');
+    }
+    await Promise.all(workers.map((worker) => worker.flush()));
+
+    // usage.json cannot be replaced while it is a directory
+    const file = path.join(root, 'ns', 'usage.json');
+    await fs.rename(file, `${file}.bak`);
+    await fs.mkdir(file);
+    const request = exchange('GET', {}, { bytesRead: 0, bytesWritten: 0 });
+    await service.admit(request.req, request.res, unlimited);
+    request.res.emit('close');
+    await expect(service.flush()).rejects.toThrow();
+    await fs.rmdir(file);
+    await fs.rename(`${file}.bak`, file);
+    await service.flush();
+
+    const report = await createService().report(
+      unlimited,
+      parseUsageRange(undefined, undefined),
+    );
+    expect(report.total.requests).toBe(4);
+  });
+
+  it('validates report ranges', () => {
+    expect(parseUsageRange('2024-01-01', '2024-01-31')).toEqual({
+      from: '2024-01-01',
+      to: '2024-01-31',
+    });
+    expect(() => parseUsageRange('2024-02-01', '2024-01-01')).toThrow();
+    expect(() => parseUsageRange('yesterday', undefined)).toThrow();
+  });
+});
@@ -0,0 +1,434 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import type { Socket } from 'net';
+import * as path from 'path';
+import type { Request, Response } from 'express';
+import { ClientKeyRecord } from '../entities/ClientKeyRecord';
+import { DailyUsage } from '../entities/DailyUsage';
+import { ClientKeyService } from '../keys/client-key.service';
+import { withFileLock, writeFileAtomic } from '../common/utils/file-lock';
+
+const FLUSH_INTERVAL_MS = 10 * 1000;
+// How often a capped request's traffic is checked against what is left of the day
+const CUT_OFF_CHECK_MS = 200;
+const WINDOW_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrafficLimits {
+  maxRequestsPerMinute: number | null;
+  maxUploadBytesPerDay: number | null;
+  maxDownloadBytesPerDay: number | null;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  // Days with traffic, oldest first
+  days: DailyUsage[];
+  total: Omit<DailyUsage, 'date'>;
+  limits: TrafficLimits;
+}
+
+interface RateWindow {
+  start: number;
+  count: number;
+}
+
+interface ClientUsage {
+  // Totals as last read from disk, plus what this process added since
+  days: Map<string, DailyUsage>;
+  // What this process added since the last flush
+  pending: Map<string, DailyUsage>;
+}
+
+function emptyDay(date: string): DailyUsage {
+  return {
+    date,
+    requests: 0,
+    throttledRequests: 0,
+    uploadedBytes: 0,
+    servedBytes: 0,
+  };
+}
+
+function addTo(target: Omit<DailyUsage, 'date'>, delta: Partial<DailyUsage>) {
+  target.requests += delta.requests ?? 0;
+  target.throttledRequests += delta.throttledRequests ?? 0;
+  target.uploadedBytes += delta.uploadedBytes ?? 0;
+  target.servedBytes += delta.servedBytes ?? 0;
+}
+
+// Adds each delta to the day of `days` it belongs to
+function mergeDays(
+  days: Map<string, DailyUsage>,
+  deltas: Iterable<DailyUsage>,
+): void {
+  for (const delta of deltas) {
+    let day = days.get(delta.date);
+    if (!day) days.set(delta.date, (day = emptyDay(delta.date)));
+    addTo(day, delta);
+  }
+}
+
+export function usageDate(time = Date.now()): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_REPORT_DAYS = 366;
+
+/** Validates a `from`/`to` date range (YYYY-MM-DD), by default the last 30 days. */
+export function parseUsageRange(
+  from: unknown,
+  to: unknown,
+): { from: string; to: string } {
+  const check = (value: unknown, name: string) => {
+    if (
+      value !== undefined &&
+      (typeof value !== 'string' ||
+        !DATE_PATTERN.test(value) ||
+        Number.isNaN(Date.parse(value)))
+    ) {
+      throw new BadRequestException(`${name} must be a date (YYYY-MM-DD)`);
+    }
+  };
+  check(from, 'from');
+  check(to, 'to');
+  const end = (to as string | undefined) ?? usageDate();
+  const start =
+    (from as string | undefined) ?? usageDate(Date.parse(end) - 29 * DAY_MS);
+  const days = (Date.parse(end) - Date.parse(start)) / DAY_MS + 1;
+  if (days < 1 || days > MAX_REPORT_DAYS) {
+    throw new BadRequestException(
+      `from must be before to, at most ${MAX_REPORT_DAYS} days apart`,
+    );
+  }
+  return { from: start, to: end };
+}
+
+function hasBody(req: Request): boolean {
+  return (
+    Number(req.get('content-length') ?? 0) > 0 ||
+    req.get('transfer-encoding') !== undefined
+  );
+}
+
+/**
+ * Per-client request rate limits and daily traffic metering. Rate windows
+ * (fixed, one minute) are kept in memory, so with several workers each one
+ * enforces the limit on the requests it serves. Traffic is measured on the
+ * socket, so it covers every request and response byte; the daily totals are
+ * flushed to `<METADATA_ROOT>/<namespace>/usage.json` every few seconds,
+ * adding to what other processes wrote.
+ */
+@Injectable()
+export class UsageService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(UsageService.name);
+  private readonly metadataRoot: string;
+  private readonly defaultRequestsPerMinute: number | null;
+  private readonly windows = new Map<string, RateWindow>();
+  private readonly usage = new Map<string, Promise<ClientUsage>>();
+  // Socket byte counters already accounted to earlier requests (keep-alive)
+  private readonly accounted = new WeakMap<
+    Socket,
+    { read: number; written: number }
+  >();
+  private flushTimer?: NodeJS.Timeout;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly clientKeyService: ClientKeyService,
+  ) {
+    const metadataRoot =
+      this.configService.get<string>('METADATA_ROOT') || 'storage-meta';
+    this.metadataRoot = path.resolve(process.cwd(), metadataRoot);
+    const perMinute = this.configService.get<string>('RATE_LIMIT_PER_MINUTE');
+    this.defaultRequestsPerMinute = perMinute ? Number(perMinute) : null;
+  }
+
+  onModuleInit() {
+    this.flushTimer = setInterval(() => {
+      this.flush().catch((err: Error) =>
+        this.logger.error(`Usage flush failed: ${err.message}`),
+      );
+    }, FLUSH_INTERVAL_MS);
+    this.flushTimer.unref();
+  }
+
+  async onModuleDestroy() {
+    if (this.flushTimer) clearInterval(this.flushTimer);
+    await this.flush();
+  }
+
+  private usageFile(namespace: string): string {
+    const dir = path.resolve(this.metadataRoot, namespace);
+    if (path.dirname(dir) !== this.metadataRoot) {
+      throw new Error(`Invalid client namespace: ${namespace}`);
+    }
+    return path.join(dir, 'usage.json');
+  }
+
+  private async readFile(namespace: string): Promise<Map<string, DailyUsage>> {
+    try {
+      const raw = await fs.readFile(this.usageFile(namespace), 'utf8');
+      const days = JSON.parse(raw) as DailyUsage[];
+      return new Map(days.map((day) => [day.date, day]));
+    } catch {
+      return new Map();
+    }
+  }
+
+  private load(namespace: string): Promise<ClientUsage> {
+    let usage = this.usage.get(namespace);
+    if (!usage) {
+      usage = this.readFile(namespace).then((days) => ({
+        days,
+        pending: new Map(),
+      }));
+      this.usage.set(namespace, usage);
+    }
+    return usage;
+  }
+
+  private async add(namespace: string, delta: Partial<DailyUsage>) {
+    const usage = await this.load(namespace);
+    const date = usageDate();
+    for (const days of [usage.days, usage.pending]) {
+      let day = days.get(date);
+      if (!day) days.set(date, (day = emptyDay(date)));
+      addTo(day, delta);
+    }
+  }
+
+  /**
+   * Writes what this process metered since the last flush, holding the
+   * file's lock so that workers flushing together do not lose each other's
+   * traffic. What could not be written is kept for the next flush.
+   */
+  flush(): Promise<void> {
+    const run = this.flushing.then(async () => {
+      for (const [namespace, loading] of this.usage) {
+        const usage = await loading;
+        if (!usage.pending.size) continue;
+        const pending = usage.pending;
+        usage.pending = new Map();
+        const file = this.usageFile(namespace);
+        let days: Map<string, DailyUsage>;
+        try {
+          days = await withFileLock(`${file}.lock`, async () => {
+            const days = await this.readFile(namespace);
+            mergeDays(days, pending.values());
+            const sorted = [...days.values()].sort((a, b) =>
+              a.date.localeCompare(b.date),
+            );
+            await writeFileAtomic(file, JSON.stringify(sorted, null, 2));
+            return days;
+          });
+        } catch (err) {
+          mergeDays(pending, usage.pending.values());
+          usage.pending = pending;
+          throw err;
+        }
+        // Pick up other processes' traffic, keeping what was metered meanwhile
+        mergeDays(days, usage.pending.values());
+        usage.days = days;
+      }
+    });
+    this.flushing = run.catch(() => undefined);
+    return run;
+  }
+
+  limitsFor(client: Pick<ClientKeyRecord, 'policy'>): TrafficLimits {
+    const policy = client.policy;
+    return {
+      maxRequestsPerMinute:
+        policy?.maxRequestsPerMinute ?? this.defaultRequestsPerMinute,
+      maxUploadBytesPerDay: policy?.maxUploadBytesPerDay ?? null,
+      maxDownloadBytesPerDay: policy?.maxDownloadBytesPerDay ?? null,
+    };
+  }
+
+  // Accounts the request's traffic to the client once its response is done
+  private meter(req: Request, res: Response, namespace: string) {
+    const socket = req.socket;
+    let done = false;
+    const account = () => {
+      if (done) return;
+      done = true;
+      const previous = this.accounted.get(socket) ?? { read: 0, written: 0 };
+      const current = { read: socket.bytesRead, written: socket.bytesWritten };
+      this.accounted.set(socket, current);
+      this.add(namespace, {
+        requests: 1,
+        uploadedBytes: Math.max(0, current.read - previous.read),
+        servedBytes: Math.max(0, current.written - previous.written),
+      }).catch((err: Error) =>
+        this.logger.error(`Usage metering failed: ${err.message}`),
+      );
+    };
+    res.once('finish', account);
+    res.once('close', account);
+  }
+
+  // Ends the request once its own traffic uses up what was left of the day's allowance
+  private cutOffAfter(
+    req: Request,
+    res: Response,
+    direction: 'bytesRead' | 'bytesWritten',
+    remaining: number,
+  ) {
+    const socket = req.socket;
+    const start = socket[direction];
+    const timer = setInterval(() => {
+      if (socket[direction] - start <= remaining) return;
+      clearInterval(timer);
+      this.logger.warn(
+        `Cut off ${req.method} ${req.originalUrl}: daily traffic limit reached`,
+      );
+      res.destroy();
+    }, CUT_OFF_CHECK_MS);
+    timer.unref();
+    const stop = () => clearInterval(timer);
+    res.once('finish', stop);
+    res.once('close', stop);
+  }
+
+  private async throttle(
+    res: Response,
+    namespace: string,
+    retryAfterSeconds: number,
+    message: string,
+  ): Promise<never> {
+    await this.add(namespace, { throttledRequests: 1 });
+    res.setHeader('Retry-After', String(retryAfterSeconds));
+    throw new HttpException(message, HttpStatus.TOO_MANY_REQUESTS);
+  }
+
+  /**
+   * Meters the request and applies the client's limits: 429 with Retry-After
+   * once its requests of the current minute, or its traffic of the day in the
+   * request's direction, reach the limit, or when its declared Content-Length
+   * exceeds what is left of the day. A request that goes past the daily limit
+   * while it runs is cut off. Every response carries the RateLimit-* headers
+   * of the request limit.
+   */
+  async admit(
+    req: Request,
+    res: Response,
+    client: ClientKeyRecord,
+    options: { rateLimit?: boolean } = {},
+  ): Promise<void> {
+    const namespace = client.namespace;
+    const limits = this.limitsFor(client);
+    this.meter(req, res, namespace);
+
+    const perMinute = limits.maxRequestsPerMinute;
+    if (options.rateLimit !== false && perMinute !== null) {
+      const now = Date.now();
+      const start = now - (now % WINDOW_MS);
+      let window = this.windows.get(namespace);
+      if (!window || window.start !== start) {
+        this.windows.set(namespace, (window = { start, count: 0 }));
+      }
+      window.count++;
+      const reset = Math.ceil((start + WINDOW_MS - now) / 1000);
+      res.setHeader('RateLimit-Policy', `${perMinute};w=60`);
+      res.setHeader('RateLimit-Limit', String(perMinute));
+      res.setHeader(
+        'RateLimit-Remaining',
+        String(Math.max(0, perMinute - window.count)),
+      );
+      res.setHeader('RateLimit-Reset', String(reset));
+      if (window.count > perMinute) {
+        await this.throttle(
+          res,
+          namespace,
+          reset,
+          `Rate limit of ${perMinute} requests per minute exceeded`,
+        );
+      }
+    }
+
+    const upload = hasBody(req);
+    const cap = upload
+      ? limits.maxUploadBytesPerDay
+      : ['GET', 'HEAD'].includes(req.method)
+        ? limits.maxDownloadBytesPerDay
+        : null;
+    if (cap === null) return;
+    const today = await this.getDay(namespace);
+    const remaining = cap - (upload ? today.uploadedBytes : today.servedBytes);
+    const declared = upload ? Number(req.get('content-length') ?? 0) : 0;
+    if (remaining <= 0 || declared > remaining) {
+      const now = Date.now();
+      const midnight = now - (now % DAY_MS) + DAY_MS;
+      await this.throttle(
+        res,
+        namespace,
+        Math.ceil((midnight - now) / 1000),
+        remaining <= 0
+          ? `Daily ${upload ? 'upload' : 'download'} limit of ${cap} bytes reached`
+          : `Daily upload limit of ${cap} bytes leaves ${remaining} bytes for today`,
+      );
+    }
+    this.cutOffAfter(
+      req,
+      res,
+      upload ? 'bytesRead' : 'bytesWritten',
+      remaining,
+    );
+  }
+
+  /** For unauthenticated routes (public URLs, share links) serving a client's files. */
+  async admitPublic(
+    req: Request,
+    res: Response,
+    namespace: string,
+  ): Promise<void> {
+    const client = await this.clientKeyService.findByNamespace(namespace);
+    if (client) await this.admit(req, res, client, { rateLimit: false });
+  }
+
+  async getDay(namespace: string, date = usageDate()): Promise<DailyUsage> {
+    const usage = await this.load(namespace);
+    return { ...(usage.days.get(date) ?? emptyDay(date)) };
+  }
+
+  /** Daily usage between two dates (inclusive), oldest first; days without traffic are left out. */
+  async list(
+    namespace: string,
+    from: string,
+    to: string,
+  ): Promise<DailyUsage[]> {
+    const usage = await this.load(namespace);
+    return [...usage.days.values()]
+      .filter((day) => day.date >= from && day.date <= to)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map((day) => ({ ...day }));
+  }
+
+  async report(
+    client: ClientKeyRecord,
+    range: { from: string; to: string },
+  ): Promise<UsageReport> {
+    const days = await this.list(client.namespace, range.from, range.to);
+    const total = {
+      requests: 0,
+      throttledRequests: 0,
+      uploadedBytes: 0,
+      servedBytes: 0,
+    };
+    for (const day of days) addTo(total, day);
+    return { ...range, days, total, limits: this.limitsFor(client) };
+  }
+}
@@ -0,0 +1,105 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { WebhookService } from './webhook.service';
+import { ClientKeyService } from '../keys/client-key.service';
+import { AdminGuard } from '../admin/admin.guard';
+import { RequireAdminRole } from '../admin/admin-role.decorator';
+import { AuditGuard, AuditResultInterceptor } from '../audit/audit.guard';
+import { Audit } from '../audit/audit.decorator';
+import { webhookTarget } from '../audit/audit-targets';
+import type { CreateWebhookDto } from '../dtos/CreateWebhookDto';
+import type { WebhookDelivery } from '../entities/WebhookDelivery';
+
+const DELIVERY_STATUSES: WebhookDelivery['status'][] = [
+  'pending',
+  'succeeded',
+  'failed',
+];
+
+@Controller('admin/client-keys/:id/webhooks')
+@UseGuards(AuditGuard, AdminGuard)
+@UseInterceptors(AuditResultInterceptor)
+export class WebhookController {
+  constructor(
+    private readonly webhookService: WebhookService,
+    private readonly clientKeyService: ClientKeyService,
+  ) {}
+
+  @Get()
+  @Audit('webhook.list', webhookTarget)
+  @RequireAdminRole('read')
+  async findAll(@Param('id', ParseIntPipe) id: number) {
+    const client = await this.clientKeyService.findOne(id);
+    if (!client) throw new NotFoundException('Client not found');
+    return client.webhooks;
+  }
+
+  // The secret is only returned here
+  @Post()
+  @Audit('webhook.create', webhookTarget)
+  async create(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: CreateWebhookDto,
+  ) {
+    return this.clientKeyService.addWebhook(id, dto);
+  }
+
+  @Delete(':webhookId')
+  @Audit('webhook.delete', webhookTarget)
+  async remove(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('webhookId', ParseIntPipe) webhookId: number,
+  ) {
+    if (!(await this.clientKeyService.removeWebhook(id, webhookId))) {
+      throw new NotFoundException('Webhook not found');
+    }
+    return { success: true };
+  }
+
+  @Get('deliveries')
+  @Audit('webhook.deliveries', webhookTarget)
+  @RequireAdminRole('read')
+  async listDeliveries(
+    @Param('id', ParseIntPipe) id: number,
+    @Query('webhookId', new ParseIntPipe({ optional: true }))
+    webhookId?: number,
+    @Query('status') status?: string,
+    @Query('limit', new ParseIntPipe({ optional: true })) limit?: number,
+  ) {
+    if (
+      status !== undefined &&
+      !DELIVERY_STATUSES.includes(status as WebhookDelivery['status'])
+    ) {
+      throw new BadRequestException(
+        `status must be one of ${DELIVERY_STATUSES.join(', ')}`,
+      );
+    }
+    return this.webhookService.listDeliveries(id, {
+      webhookId,
+      status: status as WebhookDelivery['status'] | undefined,
+      limit:
+        limit === undefined ? undefined : Math.min(Math.max(limit, 1), 1000),
+    });
+  }
+
+  @Post('deliveries/:deliveryId/replay')
+  @Audit('webhook.replay', webhookTarget)
+  async replay(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('deliveryId') deliveryId: string,
+  ) {
+    return this.webhookService.replay(id, deliveryId);
+  }
+}
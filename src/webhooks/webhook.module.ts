@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { WebhookService } from './webhook.service';
+import { WebhookController } from './webhook.controller';
+import { ClientKeyModule } from '../keys/client-key.module';
+import { AdminModule } from '../admin/admin.module';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [ClientKeyModule, AdminModule, AuditModule],
+  providers: [WebhookService],
+  controllers: [WebhookController],
+  exports: [WebhookService],
+})
+export class WebhookModule {}
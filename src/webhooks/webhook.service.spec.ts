@@ -0,0 +1,195 @@
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { ClientKeyRecord } from '../entities/ClientKeyRecord';
+import { WebhookDelivery } from '../entities/WebhookDelivery';
+import { ClientKeyService } from '../keys/client-key.service';
+import { verifyWebhookSignature } from '../common/utils/webhook-signature';
+import { WebhookService } from './webhook.service';
+
+interface Received {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebhookService', () => {
+  let root: string;
+  let server: Server;
+  let received: Received[];
+  // Status codes the receiver answers with, in order; 204 once exhausted
+  let responses: number[];
+  let client: ClientKeyRecord;
+  let service: WebhookService;
+  let createService: () => WebhookService;
+
+  const waitFor = async (
+    predicate: (deliveries: WebhookDelivery[]) => boolean,
+  ) => {
+    for (let i = 0; i < 100; i++) {
+      const deliveries = await service.listDeliveries(client.id);
+      if (predicate(deliveries)) return deliveries;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    throw new Error('Timed out waiting for webhook deliveries');
+  };
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'webhooks-'));
+    received = [];
+    responses = [];
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responses.shift() ?? 204;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    client = {
+      id: 1,
+      namespace: 'ns',
+      name: 'tenant',
+      credentials: [],
+      isActive: true,
+      webhooks: [
+        {
+          id: 1,
+          url: `http://127.0.0.1:${port}/hook`,
+          events: ['file.uploaded'],
+          secret: 'whsec_test',
+          isActive: true,
+          createdAt: new Date().toISOString(),
+        },
+      ],
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+    const clientKeys = {
+      findByNamespace: (namespace: string) =>
+        Promise.resolve(namespace === 'ns' ? client : undefined),
+      findById: (id: number) =>
+        Promise.resolve(id === client.id ? client : undefined),
+    } as unknown as ClientKeyService;
+    createService = () =>
+      new WebhookService(
+        new ConfigService({
+          METADATA_ROOT: root,
+          WEBHOOK_RETRY_DELAY: '0.01',
+          WEBHOOK_MAX_ATTEMPTS: '3',
+        }),
+        clientKeys,
+      );
+    service = createService();
+  });
+
+  afterEach(async () => {
+    await service.onModuleDestroy();
+    await new Promise((resolve) => server.close(resolve));
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('posts signed payloads for subscribed events only', async () => {
+    await service.emit('ns', 'file.deleted', { file: { path: 'a.txt' } });
+    await service.emit('ns', 'file.uploaded', { file: { path: 'b.txt' } });
+    const [delivery] = await waitFor(
+      (deliveries) => deliveries[0]?.status === 'succeeded',
+    );
+
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    expect(headers['x-webhook-event']).toBe('file.uploaded');
+    expect(headers['x-webhook-delivery']).toBe(delivery.id);
+    expect(
+      verifyWebhookSignature(
+        'whsec_test',
+        body,
+        headers['x-webhook-signature'] as string,
+      ),
+    ).toBe(true);
+    expect(verifyWebhookSignature('other', body, 'garbage')).toBe(false);
+    expect(JSON.parse(body)).toMatchObject({
+      type: 'file.uploaded',
+      client: { id: 1, name: 'tenant' },
+      data: { file: { path: 'b.txt' } },
+    });
+  });
+
+  it('retries failed attempts and gives up after the last one', async () => {
+    responses = [500, 503];
+    await service.emit('ns', 'file.uploaded', {});
+    const [succeeded] = await waitFor(
+      (deliveries) => deliveries[0]?.status === 'succeeded',
+    );
+    expect(succeeded.attempts.map((attempt) => attempt.statusCode)).toEqual([
+      500, 503, 204,
+    ]);
+
+    responses = [500, 500, 500];
+    await service.emit('ns', 'file.uploaded', {});
+    const deliveries = await waitFor((all) =>
+      all.some((delivery) => delivery.status === 'failed'),
+    );
+    const failed = deliveries.find((delivery) => delivery.status === 'failed');
+    expect(failed?.attempts).toHaveLength(3);
+    expect(failed?.nextAttemptAt).toBeNull();
+  });
+
+  it('replays a delivery with the same event id', async () => {
+    await service.emit('ns', 'file.uploaded', {});
+    const [original] = await waitFor(
+      (deliveries) => deliveries[0]?.status === 'succeeded',
+    );
+    const replay = await service.replay(client.id, original.id);
+    await waitFor((deliveries) =>
+      deliveries.some(
+        (delivery) =>
+          delivery.id === replay.id && delivery.status === 'succeeded',
+      ),
+    );
+    expect(replay.replayOf).toBe(original.id);
+    expect(received.map((request) => request.headers['x-webhook-id'])).toEqual([
+      original.payload.id,
+      original.payload.id,
+    ]);
+  });
+
+  it('sends a pending delivery once when several workers resume it', async () => {
+    await service.emit('ns', 'file.uploaded', {});
+    const [sent] = await waitFor(
+      (deliveries) => deliveries[0]?.status === 'succeeded',
+    );
+    // Left pending by a worker that stopped before its first attempt
+    const now = new Date().toISOString();
+    const pending: WebhookDelivery = {
+      ...sent,
+      id: randomUUID(),
+      status: 'pending',
+      attempts: [],
+      nextAttemptAt: now,
+      updatedAt: now,
+    };
+    await fs.writeFile(
+      path.join(root, 'ns', 'webhook-deliveries', `${pending.id}.json`),
+      JSON.stringify(pending),
+    );
+    received = [];
+    const workers = [service, ...[1, 2].map(() => createService())];
+    await Promise.all(workers.map((worker) => worker.onModuleInit()));
+    await waitFor((deliveries) =>
+      deliveries.every((delivery) => delivery.status === 'succeeded'),
+    );
+    await Promise.all(workers.map((worker) => worker.onModuleDestroy()));
+    expect(received).toHaveLength(1);
+    expect(received[0].headers['x-webhook-delivery']).toBe(pending.id);
+    expect(
+      (await fs.readdir(path.join(root, 'ns', 'webhook-deliveries'))).sort(),
+    ).toEqual([`${pending.id}.json`, `${sent.id}.json`].sort());
+  });
+});
@@ -0,0 +1,381 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ClientKeyService } from '../keys/client-key.service';
+import { ClientKeyRecord } from '../entities/ClientKeyRecord';
+import { WebhookDelivery, WebhookPayload } from '../entities/WebhookDelivery';
+import {
+  WebhookEvent,
+  WebhookSubscription,
+} from '../entities/WebhookSubscription';
+import { signWebhookPayload } from '../common/utils/webhook-signature';
+import { tryWithFileLock, writeFileAtomic } from '../common/utils/file-lock';
+
+const GC_INTERVAL_MS = 15 * 60 * 1000;
+
+export interface WebhookDeliveryFilter {
+  webhookId?: number;
+  status?: WebhookDelivery['status'];
+  limit?: number;
+}
+
+/**
+ * Sends storage events to the webhooks configured on a client. Every delivery
+ * is persisted under `<METADATA_ROOT>/<namespace>/webhook-deliveries/` with its
+ * attempts; failed attempts are retried with exponential backoff, including
+ * the ones still pending when the process restarts. Every worker resumes the
+ * pending deliveries, so each attempt is claimed with a lock file next to the
+ * delivery and made only by the worker that finds it still due.
+ */
+@Injectable()
+export class WebhookService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookService.name);
+  private readonly metadataRoot: string;
+  private readonly timeoutMs: number;
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+  private readonly retentionMs: number;
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly running = new Set<Promise<void>>();
+  private stopped = false;
+  private gcTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly clientKeyService: ClientKeyService,
+  ) {
+    const metadataRoot =
+      this.configService.get<string>('METADATA_ROOT') || 'storage-meta';
+    this.metadataRoot = path.resolve(process.cwd(), metadataRoot);
+    const seconds = (name: string, fallback: number) =>
+      Number(this.configService.get<string>(name) || fallback) * 1000;
+    this.timeoutMs = seconds('WEBHOOK_TIMEOUT', 10);
+    this.retryDelayMs = seconds('WEBHOOK_RETRY_DELAY', 30);
+    this.retentionMs = seconds('WEBHOOK_DELIVERY_RETENTION', 604800);
+    this.maxAttempts = Number(
+      this.configService.get<string>('WEBHOOK_MAX_ATTEMPTS') || 6,
+    );
+  }
+
+  async onModuleInit() {
+    await this.resumePending();
+    this.gcTimer = setInterval(() => {
+      this.collectGarbage().catch((err: Error) =>
+        this.logger.error(`Webhook delivery cleanup failed: ${err.message}`),
+      );
+    }, GC_INTERVAL_MS);
+    this.gcTimer.unref();
+  }
+
+  async onModuleDestroy() {
+    this.stopped = true;
+    if (this.gcTimer) clearInterval(this.gcTimer);
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+    // Let attempts in flight record their outcome
+    await Promise.allSettled(this.running);
+  }
+
+  private deliveryDir(namespace: string): string {
+    const dir = path.resolve(this.metadataRoot, namespace);
+    if (path.dirname(dir) !== this.metadataRoot) {
+      throw new Error(`Invalid client namespace: ${namespace}`);
+    }
+    return path.join(dir, 'webhook-deliveries');
+  }
+
+  private deliveryFile(namespace: string, id: string): string {
+    if (!/^[0-9a-f-]{36}$/.test(id)) {
+      throw new NotFoundException('Delivery not found');
+    }
+    return path.join(this.deliveryDir(namespace), `${id}.json`);
+  }
+
+  private async writeDelivery(
+    namespace: string,
+    delivery: WebhookDelivery,
+  ): Promise<void> {
+    const file = this.deliveryFile(namespace, delivery.id);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await writeFileAtomic(file, JSON.stringify(delivery, null, 2));
+  }
+
+  private async readDelivery(
+    namespace: string,
+    id: string,
+  ): Promise<WebhookDelivery | undefined> {
+    try {
+      const raw = await fs.readFile(this.deliveryFile(namespace, id), 'utf8');
+      return JSON.parse(raw) as WebhookDelivery;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async readDeliveries(namespace: string): Promise<WebhookDelivery[]> {
+    const dir = this.deliveryDir(namespace);
+    let entries: string[];
+    try {
+      entries = await fs.readdir(dir);
+    } catch {
+      return [];
+    }
+    const deliveries: WebhookDelivery[] = [];
+    for (const entry of entries) {
+      if (!entry.endsWith('.json')) continue;
+      try {
+        const raw = await fs.readFile(path.join(dir, entry), 'utf8');
+        deliveries.push(JSON.parse(raw) as WebhookDelivery);
+      } catch {
+        // Removed concurrently, or half written by a crashed process
+      }
+    }
+    return deliveries;
+  }
+
+  /**
+   * Queues `event` for every active webhook of the client subscribed to it.
+   * Never throws: storage operations must not fail because of webhooks.
+   */
+  async emit(
+    namespace: string,
+    event: WebhookEvent,
+    data: Record<string, unknown>,
+  ): Promise<void> {
+    try {
+      const client = await this.clientKeyService.findByNamespace(namespace);
+      const webhooks = (client?.webhooks ?? []).filter(
+        (webhook) => webhook.isActive && webhook.events.includes(event),
+      );
+      if (!client || !webhooks.length) return;
+      const payload: WebhookPayload = {
+        id: randomUUID(),
+        type: event,
+        createdAt: new Date().toISOString(),
+        client: { id: client.id, name: client.name },
+        data,
+      };
+      for (const webhook of webhooks) {
+        await this.deliver(client, webhook, payload);
+      }
+    } catch (err) {
+      this.logger.error(
+        `Could not queue ${event} webhooks: ${(err as Error).message}`,
+      );
+    }
+  }
+
+  private async deliver(
+    client: ClientKeyRecord,
+    webhook: WebhookSubscription,
+    payload: WebhookPayload,
+    replayOf?: string,
+  ): Promise<WebhookDelivery> {
+    const now = new Date().toISOString();
+    const delivery: WebhookDelivery = {
+      id: randomUUID(),
+      clientId: client.id,
+      webhookId: webhook.id,
+      event: payload.type,
+      payload,
+      url: webhook.url,
+      status: 'pending',
+      attempts: [],
+      nextAttemptAt: now,
+      replayOf: replayOf ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.writeDelivery(client.namespace, delivery);
+    this.schedule(client.namespace, delivery, 0);
+    return delivery;
+  }
+
+  private schedule(
+    namespace: string,
+    delivery: WebhookDelivery,
+    delayMs: number,
+  ) {
+    if (this.stopped) return;
+    clearTimeout(this.timers.get(delivery.id));
+    // The attempt this timer is for; another worker may have made it first
+    const attempt = delivery.attempts.length;
+    const timer = setTimeout(
+      () => {
+        this.timers.delete(delivery.id);
+        const running = this.claim(namespace, delivery.id, attempt)
+          .catch((err: Error) =>
+            this.logger.error(
+              `Webhook delivery ${delivery.id} failed: ${err.message}`,
+            ),
+          )
+          .finally(() => this.running.delete(running));
+        this.running.add(running);
+      },
+      Math.max(0, delayMs),
+    );
+    timer.unref();
+    this.timers.set(delivery.id, timer);
+  }
+
+  private async claim(
+    namespace: string,
+    id: string,
+    attempt: number,
+  ): Promise<void> {
+    const file = this.deliveryFile(namespace, id);
+    // A worker holding the lock is making this attempt and schedules the retry
+    const delivery = await tryWithFileLock(`${file}.lock`, async () => {
+      const current = await this.readDelivery(namespace, id);
+      if (current?.status !== 'pending') return;
+      if (current.attempts.length !== attempt) return;
+      await this.attempt(namespace, current);
+      return current;
+    });
+    // Retries are scheduled once the lock is released, so they can claim it
+    if (delivery?.status === 'pending' && delivery.nextAttemptAt) {
+      const at = new Date(delivery.nextAttemptAt).getTime();
+      this.schedule(namespace, delivery, at - Date.now());
+    }
+  }
+
+  private async attempt(
+    namespace: string,
+    delivery: WebhookDelivery,
+  ): Promise<void> {
+    // The secret and URL are looked up on every attempt, so rotations and removals apply to retries
+    const client = await this.clientKeyService.findByNamespace(namespace);
+    const webhook = client?.webhooks?.find((x) => x.id === delivery.webhookId);
+    const startedAt = Date.now();
+    let statusCode: number | null = null;
+    let error: string | null = null;
+    if (!webhook || !webhook.isActive) {
+      error = 'Webhook was removed or disabled';
+    } else {
+      delivery.url = webhook.url;
+      const body = JSON.stringify(delivery.payload);
+      try {
+        const response = await fetch(webhook.url, {
+          method: 'POST',
+          headers: {
+            'content-type': 'application/json',
+            'user-agent': 'codebase-storage-webhooks/1',
+            'x-webhook-id': delivery.payload.id,
+            'x-webhook-event': delivery.event,
+            'x-webhook-delivery': delivery.id,
+            'x-webhook-signature': signWebhookPayload(webhook.secret, body),
+          },
+          body,
+          redirect: 'manual',
+          signal: AbortSignal.timeout(this.timeoutMs),
+        });
+        statusCode = response.status;
+        // Only the status matters; release the connection
+        await response.body?.cancel();
+        if (!response.ok) error = `Responded with HTTP ${response.status}`;
+      } catch (err) {
+        error = (err as Error).message;
+      }
+    }
+
+    const now = new Date();
+    delivery.attempts.push({
+      at: new Date(startedAt).toISOString(),
+      statusCode,
+      error,
+      durationMs: Date.now() - startedAt,
+    });
+    delivery.updatedAt = now.toISOString();
+    if (!error) {
+      delivery.status = 'succeeded';
+      delivery.nextAttemptAt = null;
+    } else if (
+      webhook?.isActive &&
+      delivery.attempts.length < this.maxAttempts
+    ) {
+      const delay = this.retryDelayMs * 2 ** (delivery.attempts.length - 1);
+      delivery.nextAttemptAt = new Date(now.getTime() + delay).toISOString();
+    } else {
+      delivery.status = 'failed';
+      delivery.nextAttemptAt = null;
+    }
+    await this.writeDelivery(namespace, delivery);
+  }
+
+  // Picks up the retries that were scheduled before a restart
+  private async resumePending(): Promise<void> {
+    let namespaces: string[];
+    try {
+      namespaces = await fs.readdir(this.metadataRoot);
+    } catch {
+      return;
+    }
+    for (const namespace of namespaces) {
+      for (const delivery of await this.readDeliveries(namespace)) {
+        if (delivery.status !== 'pending') continue;
+        const at = new Date(delivery.nextAttemptAt ?? 0).getTime();
+        this.schedule(namespace, delivery, at - Date.now());
+      }
+    }
+  }
+
+  /** Newest deliveries first. */
+  async listDeliveries(
+    clientId: number,
+    filter: WebhookDeliveryFilter = {},
+  ): Promise<WebhookDelivery[]> {
+    const client = await this.clientKeyService.findById(clientId);
+    if (!client) throw new NotFoundException('Client not found');
+    return (await this.readDeliveries(client.namespace))
+      .filter(
+        (delivery) =>
+          (filter.webhookId === undefined ||
+            delivery.webhookId === filter.webhookId) &&
+          (filter.status === undefined || delivery.status === filter.status),
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, filter.limit ?? 100);
+  }
+
+  /** Sends the payload of a past delivery again, as a new delivery. */
+  async replay(clientId: number, deliveryId: string): Promise<WebhookDelivery> {
+    const client = await this.clientKeyService.findById(clientId);
+    if (!client) throw new NotFoundException('Client not found');
+    const original = await this.readDelivery(client.namespace, deliveryId);
+    if (!original) throw new NotFoundException('Delivery not found');
+    const webhook = client.webhooks?.find((x) => x.id === original.webhookId);
+    if (!webhook) throw new NotFoundException('Webhook not found');
+    return this.deliver(client, webhook, original.payload, original.id);
+  }
+
+  /** Removes finished deliveries older than WEBHOOK_DELIVERY_RETENTION. */
+  async collectGarbage(): Promise<number> {
+    let namespaces: string[];
+    try {
+      namespaces = await fs.readdir(this.metadataRoot);
+    } catch {
+      return 0;
+    }
+    const cutoff = Date.now() - this.retentionMs;
+    let removed = 0;
+    for (const namespace of namespaces) {
+      for (const delivery of await this.readDeliveries(namespace)) {
+        if (delivery.status === 'pending') continue;
+        if (new Date(delivery.updatedAt).getTime() >= cutoff) continue;
+        await fs.rm(this.deliveryFile(namespace, delivery.id), {
+          force: true,
+        });
+        removed++;
+      }
+    }
+    return removed;
+  }
+}